@@ -1,13 +1,16 @@
 "use client";
-import React, { useEffect, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useSearchParams } from "next/navigation";
 import { v4 as uuidv4 } from "uuid";
 
 import Image from "next/image";
+import Link from "next/link";
 
 // UI components
 import Transcript from "./components/Transcript";
 import Events from "./components/Events";
+import ScenarioEditor from "./components/ScenarioEditor";
+import HandoffGraph from "./components/HandoffGraph";
 import BottomToolbar from "./components/BottomToolbar";
 
 // Types
@@ -19,30 +22,32 @@ import { useTranscript } from "@/app/contexts/TranscriptContext";
 import { useEvent } from "@/app/contexts/EventContext";
 import { useRealtimeSession } from "./hooks/useRealtimeSession";
 import { createRealtimeSessionUpdate } from "./lib/realtimeSessionConfig";
+import type { RealtimeClientEvent } from "./lib/realtimeEvents";
+import { isRealtimeTransportKind, RealtimeTransportKind } from "./lib/realtimeTransport";
+import { createRecordingArchive, readRecording } from "./lib/realtimeRecorder";
+import {
+  exportTranscript as exportTranscriptFile,
+  TranscriptExportFormat,
+} from "./lib/transcriptExport";
+import { ScenarioDefinition } from "./lib/scenarioDefinitions";
+import { agentsToScenarioDefinition, serializeScenario } from "./lib/scenarioEditing";
 import { createModerationGuardrail } from "@/app/agentConfigs/guardrails";
 
 // Agent configs
-import { allAgentSets, defaultAgentSetKey } from "@/app/agentConfigs";
-import { customerServiceRetailScenario } from "@/app/agentConfigs/customerServiceRetail";
-import { chatSupervisorScenario } from "@/app/agentConfigs/chatSupervisor";
+import { defaultAgentSetKey } from "@/app/agentConfigs";
 import { customerServiceRetailCompanyName } from "@/app/agentConfigs/customerServiceRetail";
 import { chatSupervisorCompanyName } from "@/app/agentConfigs/chatSupervisor";
-import { simpleHandoffScenario } from "@/app/agentConfigs/simpleHandoff";
-
-// Map used by connect logic for scenarios defined via the SDK.
-const sdkScenarioMap: Record<string, RealtimeAgent[]> = {
-  simpleHandoff: simpleHandoffScenario,
-  customerServiceRetail: customerServiceRetailScenario,
-  chatSupervisor: chatSupervisorScenario,
-};
 
 import useAudioDownload from "./hooks/useAudioDownload";
 import { useHandleSessionHistory } from "./hooks/useHandleSessionHistory";
+import { useSessionPersistence } from "./hooks/useSessionPersistence";
+import { useScenarios } from "./hooks/useScenarios";
 
 type SessionConfig = {
   clientSecret: string;
   model?: string;
   endpoint?: string;
+  webrtcEndpoint?: string;
 };
 
 function App() {
@@ -54,21 +59,36 @@ function App() {
   // a traditional phone line and to validate ASR / VAD behaviour under that
   // constraint.
   //
-  // We read the `?codec=` query-param and rely on the `changePeerConnection`
-  // hook (configured in `useRealtimeSession`) to set the preferred codec
-  // before the offer/answer negotiation.
+  // We read the `?codec=` query-param. The WebRTC transport sets the
+  // preferred codec on its audio transceiver before the offer/answer
+  // negotiation; the WebSocket transport captures and plays G.711 at 8 kHz
+  // itself (see g711.ts). `?transport=` picks between them.
   // ---------------------------------------------------------------------
   const urlCodec = searchParams.get("codec") || "opus";
-
-  // Agents SDK doesn't currently support codec selection so it is now forced 
-  // via global codecPatch at module load 
+  const urlTransport = searchParams.get("transport");
+  const transport: RealtimeTransportKind = isRealtimeTransportKind(urlTransport)
+    ? urlTransport
+    : "websocket";
 
   const {
+    transcriptItems,
     addTranscriptMessage,
     addTranscriptBreadcrumb,
+    updateTranscriptItem,
+    clearTranscript,
   } = useTranscript();
   const { logClientEvent, logServerEvent } = useEvent();
 
+  const {
+    agentSets,
+    definitions: scenarioDefinitions,
+    sources: scenarioSources,
+    companyNames: scenarioCompanyNames,
+    isLoaded: scenariosLoaded,
+    applyScenario,
+    saveScenario,
+    deleteSavedScenario,
+  } = useScenarios();
   const [selectedAgentName, setSelectedAgentName] = useState<string>("");
   const [selectedAgentConfigSet, setSelectedAgentConfigSet] = useState<
     RealtimeAgent[] | null
@@ -77,6 +97,8 @@ function App() {
   const audioElementRef = useRef<HTMLAudioElement | null>(null);
   // Ref to identify whether the latest agent switch came from an automatic handoff
   const handoffTriggeredRef = useRef(false);
+  // Latest status for the session callbacks, which a replay keeps from when it started
+  const sessionStatusRef = useRef<SessionStatus>("DISCONNECTED");
 
   const sdkAudioElement = React.useMemo(() => {
     if (typeof window === 'undefined') return undefined;
@@ -101,20 +123,36 @@ function App() {
     sendEvent,
     interrupt,
     mute,
+    replay,
+    getRecording,
+    hasRecording,
+    updateAgents,
   } = useRealtimeSession({
-    onConnectionChange: (s) => setSessionStatus(s as SessionStatus),
-    onAgentHandoff: (agentName: string) => {
+    onConnectionChange: (s) => {
+      sessionStatusRef.current = s as SessionStatus;
+      setSessionStatus(s as SessionStatus);
+    },
+    onAgentHandoff: (agentName: string, fromAgentName: string) => {
       handoffTriggeredRef.current = true;
+      // A replayed session's handoffs were recorded when it ran
+      if (sessionStatusRef.current !== "REPLAYING") {
+        recordHandoff(fromAgentName, agentName);
+        setHandoffPath((path) => [...path, agentName]);
+      }
       setSelectedAgentName(agentName);
     },
   });
 
   const [sessionStatus, setSessionStatus] =
     useState<SessionStatus>("DISCONNECTED");
+  const { startSession, recordHandoff } = useSessionPersistence(sessionStatus);
   const [connectionError, setConnectionError] = useState<string | null>(null);
 
   const [isEventsPaneExpanded, setIsEventsPaneExpanded] =
     useState<boolean>(true);
+  // What replaces the logs pane, if anything
+  const [sidePanel, setSidePanel] = useState<"graph" | "editor" | null>(null);
+  const [handoffPath, setHandoffPath] = useState<string[]>([]);
   const [userText, setUserText] = useState<string>("");
   const [isPTTActive, setIsPTTActive] = useState<boolean>(false);
   const [isPTTUserSpeaking, setIsPTTUserSpeaking] = useState<boolean>(false);
@@ -127,10 +165,10 @@ function App() {
   );
 
   // Initialize the recording hook.
-  const { startRecording, stopRecording, downloadRecording } =
+  const { startRecording, stopRecording, downloadRecording, getRecordingStartedAt } =
     useAudioDownload();
 
-  const sendClientEvent = (eventObj: any, eventNameSuffix = "") => {
+  const sendClientEvent = (eventObj: RealtimeClientEvent, eventNameSuffix = "") => {
     try {
       sendEvent(eventObj);
       logClientEvent(eventObj, eventNameSuffix);
@@ -143,7 +181,9 @@ function App() {
 
   useEffect(() => {
     let finalAgentConfig = searchParams.get("agentConfig");
-    if (!finalAgentConfig || !allAgentSets[finalAgentConfig]) {
+    if (!finalAgentConfig || !agentSets[finalAgentConfig]) {
+      // It may come from the scenarios directory, which is still loading
+      if (finalAgentConfig && !scenariosLoaded) return;
       finalAgentConfig = defaultAgentSetKey;
       const url = new URL(window.location.toString());
       url.searchParams.set("agentConfig", finalAgentConfig);
@@ -151,12 +191,14 @@ function App() {
       return;
     }
 
-    const agents = allAgentSets[finalAgentConfig];
-    const agentKeyToUse = agents[0]?.name || "";
+    const agents = agentSets[finalAgentConfig];
 
-    setSelectedAgentName(agentKeyToUse);
+    // Keep the selected agent when the scenario was only edited
+    setSelectedAgentName((prev) =>
+      agents.some((agent) => agent.name === prev) ? prev : agents[0]?.name || ""
+    );
     setSelectedAgentConfigSet(agents);
-  }, [searchParams]);
+  }, [searchParams, agentSets, scenariosLoaded]);
 
   useEffect(() => {
     // DISABLED: Do not auto-connect like the working console
@@ -212,9 +254,12 @@ function App() {
     return rawText.trim() || fallback;
   };
 
-  const fetchSessionConfig = async (): Promise<SessionConfig | null> => {
-    logClientEvent({ url: "/session" }, "fetch_session_token_request");
-    const tokenResponse = await fetch("/api/session");
+  const getSessionUrl = (scenario: string) =>
+    `/api/session?scenario=${encodeURIComponent(scenario)}`;
+
+  const fetchSessionConfig = async (scenario: string): Promise<SessionConfig | null> => {
+    logClientEvent({ url: "/session", scenario }, "fetch_session_token_request");
+    const tokenResponse = await fetch(getSessionUrl(scenario));
     const rawText = await tokenResponse.text();
     const data = parseResponseBody(rawText);
     logServerEvent(data, "fetch_session_token_response");
@@ -240,43 +285,75 @@ function App() {
       clientSecret: data.client_secret.value,
       model: data.model,
       endpoint: data.endpoint,
+      webrtcEndpoint: data.webrtc_endpoint,
     };
   };
 
+  // Session tokens are single-use, so every reconnect needs a fresh one
+  const fetchClientSecret = async (scenario: string): Promise<string> => {
+    const tokenResponse = await fetch(getSessionUrl(scenario));
+    const rawText = await tokenResponse.text();
+    const data = parseResponseBody(rawText);
+    if (!tokenResponse.ok || !data.client_secret?.value) {
+      throw new Error(getRawErrorMessage(rawText, tokenResponse.statusText));
+    }
+    return data.client_secret.value;
+  };
+
   const connectToRealtime = async () => {
     const agentSetKey = searchParams.get("agentConfig") || "default";
-    if (sdkScenarioMap[agentSetKey]) {
+    if (agentSets[agentSetKey]) {
       if (sessionStatus !== "DISCONNECTED") return;
       setConnectionError(null);
       setSessionStatus("CONNECTING");
 
       try {
-        const sessionConfig = await fetchSessionConfig();
+        const sessionConfig = await fetchSessionConfig(agentSetKey);
         if (!sessionConfig) return;
 
         // Ensure the selectedAgentName is first so that it becomes the root
-        const reorderedAgents = [...sdkScenarioMap[agentSetKey]];
+        const reorderedAgents = [...agentSets[agentSetKey]];
         const idx = reorderedAgents.findIndex((a) => a.name === selectedAgentName);
         if (idx > 0) {
           const [agent] = reorderedAgents.splice(idx, 1);
           reorderedAgents.unshift(agent);
         }
 
-        const companyName = agentSetKey === 'customerServiceRetail'
-          ? customerServiceRetailCompanyName
-          : chatSupervisorCompanyName;
+        const companyName = scenarioCompanyNames[agentSetKey] ??
+          (agentSetKey === 'customerServiceRetail'
+            ? customerServiceRetailCompanyName
+            : chatSupervisorCompanyName);
         const guardrail = createModerationGuardrail(companyName);
+        let initialClientSecret: string | null = sessionConfig.clientSecret;
 
         await connect({
-          getEphemeralKey: async () => sessionConfig.clientSecret,
+          getEphemeralKey: async () => {
+            if (!initialClientSecret) return fetchClientSecret(agentSetKey);
+            const clientSecret = initialClientSecret;
+            initialClientSecret = null;
+            return clientSecret;
+          },
           model: sessionConfig.model,
           url: sessionConfig.endpoint,
+          scenario: agentSetKey,
           initialAgents: reorderedAgents,
           outputGuardrails: [guardrail],
+          reconnect: true,
+          transport,
+          webrtcUrl: sessionConfig.webrtcEndpoint,
+          codec: urlCodec,
+          audioElement: sdkAudioElement,
           extraContext: {
             addTranscriptBreadcrumb,
+            updateTranscriptItem,
           },
         });
+        setHandoffPath([reorderedAgents[0].name]);
+        startSession({
+          scenario: agentSetKey,
+          model: sessionConfig.model,
+          rootAgentName: reorderedAgents[0].name,
+        });
       } catch (err) {
         console.error("Error connecting via SDK:", err);
         setConnectionError(getErrorMessage(err));
@@ -292,6 +369,83 @@ function App() {
     setIsPTTUserSpeaking(false);
   };
 
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.style.display = "none";
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    setTimeout(() => URL.revokeObjectURL(url), 100);
+  };
+
+  const saveSessionRecording = () => {
+    const recording = getRecording();
+    if (!recording) return;
+
+    const blob = new Blob([createRecordingArchive(recording)], { type: "application/zip" });
+    const startedAt = recording.header.startedAt.replace(/[:.]/g, "-");
+    downloadBlob(blob, `realtime_agents_session_${startedAt}.zip`);
+  };
+
+  const exportTranscript = (format: TranscriptExportFormat) => {
+    const exportedAt = new Date();
+    const file = exportTranscriptFile(format, transcriptItems, {
+      scenario: searchParams.get("agentConfig") || "default",
+      // Offsets from the start of the audio recording, so captions line up with it
+      startedAtMs: getRecordingStartedAt() ?? undefined,
+      exportedAt,
+    });
+    const blob = new Blob([file.content], { type: `${file.mimeType};charset=utf-8` });
+    const timestamp = exportedAt.toISOString().replace(/[:.]/g, "-");
+    downloadBlob(blob, `realtime_agents_transcript_${timestamp}.${file.extension}`);
+  };
+
+  const applyEditedScenario = (scenario: ScenarioDefinition) => {
+    const agentSetKey = searchParams.get("agentConfig") || "default";
+    const agents = applyScenario(agentSetKey, scenario);
+    if (sessionStatus === "CONNECTED") updateAgents(agents);
+  };
+
+  const showScenario = (key: string) => {
+    const url = new URL(window.location.toString());
+    url.searchParams.set("agentConfig", key);
+    window.location.replace(url.toString());
+  };
+
+  const saveEditedScenario = (key: string, scenario: ScenarioDefinition) => {
+    saveScenario(key, scenario);
+    if (key !== searchParams.get("agentConfig")) showScenario(key);
+  };
+
+  const deleteEditedScenario = (key: string) => {
+    deleteSavedScenario(key);
+    showScenario(defaultAgentSetKey);
+  };
+
+  const exportScenario = (scenario: ScenarioDefinition, format: "yaml" | "json") => {
+    const agentSetKey = searchParams.get("agentConfig") || "default";
+    const blob = new Blob([serializeScenario(scenario, format)], {
+      type: format === "json" ? "application/json" : "application/yaml",
+    });
+    downloadBlob(blob, `${agentSetKey}.${format}`);
+  };
+
+  const replaySessionRecording = async (file: File) => {
+    if (sessionStatus !== "DISCONNECTED") return;
+    setConnectionError(null);
+    try {
+      const recording = readRecording(new Uint8Array(await file.arrayBuffer()));
+      clearTranscript();
+      await replay(recording);
+    } catch (err) {
+      console.error("Error replaying session recording:", err);
+      setConnectionError(getErrorMessage(err));
+    }
+  };
+
   const sendSimulatedUserMessage = (text: string) => {
     const id = uuidv4().slice(0, 32);
     addTranscriptMessage(id, "user", text, true);
@@ -364,7 +518,7 @@ function App() {
   };
 
   const onToggleConnection = () => {
-    if (sessionStatus === "CONNECTED" || sessionStatus === "CONNECTING") {
+    if (sessionStatus !== "DISCONNECTED") {
       disconnectFromRealtime();
       setSessionStatus("DISCONNECTED");
     } else {
@@ -373,10 +527,7 @@ function App() {
   };
 
   const handleAgentChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newAgentConfig = e.target.value;
-    const url = new URL(window.location.toString());
-    url.searchParams.set("agentConfig", newAgentConfig);
-    window.location.replace(url.toString());
+    showScenario(e.target.value);
   };
 
   const handleSelectedAgentChange = (
@@ -397,6 +548,12 @@ function App() {
     window.location.replace(url.toString());
   };
 
+  const handleTransportChange = (newTransport: RealtimeTransportKind) => {
+    const url = new URL(window.location.toString());
+    url.searchParams.set("transport", newTransport);
+    window.location.replace(url.toString());
+  };
+
   useEffect(() => {
     const storedPushToTalkUI = localStorage.getItem("pushToTalkUI");
     if (storedPushToTalkUI) {
@@ -452,13 +609,10 @@ function App() {
     }
   }, [isAudioPlaybackEnabled]);
 
-  // Note: OpenAIRealtimeWebSocket transport does not support mute() method
-  // Mute functionality must be handled at the audio element level
-  // The SDK's WebSocket transport throws: "Mute is not supported for the WebSocket transport"
+  // Note: the native WebSocket transport plays audio through its own AudioContext,
+  // so mute() silences that output (applied above and again on connect)
   useEffect(() => {
     if (sessionStatus === 'CONNECTED') {
-      // For WebSocket transport, mute is handled via audio element muted property
-      // which is already managed by isAudioPlaybackEnabled state
       console.log('[App] Audio playback state:', isAudioPlaybackEnabled ? 'enabled' : 'disabled');
     }
   }, [sessionStatus, isAudioPlaybackEnabled]);
@@ -477,6 +631,13 @@ function App() {
   }, [sessionStatus]);
 
   const agentSetKey = searchParams.get("agentConfig") || "default";
+  // Memoized so the editor's draft isn't reset on every render
+  const editedScenario = useMemo(
+    () =>
+      scenarioDefinitions[agentSetKey] ??
+      (agentSets[agentSetKey] ? agentsToScenarioDefinition(agentSetKey, agentSets[agentSetKey]) : null),
+    [agentSetKey, agentSets, scenarioDefinitions]
+  );
 
   return (
     <div className="text-base flex flex-col h-screen bg-gray-100 text-gray-800 relative">
@@ -508,7 +669,7 @@ function App() {
               onChange={handleAgentChange}
               className="appearance-none border border-gray-300 rounded-lg text-base px-2 py-1 pr-8 cursor-pointer font-normal focus:outline-none"
             >
-              {Object.keys(allAgentSets).map((agentKey) => (
+              {Object.keys(agentSets).map((agentKey) => (
                 <option key={agentKey} value={agentKey}>
                   {agentKey}
                 </option>
@@ -558,6 +719,27 @@ function App() {
               </div>
             </div>
           )}
+
+          <button
+            onClick={() => setSidePanel((panel) => (panel === "graph" ? null : "graph"))}
+            className="ml-6 text-base font-medium text-gray-600 hover:text-gray-900"
+          >
+            {sidePanel === "graph" ? "Close graph" : "Handoff graph"}
+          </button>
+
+          <button
+            onClick={() => setSidePanel((panel) => (panel === "editor" ? null : "editor"))}
+            className="ml-6 text-base font-medium text-gray-600 hover:text-gray-900"
+          >
+            {sidePanel === "editor" ? "Close editor" : "Edit scenario"}
+          </button>
+
+          <Link
+            href="/sessions"
+            className="ml-6 text-base font-medium text-gray-600 hover:text-gray-900"
+          >
+            Past sessions
+          </Link>
         </div>
       </div>
 
@@ -567,12 +749,32 @@ function App() {
           setUserText={setUserText}
           onSendMessage={handleSendTextMessage}
           downloadRecording={downloadRecording}
+          exportTranscript={exportTranscript}
           canSend={
             sessionStatus === "CONNECTED"
           }
         />
 
-        <Events isExpanded={isEventsPaneExpanded} />
+        {sidePanel === "graph" && selectedAgentConfigSet ? (
+          <HandoffGraph
+            agents={selectedAgentConfigSet}
+            activeAgentName={sessionStatus === "CONNECTED" ? selectedAgentName : null}
+            path={handoffPath}
+          />
+        ) : sidePanel === "editor" && editedScenario ? (
+          <ScenarioEditor
+            scenarioKey={agentSetKey}
+            scenario={editedScenario}
+            source={scenarioSources[agentSetKey]}
+            isConnected={sessionStatus === "CONNECTED"}
+            onApply={applyEditedScenario}
+            onSave={saveEditedScenario}
+            onDelete={deleteEditedScenario}
+            onExport={exportScenario}
+          />
+        ) : (
+          <Events isExpanded={isEventsPaneExpanded} />
+        )}
       </div>
 
       {connectionError && (
@@ -595,6 +797,11 @@ function App() {
         setIsAudioPlaybackEnabled={setIsAudioPlaybackEnabled}
         codec={urlCodec}
         onCodecChange={handleCodecChange}
+        transport={transport}
+        onTransportChange={handleTransportChange}
+        canSaveSessionRecording={hasRecording}
+        onSaveSessionRecording={saveSessionRecording}
+        onReplaySessionRecording={replaySessionRecording}
       />
     </div>
   );
@@ -147,23 +147,132 @@ export const supervisorAgentTools = [
   },
 ];
 
-async function fetchResponsesMessage(body: any) {
+/**
+ * Calls /api/responses in streaming mode and hands every Responses API event to
+ * `onEvent` as it arrives. Resolves with the completed response (same shape as
+ * a non-streaming call) or `{ error }`.
+ */
+export async function fetchResponsesStream(
+  body: any,
+  onEvent?: (event: any) => void,
+) {
   const response = await fetch('/api/responses', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
     // Preserve the previous behaviour of forcing sequential tool calls.
-    body: JSON.stringify({ ...body, parallel_tool_calls: false }),
+    body: JSON.stringify({ ...body, parallel_tool_calls: false, stream: true }),
   });
 
-  if (!response.ok) {
+  if (!response.ok || !response.body) {
     console.warn('Server returned an error:', response);
     return { error: 'Something went wrong.' };
   }
 
-  const completion = await response.json();
-  return completion;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let completed: any = null;
+  let malformed = false;
+
+  const handleMessage = (message: string) => {
+    const data = message
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+    if (!data) return;
+
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch (error) {
+      console.warn('Supervisor stream sent malformed data:', data, error);
+      malformed = true;
+      return;
+    }
+    onEvent?.(event);
+    if (event.type === 'response.completed') {
+      completed = event.response;
+    } else if (event.type === 'response.failed' || event.type === 'error') {
+      console.warn('Supervisor stream failed:', event);
+      completed = { error: 'Something went wrong.' };
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1 && !malformed) {
+      handleMessage(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+    if (malformed) {
+      await reader.cancel();
+      return { error: 'Something went wrong.' };
+    }
+  }
+  if (buffer.trim()) handleMessage(buffer);
+
+  if (malformed) return { error: 'Something went wrong.' };
+  return completed ?? { error: 'Stream ended without a completed response.' };
+}
+
+type SupervisorProgressContext = {
+  addTranscriptBreadcrumb?: (title: string, data?: any) => string | void;
+  updateTranscriptItem?: (itemId: string, updatedProperties: Record<string, any>) => void;
+};
+
+const PROGRESS_UPDATE_INTERVAL_MS = 250;
+
+/**
+ * Turns supervisor stream events into breadcrumbs: one "drafting" breadcrumb per
+ * answer whose text grows as deltas arrive, plus one per tool call the
+ * supervisor starts. Without updateTranscriptItem the draft is only shown once done.
+ */
+function createSupervisorProgress(context: SupervisorProgressContext) {
+  const { addTranscriptBreadcrumb, updateTranscriptItem } = context;
+  let draftId: string | null = null;
+  let draftText = '';
+  let lastUpdateAt = 0;
+
+  const flushDraft = () => {
+    if (!addTranscriptBreadcrumb || !draftText) return;
+    if (draftId && updateTranscriptItem) {
+      updateTranscriptItem(draftId, { data: { text: draftText } });
+    } else if (!draftId) {
+      draftId = addTranscriptBreadcrumb('[supervisorAgent] drafting response', { text: draftText }) || null;
+    }
+    lastUpdateAt = Date.now();
+  };
+
+  return {
+    onEvent(event: any) {
+      switch (event.type) {
+        case 'response.output_text.delta':
+          draftText += event.delta ?? '';
+          if (updateTranscriptItem && Date.now() - lastUpdateAt >= PROGRESS_UPDATE_INTERVAL_MS) {
+            flushDraft();
+          }
+          break;
+        case 'response.output_item.added':
+          if (event.item?.type === 'function_call') {
+            addTranscriptBreadcrumb?.(`[supervisorAgent] preparing function call: ${event.item.name}`);
+          }
+          break;
+        case 'response.completed':
+          flushDraft();
+          draftId = null;
+          draftText = '';
+          break;
+      }
+    },
+  };
 }
 
 function getToolResponse(fName: string) {
@@ -187,6 +296,7 @@ async function handleToolCalls(
   body: any,
   response: any,
   addBreadcrumb?: (title: string, data?: any) => void,
+  onEvent?: (event: any) => void,
 ) {
   let currentResponse = response;
 
@@ -249,7 +359,7 @@ async function handleToolCalls(
     }
 
     // Make the follow-up request including the tool outputs.
-    currentResponse = await fetchResponsesMessage(body);
+    currentResponse = await fetchResponsesStream(body, onEvent);
   }
 }
 
@@ -277,6 +387,7 @@ export const getNextResponseFromSupervisor = tool({
     const addBreadcrumb = (details?.context as any)?.addTranscriptBreadcrumb as
       | ((title: string, data?: any) => void)
       | undefined;
+    const progress = createSupervisorProgress((details?.context as any) ?? {});
 
     const history: RealtimeItem[] = (details?.context as any)?.history ?? [];
     const filteredLogs = history.filter((log) => log.type === 'message');
@@ -303,12 +414,13 @@ export const getNextResponseFromSupervisor = tool({
       tools: supervisorAgentTools,
     };
 
-    const response = await fetchResponsesMessage(body);
+    // Streamed so partial supervisor text shows up while gpt-4.1 is still generating
+    const response = await fetchResponsesStream(body, progress.onEvent);
     if (response.error) {
       return { error: 'Something went wrong.' };
     }
 
-    const finalText = await handleToolCalls(body, response, addBreadcrumb);
+    const finalText = await handleToolCalls(body, response, addBreadcrumb, progress.onEvent);
     if ((finalText as any)?.error) {
       return { error: 'Something went wrong.' };
     }
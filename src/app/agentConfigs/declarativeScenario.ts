@@ -0,0 +1,134 @@
+import { RealtimeAgent, tool } from '@openai/agents/realtime';
+import { allAgentSets } from './index';
+import {
+  callHttpTool,
+  resolveFixture,
+  ScenarioDefinition,
+  ScenarioToolDefinition,
+} from '@/app/lib/scenarioDefinitions';
+
+const DEFAULT_VOICE = 'sage';
+
+/**
+ * Where HTTP tools run: through the server for scenario files (so the file's
+ * headers are used), or straight from where the agents run: the browser for
+ * scenarios edited or saved in the app, which the server doesn't know about,
+ * or the CLI. Direct calls fill `${NAME}` in headers from the `env` passed to
+ * buildScenarioAgents.
+ */
+export type ScenarioToolCalls = 'server' | 'direct';
+
+/**
+ * Where each tool runs, for scenarios that mix both: an edited scenario file
+ * keeps the tools the file still has on the server.
+ */
+export type ScenarioToolCallsByTool = (
+  agentName: string,
+  definition: ScenarioToolDefinition
+) => ScenarioToolCalls;
+
+async function callScenarioHttpTool(
+  scenarioKey: string,
+  agentName: string,
+  toolName: string,
+  args: Record<string, any>
+) {
+  const response = await fetch(
+    `/api/scenarios/${encodeURIComponent(scenarioKey)}/tools/${encodeURIComponent(toolName)}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ agent: agentName, arguments: args }),
+    }
+  );
+  const data = await response.json().catch(() => ({}));
+  // Hand failures back to the model as the tool result so it can recover
+  if (!response.ok) return { error: data.message ?? response.statusText };
+  return data.result;
+}
+
+function findBuiltinTool(baseScenarioKey: string | undefined, toolName: string) {
+  for (const agent of allAgentSets[baseScenarioKey ?? ''] ?? []) {
+    const found = agent.tools.find((candidate) => candidate.name === toolName);
+    if (found) return found;
+  }
+  return null;
+}
+
+function buildTool(
+  scenarioKey: string,
+  scenario: ScenarioDefinition,
+  agentName: string,
+  definition: ScenarioToolDefinition,
+  toolCalls: ScenarioToolCalls,
+  env: Record<string, string | undefined>
+) {
+  if (definition.behavior.type === 'builtin') {
+    const builtin = findBuiltinTool(scenario.extends, definition.name);
+    // Built-in tools may declare their own context type; the agent doesn't care
+    if (builtin) return builtin as unknown as ReturnType<typeof tool>;
+  }
+
+  return tool({
+    name: definition.name,
+    description: definition.description,
+    parameters: definition.parameters as any,
+    strict: false,
+    execute: async (input: any) => {
+      const args = input ?? {};
+      if (definition.behavior.type === 'fixture') {
+        return resolveFixture(definition.behavior, args);
+      }
+      if (definition.behavior.type === 'builtin') {
+        return { error: `No tool ${definition.name} in scenario ${scenario.extends}` };
+      }
+      if (toolCalls === 'direct') {
+        return callHttpTool(definition.behavior, args, env).catch((error) => ({
+          error: error instanceof Error ? error.message : String(error),
+        }));
+      }
+      return callScenarioHttpTool(scenarioKey, agentName, definition.name, args);
+    },
+  });
+}
+
+/**
+ * RealtimeAgents for a declarative scenario (see lib/scenarioDefinitions.ts),
+ * wired up like the hand-written scenarios.
+ */
+export function buildScenarioAgents(
+  scenarioKey: string,
+  scenario: ScenarioDefinition,
+  toolCalls: ScenarioToolCalls | ScenarioToolCallsByTool = 'server',
+  env: Record<string, string | undefined> = {}
+): RealtimeAgent[] {
+  const agents = scenario.agents.map(
+    (definition) =>
+      new RealtimeAgent({
+        name: definition.name,
+        voice: definition.voice ?? DEFAULT_VOICE,
+        instructions: definition.instructions,
+        handoffDescription: definition.handoffDescription,
+        handoffs: [],
+        tools: definition.tools.map((toolDefinition) =>
+          buildTool(
+            scenarioKey,
+            scenario,
+            definition.name,
+            toolDefinition,
+            typeof toolCalls === 'function' ? toolCalls(definition.name, toolDefinition) : toolCalls,
+            env
+          )
+        ),
+      })
+  );
+
+  // Handoffs can point at any agent in the scenario, so link them once all exist.
+  // Cast as in customerServiceRetail/index.ts.
+  scenario.agents.forEach((definition, index) => {
+    (agents[index].handoffs as any).push(
+      ...definition.handoffs.map((name) => agents.find((agent) => agent.name === name))
+    );
+  });
+  return agents;
+}
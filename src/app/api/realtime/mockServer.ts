@@ -0,0 +1,749 @@
+import type { IncomingMessage } from "http";
+import { randomUUID } from "crypto";
+import { readFileSync } from "fs";
+import NodeWebSocket, { WebSocketServer } from "ws";
+import { z } from "zod";
+import {
+  RealtimeClientEventSchema,
+  RealtimeConversationItem,
+  RealtimeNormalizedServerEvent,
+} from "../../lib/realtimeEvents";
+import {
+  decodeG711,
+  encodeG711,
+  G711_SAMPLE_RATE,
+  G711Law,
+  getG711LawForFormat,
+} from "../../lib/g711";
+import { RealtimeProtocol, toDialectServerEvent } from "../../lib/realtimeProtocol";
+import { DEFAULT_REALTIME_MODEL, REALTIME_RELAY_PATH } from "../../lib/realtimeServerConfig";
+
+/**
+ * Mock CometAPI Realtime Server
+ *
+ * Local stand-in for wss://api.cometapi.com/v1/realtime, for offline
+ * development and tests. Point COMETAPI_REALTIME_URL at it
+ * (ws://localhost:3002/v1/realtime) and the session route, the relay and the
+ * UI run unchanged. It speaks the beta or GA dialect and plays a script:
+ * - session.created / session.updated, reflecting every session.update
+ * - Server VAD on the appended audio (energy based): speech_started,
+ *   speech_stopped, committed and a scripted input transcription
+ * - PCM16 at 24 kHz, or G.711 at 8 kHz when the session asks for
+ *   audio/pcmu or audio/pcma
+ * - Scripted replies streamed as transcript deltas plus a synthesized tone
+ * - Scripted function calls, answered once the client sends the output
+ *
+ * Started from src/instrumentation.ts when COMETAPI_MOCK_REALTIME=true.
+ */
+
+const SAMPLE_RATE = 24000;
+const AUDIO_CHUNK_MS = 100;
+const TONE_FREQUENCY_HZ = 440;
+const TONE_AMPLITUDE = 0.2;
+/** RMS (0..1) above which an appended frame counts as speech. */
+const SPEECH_RMS_THRESHOLD = 0.02;
+const DEFAULT_SILENCE_DURATION_MS = 500;
+const TOKEN_PROTOCOL_PREFIX = "openai-insecure-api-key.";
+
+export const MockRealtimeTurnSchema = z.object({
+  /** Case-insensitive substring of the user's text this turn answers. Omit to answer anything. */
+  match: z.string().optional(),
+  /** Transcript reported for the user's speech when the turn is triggered by audio. */
+  userTranscript: z.string().optional(),
+  /** Call this tool first; `reply` is sent after the client returns the output. */
+  functionCall: z
+    .object({
+      name: z.string(),
+      arguments: z.union([z.string(), z.record(z.unknown())]).default({}),
+    })
+    .optional(),
+  reply: z.string().optional(),
+});
+
+export const MockRealtimeScriptSchema = z.object({
+  turns: z.array(MockRealtimeTurnSchema).default([]),
+  /** Reply once the turns are used up; `{text}` is replaced with what the user said. */
+  fallbackReply: z.string().optional(),
+});
+
+export type MockRealtimeTurn = z.infer<typeof MockRealtimeTurnSchema>;
+export type MockRealtimeScript = z.input<typeof MockRealtimeScriptSchema>;
+
+const DEFAULT_FALLBACK_REPLY =
+  'You said: "{text}". This is the CometAPI mock realtime server.';
+const DEFAULT_USER_TRANSCRIPT = "[mock audio input]";
+
+export interface MockRealtimeServerOptions {
+  port: number;
+  script?: MockRealtimeScript;
+  /** Dialect of the events sent to clients. Default "beta". */
+  protocol?: RealtimeProtocol;
+  /** Only accept this key. Any key is accepted when unset. */
+  apiKey?: string;
+  /** Pace audio like a real server (default). Tests can turn it off to get events immediately. */
+  realtime?: boolean;
+}
+
+/**
+ * Read and validate a script file (JSON).
+ */
+export function loadMockRealtimeScript(path: string): MockRealtimeScript {
+  return MockRealtimeScriptSchema.parse(JSON.parse(readFileSync(path, "utf8")));
+}
+
+function newId(prefix: string): string {
+  return `${prefix}_mock${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * `durationMs` of a sine tone as base64 chunks of AUDIO_CHUNK_MS: PCM16 at
+ * 24 kHz, or G.711 at 8 kHz when `law` is given.
+ */
+export function synthesizeTone(
+  durationMs: number,
+  frequencyHz = TONE_FREQUENCY_HZ,
+  law: G711Law | null = null
+): string[] {
+  const sampleRate = law ? G711_SAMPLE_RATE : SAMPLE_RATE;
+  const totalSamples = Math.round((sampleRate * durationMs) / 1000);
+  const chunkSamples = (sampleRate * AUDIO_CHUNK_MS) / 1000;
+  const chunks: string[] = [];
+
+  for (let start = 0; start < totalSamples; start += chunkSamples) {
+    const length = Math.min(chunkSamples, totalSamples - start);
+    const pcm = new Int16Array(length);
+    for (let i = 0; i < length; i++) {
+      const t = (start + i) / sampleRate;
+      pcm[i] = Math.round(Math.sin(2 * Math.PI * frequencyHz * t) * TONE_AMPLITUDE * 0x7fff);
+    }
+    const bytes = law ? encodeG711(pcm, law) : new Uint8Array(pcm.buffer);
+    chunks.push(Buffer.from(bytes).toString("base64"));
+  }
+  return chunks;
+}
+
+/**
+ * A session audio format in `protocol`, for PCM16 (null) or a G.711 law.
+ */
+function describeAudioFormat(law: G711Law | null, protocol: RealtimeProtocol) {
+  if (protocol === "beta") {
+    return law ? `g711_${law}` : "pcm16";
+  }
+  if (law) return { type: law === "ulaw" ? "audio/pcmu" : "audio/pcma" };
+  return { type: "audio/pcm", rate: SAMPLE_RATE };
+}
+
+function getRms(pcm: Buffer): number {
+  const samples = Math.floor(pcm.length / 2);
+  if (samples === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = pcm.readInt16LE(i * 2) / 0x8000;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+function getApiKey(request: IncomingMessage): string | null {
+  const protocols = (request.headers["sec-websocket-protocol"] ?? "")
+    .split(",")
+    .map((protocol) => protocol.trim());
+  const keyProtocol = protocols.find((protocol) => protocol.startsWith(TOKEN_PROTOCOL_PREFIX));
+  return keyProtocol ? keyProtocol.slice(TOKEN_PROTOCOL_PREFIX.length) : null;
+}
+
+function getUserText(item: RealtimeConversationItem): string {
+  if (item.type !== "message" || item.role !== "user") return "";
+  return item.content
+    .map((part) => part.text ?? part.transcript ?? "")
+    .filter(Boolean)
+    .join(" ");
+}
+
+type ActiveResponse = {
+  id: string;
+  cancelled: boolean;
+  output: RealtimeConversationItem[];
+};
+
+/**
+ * One client connection: the session state and the script it plays.
+ */
+class MockRealtimeSession {
+  private socket: NodeWebSocket;
+  private protocol: RealtimeProtocol;
+  private realtime: boolean;
+  private script: z.infer<typeof MockRealtimeScriptSchema>;
+  private sessionId = newId("sess");
+  private model: string;
+  private instructions = "";
+  private voice = "alloy";
+  /** G.711 law of input and output audio; null for PCM16. */
+  private inputLaw: G711Law | null = null;
+  private outputLaw: G711Law | null = null;
+  private tools: { name?: string }[] = [];
+  private turnDetection: Record<string, unknown> | null = {
+    type: "server_vad",
+    threshold: 0.5,
+    prefix_padding_ms: 300,
+    silence_duration_ms: DEFAULT_SILENCE_DURATION_MS,
+    create_response: true,
+  };
+  private items: RealtimeConversationItem[] = [];
+  private lastUserText: string | null = null;
+  /** Turn chosen when the user's speech was transcribed. */
+  private queuedTurn: MockRealtimeTurn | null = null;
+  /** Turn whose function call is waiting for its output. */
+  private pendingTurn: MockRealtimeTurn | null = null;
+  private activeResponse: ActiveResponse | null = null;
+
+  // Input audio buffer and VAD state
+  private bufferedAudioMs = 0;
+  private speechItemId: string | null = null;
+  private silenceMs = 0;
+
+  constructor(
+    socket: NodeWebSocket,
+    model: string,
+    options: Pick<MockRealtimeServerOptions, "script" | "protocol" | "realtime">
+  ) {
+    this.socket = socket;
+    this.model = model;
+    this.protocol = options.protocol ?? "beta";
+    this.realtime = options.realtime ?? true;
+    this.script = MockRealtimeScriptSchema.parse(options.script ?? {});
+  }
+
+  start(): void {
+    this.send({ type: "session.created", session: this.getSession() });
+    this.socket.on("message", (data) => this.handleMessage(data.toString()));
+    this.socket.on("close", () => this.cancelResponse());
+  }
+
+  private send(event: RealtimeNormalizedServerEvent): void {
+    const message = toDialectServerEvent(event, this.protocol);
+    if (!message || this.socket.readyState !== NodeWebSocket.OPEN) return;
+    this.socket.send(JSON.stringify({ event_id: newId("event"), ...message }));
+  }
+
+  private sendError(code: string, message: string, eventId?: string): void {
+    this.send({
+      type: "error",
+      error: { type: "invalid_request_error", code, message, event_id: eventId ?? null },
+    });
+  }
+
+  /**
+   * The session as the server reports it, in this connection's dialect.
+   */
+  private getSession(): Record<string, unknown> {
+    const common = {
+      id: this.sessionId,
+      object: "realtime.session",
+      model: this.model,
+      instructions: this.instructions,
+      tools: this.tools,
+    };
+    if (this.protocol === "beta") {
+      return {
+        ...common,
+        modalities: ["text", "audio"],
+        voice: this.voice,
+        input_audio_format: describeAudioFormat(this.inputLaw, "beta"),
+        output_audio_format: describeAudioFormat(this.outputLaw, "beta"),
+        turn_detection: this.turnDetection,
+      };
+    }
+    return {
+      ...common,
+      type: "realtime",
+      output_modalities: ["audio"],
+      audio: {
+        input: {
+          format: describeAudioFormat(this.inputLaw, "ga"),
+          turn_detection: this.turnDetection,
+        },
+        output: { format: describeAudioFormat(this.outputLaw, "ga"), voice: this.voice },
+      },
+    };
+  }
+
+  private handleMessage(raw: string): void {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.sendError("invalid_json", "Message is not valid JSON.");
+      return;
+    }
+
+    const parsed = RealtimeClientEventSchema.safeParse(message);
+    if (!parsed.success) {
+      const type = (message as { type?: unknown })?.type;
+      this.sendError(
+        "invalid_event",
+        `Invalid client event${typeof type === "string" ? ` ${type}` : ""}: ${parsed.error.issues
+          .map((issue) => `${issue.path.join(".")} ${issue.message}`)
+          .join("; ")}`
+      );
+      return;
+    }
+
+    const event = parsed.data;
+    switch (event.type) {
+      case "session.update":
+        this.updateSession(event.session);
+        break;
+
+      case "input_audio_buffer.append":
+        this.appendAudio(Buffer.from(event.audio, "base64"));
+        break;
+
+      case "input_audio_buffer.commit":
+        if (this.bufferedAudioMs === 0) {
+          this.sendError(
+            "input_audio_buffer_commit_empty",
+            "Cannot commit an empty input audio buffer.",
+            event.event_id
+          );
+          return;
+        }
+        this.commitAudio(false);
+        break;
+
+      case "input_audio_buffer.clear":
+        this.resetAudioBuffer();
+        this.send({ type: "input_audio_buffer.cleared" });
+        break;
+
+      case "conversation.item.create":
+        this.createItem(
+          { ...event.item, id: event.item.id ?? newId("item"), status: "completed" },
+          event.previous_item_id
+        );
+        break;
+
+      case "conversation.item.truncate":
+        this.send({
+          type: "conversation.item.truncated",
+          item_id: event.item_id,
+          content_index: event.content_index,
+          audio_end_ms: event.audio_end_ms,
+        });
+        break;
+
+      case "conversation.item.delete":
+        this.items = this.items.filter((item) => item.id !== event.item_id);
+        this.send({ type: "conversation.item.deleted", item_id: event.item_id });
+        break;
+
+      case "conversation.item.retrieve": {
+        const item = this.items.find((candidate) => candidate.id === event.item_id);
+        if (item) {
+          this.send({ type: "conversation.item.retrieved", item });
+        } else {
+          this.sendError("item_not_found", `Item ${event.item_id} does not exist.`, event.event_id);
+        }
+        break;
+      }
+
+      case "response.create":
+        this.createResponse(event.event_id);
+        break;
+
+      case "response.cancel":
+        if (!this.cancelResponse()) {
+          this.sendError(
+            "response_cancel_not_active",
+            "Cancellation failed: no active response found.",
+            event.event_id
+          );
+        }
+        break;
+
+      default:
+        // Accepted and ignored (e.g. output_audio_buffer.clear on WebSocket)
+        break;
+    }
+  }
+
+  private updateSession(session: Record<string, any>): void {
+    if (typeof session.instructions === "string") this.instructions = session.instructions;
+    if (Array.isArray(session.tools)) this.tools = session.tools;
+
+    const voice = session.audio?.output?.voice ?? session.voice;
+    if (typeof voice === "string") this.voice = voice;
+
+    const inputFormat = session.audio?.input?.format ?? session.input_audio_format;
+    if (inputFormat) this.inputLaw = getG711LawForFormat(inputFormat);
+    const outputFormat = session.audio?.output?.format ?? session.output_audio_format;
+    if (outputFormat) this.outputLaw = getG711LawForFormat(outputFormat);
+
+    // GA nests turn detection under audio.input, beta keeps it at the top
+    const input = session.audio?.input;
+    if (input && "turn_detection" in input) {
+      this.turnDetection = input.turn_detection;
+    } else if ("turn_detection" in session) {
+      this.turnDetection = session.turn_detection;
+    }
+
+    this.send({ type: "session.updated", session: this.getSession() });
+  }
+
+  /* ----------------------- input audio ------------------------- */
+
+  private resetAudioBuffer(): void {
+    this.bufferedAudioMs = 0;
+    this.speechItemId = null;
+    this.silenceMs = 0;
+  }
+
+  private appendAudio(audio: Buffer): void {
+    const pcm = this.inputLaw
+      ? Buffer.from(decodeG711(new Uint8Array(audio), this.inputLaw).buffer)
+      : audio;
+    const sampleRate = this.inputLaw ? G711_SAMPLE_RATE : SAMPLE_RATE;
+    const frameMs = (pcm.length / 2 / sampleRate) * 1000;
+    const frameStartMs = this.bufferedAudioMs;
+    this.bufferedAudioMs += frameMs;
+    if (!this.turnDetection) return;
+
+    const isSpeech = getRms(pcm) >= SPEECH_RMS_THRESHOLD;
+    if (!this.speechItemId) {
+      if (!isSpeech) return;
+      this.speechItemId = newId("item");
+      this.silenceMs = 0;
+      // Barge-in: the user talks over the assistant
+      this.cancelResponse("turn_detected");
+      this.send({
+        type: "input_audio_buffer.speech_started",
+        item_id: this.speechItemId,
+        audio_start_ms: Math.round(frameStartMs),
+      });
+      return;
+    }
+
+    this.silenceMs = isSpeech ? 0 : this.silenceMs + frameMs;
+    const silenceDurationMs =
+      Number(this.turnDetection.silence_duration_ms) || DEFAULT_SILENCE_DURATION_MS;
+    if (this.silenceMs >= silenceDurationMs) {
+      this.send({
+        type: "input_audio_buffer.speech_stopped",
+        item_id: this.speechItemId,
+        audio_end_ms: Math.round(this.bufferedAudioMs - this.silenceMs),
+      });
+      this.commitAudio(this.turnDetection.create_response !== false);
+    }
+  }
+
+  /**
+   * Turn the buffered audio into a user item with the next turn's transcript.
+   */
+  private commitAudio(createResponse: boolean): void {
+    const itemId = this.speechItemId ?? newId("item");
+    this.resetAudioBuffer();
+    this.send({
+      type: "input_audio_buffer.committed",
+      previous_item_id: this.items[this.items.length - 1]?.id ?? null,
+      item_id: itemId,
+    });
+
+    this.createItem({
+      id: itemId,
+      type: "message",
+      role: "user",
+      status: "completed",
+      content: [{ type: "input_audio", transcript: null }],
+    });
+
+    this.queuedTurn = this.takeTurn(null);
+    const transcript = this.queuedTurn?.userTranscript ?? DEFAULT_USER_TRANSCRIPT;
+    this.lastUserText = transcript;
+    this.send({
+      type: "conversation.item.input_audio_transcription.completed",
+      item_id: itemId,
+      content_index: 0,
+      transcript,
+    });
+
+    if (createResponse) this.createResponse();
+  }
+
+  /* ----------------------- conversation ------------------------- */
+
+  private createItem(item: RealtimeConversationItem, previousItemId?: string | null): void {
+    const previous = previousItemId ?? this.items[this.items.length - 1]?.id ?? null;
+    this.items.push(item);
+    this.send({ type: "conversation.item.added", previous_item_id: previous, item });
+    this.send({ type: "conversation.item.done", previous_item_id: previous, item });
+
+    if (item.type === "message" && item.role === "user") {
+      const text = getUserText(item);
+      if (text) {
+        this.lastUserText = text;
+        this.queuedTurn = null;
+      }
+    }
+  }
+
+  /**
+   * Next turn answering `text`; with no text (audio), simply the next turn.
+   */
+  private takeTurn(text: string | null): MockRealtimeTurn | null {
+    const needle = text?.toLowerCase() ?? "";
+    const index = this.script.turns.findIndex(
+      (turn) => text === null || !turn.match || needle.includes(turn.match.toLowerCase())
+    );
+    if (index === -1) return null;
+    return this.script.turns.splice(index, 1)[0];
+  }
+
+  /* ----------------------- responses ------------------------- */
+
+  private createResponse(eventId?: string): void {
+    if (this.activeResponse) {
+      this.sendError(
+        "conversation_already_has_active_response",
+        "Conversation already has an active response in progress.",
+        eventId
+      );
+      return;
+    }
+
+    const response: ActiveResponse = { id: newId("resp"), cancelled: false, output: [] };
+    this.activeResponse = response;
+    this.send({
+      type: "response.created",
+      response: { id: response.id, object: "realtime.response", status: "in_progress", output: [] },
+    });
+
+    this.runResponse(response).catch((error) => {
+      console.error("[mock-realtime] Response failed:", error);
+      this.sendError("server_error", "The mock server failed to produce a response.");
+      this.finishResponse(response, "failed");
+    });
+  }
+
+  private async runResponse(response: ActiveResponse): Promise<void> {
+    const lastItem = this.items[this.items.length - 1];
+
+    if (lastItem?.type === "function_call_output") {
+      const turn = this.pendingTurn;
+      this.pendingTurn = null;
+      await this.streamMessage(response, turn?.reply ?? "Done.");
+    } else {
+      const turn = this.queuedTurn ?? this.takeTurn(this.lastUserText ?? "");
+      this.queuedTurn = null;
+
+      if (turn?.functionCall) {
+        this.pendingTurn = turn;
+        this.streamFunctionCall(response, turn.functionCall);
+      } else {
+        const reply =
+          turn?.reply ??
+          (this.script.fallbackReply ?? DEFAULT_FALLBACK_REPLY).replace(
+            "{text}",
+            this.lastUserText ?? ""
+          );
+        await this.streamMessage(response, reply);
+      }
+    }
+
+    this.finishResponse(response, "completed");
+  }
+
+  private finishResponse(response: ActiveResponse, status: "completed" | "failed"): void {
+    if (response.cancelled || this.activeResponse !== response) return;
+    this.activeResponse = null;
+    this.send({
+      type: "response.done",
+      response: {
+        id: response.id,
+        object: "realtime.response",
+        status,
+        output: response.output,
+        usage: { total_tokens: 0, input_tokens: 0, output_tokens: 0 },
+      },
+    });
+  }
+
+  /**
+   * Stop the active response. Returns false if there was none.
+   */
+  private cancelResponse(reason: "client_cancelled" | "turn_detected" = "client_cancelled"): boolean {
+    const response = this.activeResponse;
+    if (!response) return false;
+    response.cancelled = true;
+    this.activeResponse = null;
+    this.send({
+      type: "response.done",
+      response: {
+        id: response.id,
+        object: "realtime.response",
+        status: "cancelled",
+        status_details: { type: "cancelled", reason },
+        output: response.output,
+      },
+    });
+    return true;
+  }
+
+  private addOutputItem(response: ActiveResponse, item: RealtimeConversationItem): void {
+    const previous = this.items[this.items.length - 1]?.id ?? null;
+    this.items.push(item);
+    response.output.push(item);
+    this.send({ type: "response.output_item.added", response_id: response.id, output_index: 0, item });
+    this.send({ type: "conversation.item.added", previous_item_id: previous, item });
+  }
+
+  private completeOutputItem(response: ActiveResponse, item: RealtimeConversationItem): void {
+    this.items = this.items.map((existing) => (existing.id === item.id ? item : existing));
+    response.output = response.output.map((existing) => (existing.id === item.id ? item : existing));
+    this.send({ type: "response.output_item.done", response_id: response.id, output_index: 0, item });
+    this.send({ type: "conversation.item.done", item });
+  }
+
+  private streamFunctionCall(
+    response: ActiveResponse,
+    functionCall: NonNullable<MockRealtimeTurn["functionCall"]>
+  ): void {
+    const args =
+      typeof functionCall.arguments === "string"
+        ? functionCall.arguments
+        : JSON.stringify(functionCall.arguments);
+    if (!this.tools.some((tool) => tool.name === functionCall.name)) {
+      console.warn(`[mock-realtime] Script calls ${functionCall.name}, which the session doesn't define`);
+    }
+
+    const item: RealtimeConversationItem = {
+      id: newId("item"),
+      type: "function_call",
+      status: "in_progress",
+      call_id: newId("call"),
+      name: functionCall.name,
+      arguments: "",
+    };
+    this.addOutputItem(response, item);
+
+    const fields = {
+      response_id: response.id,
+      item_id: item.id!,
+      output_index: 0,
+      call_id: item.call_id,
+    };
+    this.send({ type: "response.function_call_arguments.delta", ...fields, delta: args });
+    this.send({
+      type: "response.function_call_arguments.done",
+      ...fields,
+      name: functionCall.name,
+      arguments: args,
+    });
+    this.completeOutputItem(response, { ...item, status: "completed", arguments: args });
+  }
+
+  /**
+   * Stream `text` as transcript deltas, one word at a time, alongside a tone
+   * whose length roughly matches how long it would take to say.
+   */
+  private async streamMessage(response: ActiveResponse, text: string): Promise<void> {
+    const item: RealtimeConversationItem = {
+      id: newId("item"),
+      type: "message",
+      role: "assistant",
+      status: "in_progress",
+      content: [],
+    };
+    this.addOutputItem(response, item);
+
+    const fields = {
+      response_id: response.id,
+      item_id: item.id!,
+      output_index: 0,
+      content_index: 0,
+    };
+    this.send({
+      type: "response.content_part.added",
+      ...fields,
+      part: { type: "output_audio", transcript: "" },
+    });
+
+    const words = text.split(/(?<=\s)/);
+    const audioChunks = synthesizeTone(
+      Math.min(8000, 300 + text.length * 50),
+      TONE_FREQUENCY_HZ,
+      this.outputLaw
+    );
+    for (let i = 0; i < Math.max(words.length, audioChunks.length); i++) {
+      if (response.cancelled) return;
+      if (words[i]) {
+        this.send({ type: "response.output_audio_transcript.delta", ...fields, delta: words[i] });
+      }
+      if (audioChunks[i]) {
+        this.send({ type: "response.output_audio.delta", ...fields, delta: audioChunks[i] });
+      }
+      if (this.realtime) await sleep(AUDIO_CHUNK_MS);
+    }
+    if (response.cancelled) return;
+
+    const part = { type: "output_audio", transcript: text };
+    this.send({ type: "response.output_audio.done", ...fields });
+    this.send({ type: "response.output_audio_transcript.done", ...fields, transcript: text });
+    this.send({ type: "response.content_part.done", ...fields, part });
+    this.completeOutputItem(response, { ...item, status: "completed", content: [part] });
+  }
+}
+
+/**
+ * Start the mock realtime server on REALTIME_RELAY_PATH (/v1/realtime).
+ */
+export function startMockRealtimeServer({
+  port,
+  script,
+  protocol = "beta",
+  apiKey,
+  realtime = true,
+}: MockRealtimeServerOptions): WebSocketServer {
+  const server = new WebSocketServer({
+    port,
+    path: REALTIME_RELAY_PATH,
+    handleProtocols: (protocols) => (protocols.has("realtime") ? "realtime" : false),
+  });
+
+  server.on("connection", (socket, request) => {
+    const key = getApiKey(request);
+    if (!key || (apiKey && key !== apiKey)) {
+      socket.send(
+        JSON.stringify({
+          type: "error",
+          event_id: newId("event"),
+          error: {
+            type: "invalid_request_error",
+            code: "invalid_api_key",
+            message: "Incorrect API key provided.",
+          },
+        })
+      );
+      socket.close(1008, "Invalid API key");
+      return;
+    }
+
+    const model =
+      new URL(request.url ?? "/", "http://mock").searchParams.get("model") ||
+      DEFAULT_REALTIME_MODEL;
+    new MockRealtimeSession(socket, model, { script, protocol, realtime }).start();
+  });
+  server.on("listening", () => {
+    console.log(
+      `[mock-realtime] Mock realtime server (${protocol}) listening on ws://localhost:${port}${REALTIME_RELAY_PATH}`
+    );
+  });
+  server.on("error", (error) => {
+    console.error("[mock-realtime] Mock realtime server error:", error);
+  });
+
+  return server;
+}
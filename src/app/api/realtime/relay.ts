@@ -0,0 +1,321 @@
+import type { IncomingMessage } from "http";
+import { randomUUID } from "crypto";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import NodeWebSocket, { RawData, WebSocketServer } from "ws";
+import {
+  getRuntimeConfig,
+  REALTIME_RELAY_PATH,
+  RealtimeRuntimeConfig,
+} from "../../lib/realtimeServerConfig";
+import { SessionTokenClaims, verifySessionToken } from "../../lib/sessionTokens";
+
+/**
+ * CometAPI Realtime Relay
+ *
+ * WebSocket server the browser connects to instead of CometAPI. The browser
+ * authenticates with a session token from /api/session (sent the same way the
+ * API key used to be, as the `openai-insecure-api-key.<token>` subprotocol)
+ * and names its scenario in the `?scenario=` query; the relay verifies both, opens the upstream socket with COMETAPI_KEY (through
+ * HTTPS_PROXY when set) and forwards events in both directions.
+ *
+ * Next.js route handlers can't accept WebSocket upgrades, so the relay runs on
+ * its own port and is started from src/instrumentation.ts.
+ *
+ * `RealtimeRelayHooks` is the place for server-side logging, quotas and event
+ * filtering; `createDefaultRelayHooks` provides the built-in ones.
+ */
+
+export type RelayEvent = {
+  type: string;
+  [key: string]: any;
+};
+
+export type RelaySession = {
+  id: string;
+  claims: SessionTokenClaims;
+  remoteAddress: string;
+  startedAt: number;
+  clientEvents: number;
+  serverEvents: number;
+};
+
+export type RelayDecision = { ok: true } | { ok: false; code: string; message: string };
+
+export interface RealtimeRelayHooks {
+  /** Called after the token is verified; return `ok: false` to refuse the session (quotas). */
+  onSessionStart?: (session: RelaySession) => RelayDecision | Promise<RelayDecision>;
+  /** Browser -> CometAPI. Return null to drop the event. */
+  filterClientEvent?: (event: RelayEvent, session: RelaySession) => RelayEvent | null;
+  /** CometAPI -> browser. Return null to drop the event. */
+  filterServerEvent?: (event: RelayEvent, session: RelaySession) => RelayEvent | null;
+  onSessionEnd?: (session: RelaySession, close: { code: number; reason: string }) => void;
+}
+
+export interface RealtimeRelayOptions {
+  port: number;
+  hooks?: RealtimeRelayHooks;
+  getConfig?: () => RealtimeRuntimeConfig;
+}
+
+const TOKEN_PROTOCOL_PREFIX = "openai-insecure-api-key.";
+
+function parseEvent(data: RawData): RelayEvent | null {
+  try {
+    const event = JSON.parse(data.toString());
+    return typeof event?.type === "string" ? event : null;
+  } catch {
+    return null;
+  }
+}
+
+function getSessionToken(request: IncomingMessage): string | null {
+  const protocols = (request.headers["sec-websocket-protocol"] ?? "")
+    .split(",")
+    .map((protocol) => protocol.trim());
+  const tokenProtocol = protocols.find((protocol) => protocol.startsWith(TOKEN_PROTOCOL_PREFIX));
+  return tokenProtocol ? tokenProtocol.slice(TOKEN_PROTOCOL_PREFIX.length) : null;
+}
+
+/**
+ * Close codes 1005/1006 are reserved and can't be sent; map them to 1011.
+ */
+function toSendableCloseCode(code: number): number {
+  return code === 1005 || code === 1006 || code < 1000 ? 1011 : code;
+}
+
+function rejectSession(client: NodeWebSocket, code: string, message: string) {
+  client.send(
+    JSON.stringify({
+      type: "error",
+      error: { type: "relay_error", code, message },
+    })
+  );
+  client.close(1008, message.slice(0, 120));
+}
+
+/**
+ * Built-in hooks: session logging, a per-client concurrent session quota and,
+ * with COMETAPI_RELAY_LOG_EVENTS=true, per-event logging (audio excluded).
+ */
+export function createDefaultRelayHooks(config: RealtimeRuntimeConfig): RealtimeRelayHooks {
+  const activeSessions = new Map<string, number>();
+  const logEvent = (direction: string, event: RelayEvent, session: RelaySession) => {
+    if (config.relayLogEvents && !event.type.includes("audio")) {
+      console.log(`[relay] ${session.id} ${direction} ${event.type}`);
+    }
+    return event;
+  };
+
+  return {
+    onSessionStart: (session) => {
+      const active = activeSessions.get(session.remoteAddress) ?? 0;
+      if (active >= config.relayMaxSessionsPerClient) {
+        return {
+          ok: false,
+          code: "quota_exceeded",
+          message: `Too many concurrent realtime sessions (max ${config.relayMaxSessionsPerClient}).`,
+        };
+      }
+      activeSessions.set(session.remoteAddress, active + 1);
+      console.log("[relay] Session started:", {
+        id: session.id,
+        scenario: session.claims.scenario,
+        model: session.claims.model,
+        remoteAddress: session.remoteAddress,
+      });
+      return { ok: true };
+    },
+    filterClientEvent: (event, session) => logEvent("->", event, session),
+    filterServerEvent: (event, session) => logEvent("<-", event, session),
+    onSessionEnd: (session, close) => {
+      const active = (activeSessions.get(session.remoteAddress) ?? 1) - 1;
+      if (active > 0) {
+        activeSessions.set(session.remoteAddress, active);
+      } else {
+        activeSessions.delete(session.remoteAddress);
+      }
+      console.log("[relay] Session ended:", {
+        id: session.id,
+        durationMs: Date.now() - session.startedAt,
+        clientEvents: session.clientEvents,
+        serverEvents: session.serverEvents,
+        ...close,
+      });
+    },
+  };
+}
+
+/**
+ * Socket factory for a RealtimeClient running in Node: `ws`, through
+ * HTTPS_PROXY when set. Used by the telephony bridge.
+ */
+export function createNodeSocketFactory(
+  config: RealtimeRuntimeConfig
+): (url: string, protocols: string[]) => NodeWebSocket {
+  return (url, protocols) =>
+    new NodeWebSocket(
+      url,
+      protocols,
+      config.proxyUrl ? { agent: new HttpsProxyAgent(config.proxyUrl) } : {}
+    );
+}
+
+function openUpstream(config: RealtimeRuntimeConfig, model: string): NodeWebSocket {
+  const endpoint = `${config.realtimeUrl}?model=${encodeURIComponent(model)}`;
+  return new NodeWebSocket(
+    endpoint,
+    ["realtime", `${TOKEN_PROTOCOL_PREFIX}${config.apiKey}`],
+    config.proxyUrl ? { agent: new HttpsProxyAgent(config.proxyUrl) } : {}
+  );
+}
+
+async function handleConnection(
+  client: NodeWebSocket,
+  request: IncomingMessage,
+  getConfig: () => RealtimeRuntimeConfig,
+  hooks: RealtimeRelayHooks
+): Promise<void> {
+  const config = getConfig();
+  const requestUrl = new URL(request.url ?? "/", "http://relay");
+  const token = getSessionToken(request);
+
+  if (!config.apiKey) {
+    rejectSession(client, "missing_api_key", "COMETAPI_KEY is not configured on the server.");
+    return;
+  }
+  if (!token) {
+    rejectSession(client, "missing_session_token", "No session token was provided.");
+    return;
+  }
+
+  // The token only opens a session for the scenario it was issued for
+  const verification = verifySessionToken(token, {
+    model: requestUrl.searchParams.get("model") ?? undefined,
+    scenario: requestUrl.searchParams.get("scenario") ?? "",
+  });
+  if (!verification.ok) {
+    rejectSession(client, verification.code, verification.message);
+    return;
+  }
+
+  const session: RelaySession = {
+    id: `relay_${randomUUID().slice(0, 8)}`,
+    claims: verification.claims,
+    remoteAddress: request.socket.remoteAddress ?? "unknown",
+    startedAt: Date.now(),
+    clientEvents: 0,
+    serverEvents: 0,
+  };
+
+  // Buffer browser events until the upstream socket is open
+  const pending: RawData[] = [];
+  client.on("message", (data) => pending.push(data));
+
+  const decision = (await hooks.onSessionStart?.(session)) ?? { ok: true };
+  if (!decision.ok) {
+    rejectSession(client, decision.code, decision.message);
+    return;
+  }
+  if (client.readyState !== NodeWebSocket.OPEN) {
+    hooks.onSessionEnd?.(session, { code: 1006, reason: "Client left before upstream opened" });
+    return;
+  }
+
+  const upstream = openUpstream(config, session.claims.model);
+  let ended = false;
+
+  const end = (code: number, reason: string) => {
+    if (ended) return;
+    ended = true;
+    hooks.onSessionEnd?.(session, { code, reason });
+    const sendableCode = toSendableCloseCode(code);
+    if (client.readyState === NodeWebSocket.OPEN) client.close(sendableCode, reason);
+    if (upstream.readyState === NodeWebSocket.OPEN) {
+      upstream.close(sendableCode, reason);
+    } else if (upstream.readyState === NodeWebSocket.CONNECTING) {
+      upstream.terminate();
+    }
+  };
+
+  const forwardToUpstream = (data: RawData) => {
+    const event = parseEvent(data);
+    if (!event) return;
+    session.clientEvents++;
+    const filtered = hooks.filterClientEvent ? hooks.filterClientEvent(event, session) : event;
+    if (filtered) upstream.send(JSON.stringify(filtered));
+  };
+
+  upstream.on("open", () => {
+    client.removeAllListeners("message");
+    pending.splice(0).forEach(forwardToUpstream);
+    client.on("message", forwardToUpstream);
+  });
+
+  upstream.on("message", (data) => {
+    const event = parseEvent(data);
+    if (!event || client.readyState !== NodeWebSocket.OPEN) return;
+    session.serverEvents++;
+    const filtered = hooks.filterServerEvent ? hooks.filterServerEvent(event, session) : event;
+    if (filtered) client.send(JSON.stringify(filtered));
+  });
+
+  upstream.on("unexpected-response", (_request, response) => {
+    const chunks: Buffer[] = [];
+    response.on("data", (chunk) => chunks.push(Buffer.from(chunk)));
+    response.on("end", () => {
+      const message =
+        Buffer.concat(chunks).toString("utf8") ||
+        response.statusMessage ||
+        "Upstream WebSocket handshake failed.";
+      if (client.readyState === NodeWebSocket.OPEN) {
+        client.send(
+          JSON.stringify({
+            type: "error",
+            error: { type: "relay_error", code: `upstream_${response.statusCode}`, message },
+          })
+        );
+      }
+      end(1011, "Upstream handshake failed");
+    });
+  });
+
+  upstream.on("close", (code, reason) => end(code, reason.toString()));
+  upstream.on("error", (error) => {
+    console.error(`[relay] ${session.id} upstream error:`, error.message);
+    end(1011, "Upstream connection error");
+  });
+  client.on("close", (code, reason) => end(code, reason.toString()));
+  client.on("error", () => end(1011, "Client connection error"));
+}
+
+/**
+ * Start the relay WebSocket server. Only accepts connections on REALTIME_RELAY_PATH.
+ */
+export function startRealtimeRelay({
+  port,
+  hooks,
+  getConfig = getRuntimeConfig,
+}: RealtimeRelayOptions): WebSocketServer {
+  const relayHooks = hooks ?? createDefaultRelayHooks(getConfig());
+  const server = new WebSocketServer({
+    port,
+    path: REALTIME_RELAY_PATH,
+    // Answer with the plain "realtime" protocol; never echo the token back
+    handleProtocols: (protocols) => (protocols.has("realtime") ? "realtime" : false),
+  });
+
+  server.on("connection", (client, request) => {
+    handleConnection(client, request, getConfig, relayHooks).catch((error) => {
+      console.error("[relay] Session failed:", error);
+      rejectSession(client, "relay_error", "Realtime relay failed to start the session.");
+    });
+  });
+  server.on("listening", () => {
+    console.log(`[relay] Realtime relay listening on ws://localhost:${port}${REALTIME_RELAY_PATH}`);
+  });
+  server.on("error", (error) => {
+    console.error("[relay] Realtime relay error:", error);
+  });
+
+  return server;
+}
@@ -0,0 +1,376 @@
+import type { IncomingMessage } from "http";
+import { randomUUID, timingSafeEqual } from "crypto";
+import type { RealtimeAgent } from "@openai/agents/realtime";
+import NodeWebSocket, { WebSocketServer } from "ws";
+import { allAgentSets, defaultAgentSetKey } from "../../agentConfigs";
+import type { PlaybackPosition } from "../../lib/audioPlayback";
+import { RealtimeAudioOutput, RealtimeClient } from "../../lib/realtimeClient";
+import type { RealtimeEvent } from "../../lib/realtimeEvents";
+import { RealtimeConversationHistory } from "../../lib/realtimeHistory";
+import { getRuntimeConfig, RealtimeRuntimeConfig } from "../../lib/realtimeServerConfig";
+import {
+  createRealtimeSessionUpdate,
+  getAgentSessionConfig,
+  pcmuAudioFormat,
+  RealtimeTurnDetection,
+} from "../../lib/realtimeSessionConfig";
+import { RealtimeToolRuntime } from "../../lib/realtimeToolRuntime";
+import {
+  parseTelephonyMessage,
+  TELEPHONY_AUDIO_ENCODING,
+  TelephonyOutboundMessage,
+  TelephonyStartMessage,
+} from "../../lib/telephonyMediaStream";
+import { createNodeSocketFactory } from "./relay";
+
+/**
+ * Telephony Media-Stream Bridge
+ *
+ * WebSocket server a phone provider streams calls to (see
+ * telephonyMediaStream.ts for the framing). Each call gets its own realtime
+ * session (a RealtimeClient over `ws`), opened with COMETAPI_KEY and
+ * configured from a scenario of `allAgentSets`:
+ * - The session asks for `audio/pcmu`, so the caller's μ-law chunks go
+ *   upstream as they are and the assistant's audio comes back ready to play
+ * - Every assistant chunk is followed by a mark; the provider echoes it once
+ *   the caller has heard the chunk
+ * - When the caller talks over the assistant, the unplayed audio is cleared
+ *   on the phone and the assistant item truncated to what was heard
+ * - Tool calls and handoffs run here, like they do in the browser
+ *
+ * Pick the scenario with a `scenario` parameter of the stream (e.g. Twilio
+ * `<Parameter name="scenario" value="customerServiceRetail"/>`) or the
+ * `?scenario=` query; COMETAPI_TELEPHONY_SCENARIO is the default. With
+ * COMETAPI_TELEPHONY_SECRET set, the stream must also carry it as `secret`.
+ *
+ * Started from src/instrumentation.ts when COMETAPI_TELEPHONY_ENABLED=true.
+ */
+
+export const TELEPHONY_BRIDGE_PATH = "/v1/telephony";
+
+/** μ-law at 8 kHz: one byte per sample. */
+const BYTES_PER_MS = 8;
+
+const TELEPHONY_TURN_DETECTION: RealtimeTurnDetection = {
+  type: "server_vad",
+  threshold: 0.5,
+  prefix_padding_ms: 300,
+  silence_duration_ms: 500,
+  create_response: true,
+};
+
+export interface TelephonyBridgeOptions {
+  port: number;
+  getConfig?: () => RealtimeRuntimeConfig;
+  /** Scenarios calls can pick from. Default `allAgentSets`. */
+  agentSets?: Record<string, RealtimeAgent[]>;
+}
+
+type PlaybackMark = {
+  name: string;
+  itemId: string;
+  contentIndex: number;
+  /** How much of the item has played once the provider echoes this mark. */
+  audioEndMs: number;
+};
+
+function matchesSecret(secret: string, candidate: string | undefined): boolean {
+  if (!candidate) return false;
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(candidate);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * The phone as the session's audio output. Every assistant chunk goes to the
+ * provider followed by a mark, which it echoes once the caller has heard the
+ * chunk; on barge-in the unplayed audio is cleared and the position of the
+ * last echoed mark is what the client truncates the item to.
+ */
+class PhoneAudioOutput implements RealtimeAudioOutput {
+  private callId: string;
+  private streamSid: string;
+  private send: (message: TelephonyOutboundMessage) => void;
+  private pendingMarks: PlaybackMark[] = [];
+  private playedMark: PlaybackMark | null = null;
+  private markCount = 0;
+  /** Assistant audio sent per item, in ms. */
+  private sentAudioMs = new Map<string, number>();
+
+  constructor(
+    callId: string,
+    streamSid: string,
+    send: (message: TelephonyOutboundMessage) => void
+  ) {
+    this.callId = callId;
+    this.streamSid = streamSid;
+    this.send = send;
+  }
+
+  play(itemId: string, contentIndex: number, audio: ArrayBuffer): void {
+    const audioEndMs = (this.sentAudioMs.get(itemId) ?? 0) + audio.byteLength / BYTES_PER_MS;
+    this.sentAudioMs.set(itemId, audioEndMs);
+
+    const mark: PlaybackMark = {
+      name: `${this.callId}_${++this.markCount}`,
+      itemId,
+      contentIndex,
+      audioEndMs,
+    };
+    this.pendingMarks.push(mark);
+    this.send({
+      event: "media",
+      streamSid: this.streamSid,
+      media: { payload: Buffer.from(audio).toString("base64") },
+    });
+    this.send({ event: "mark", streamSid: this.streamSid, mark: { name: mark.name } });
+  }
+
+  markPlayed(name: string): void {
+    const index = this.pendingMarks.findIndex((mark) => mark.name === name);
+    if (index === -1) return;
+    this.playedMark = this.pendingMarks[index];
+    this.pendingMarks.splice(0, index + 1);
+  }
+
+  /**
+   * The caller spoke while assistant audio was still queued on the phone:
+   * drop it there. The server cancels the response itself (server VAD).
+   */
+  interrupt(): PlaybackPosition | null {
+    const interrupted = this.pendingMarks[0];
+    if (!interrupted) return null;
+
+    this.send({ event: "clear", streamSid: this.streamSid });
+    this.pendingMarks = [];
+    const audioEndMs =
+      this.playedMark?.itemId === interrupted.itemId ? this.playedMark.audioEndMs : 0;
+    console.log(
+      `[telephony] ${this.callId} Caller interrupted at ${audioEndMs}ms of ${interrupted.itemId}`
+    );
+    return {
+      itemId: interrupted.itemId,
+      contentIndex: interrupted.contentIndex,
+      audioEndMs: Math.round(audioEndMs),
+    };
+  }
+
+  setMuted(): void {
+    // The provider plays the audio; there is nothing to mute here
+  }
+
+  close(): void {
+    this.pendingMarks = [];
+  }
+}
+
+/**
+ * One phone call: the provider's socket, the realtime session and the
+ * phone's audio output.
+ */
+class TelephonyCall {
+  private socket: NodeWebSocket;
+  private request: IncomingMessage;
+  private getConfig: () => RealtimeRuntimeConfig;
+  private agentSets: Record<string, RealtimeAgent[]>;
+  private id = `call_${randomUUID().slice(0, 8)}`;
+  private client: RealtimeClient | null = null;
+  private output: PhoneAudioOutput | null = null;
+  private toolRuntime: RealtimeToolRuntime | null = null;
+  private history = new RealtimeConversationHistory();
+  private agent: RealtimeAgent | null = null;
+  /** Set once session.update is sent; caller audio before that is dropped. */
+  private sessionConfigured = false;
+  private ended = false;
+
+  constructor(
+    socket: NodeWebSocket,
+    request: IncomingMessage,
+    getConfig: () => RealtimeRuntimeConfig,
+    agentSets: Record<string, RealtimeAgent[]>
+  ) {
+    this.socket = socket;
+    this.request = request;
+    this.getConfig = getConfig;
+    this.agentSets = agentSets;
+  }
+
+  start(): void {
+    this.socket.on("message", (data) => {
+      const message = parseTelephonyMessage(data.toString());
+      if (!message) return;
+
+      switch (message.event) {
+        case "start":
+          this.handleStart(message).catch((error) => {
+            console.error(`[telephony] ${this.id} Failed to start:`, error);
+            this.end(1011, "Could not start the realtime session");
+          });
+          break;
+        case "media":
+          if (this.sessionConfigured) {
+            this.client?.sendAudio(Buffer.from(message.media.payload, "base64"));
+          }
+          break;
+        case "mark":
+          this.output?.markPlayed(message.mark.name);
+          break;
+        case "stop":
+          this.end(1000, "Call ended");
+          break;
+      }
+    });
+    this.socket.on("close", () => this.end(1000, "Provider disconnected"));
+    this.socket.on("error", () => this.end(1011, "Provider connection error"));
+  }
+
+  private async handleStart(message: TelephonyStartMessage): Promise<void> {
+    const config = this.getConfig();
+    const { start } = message;
+    const parameters = start.customParameters ?? {};
+    const query = new URL(this.request.url ?? "/", "http://telephony").searchParams;
+
+    const secret = parameters.secret ?? query.get("secret") ?? undefined;
+    if (config.telephonySecret && !matchesSecret(config.telephonySecret, secret)) {
+      this.end(1008, "Invalid secret");
+      return;
+    }
+    if (!config.apiKey) {
+      this.end(1011, "COMETAPI_KEY is not configured on the server");
+      return;
+    }
+    const encoding = start.mediaFormat?.encoding;
+    if (encoding && encoding !== TELEPHONY_AUDIO_ENCODING) {
+      this.end(1003, `Unsupported audio encoding ${encoding}`);
+      return;
+    }
+
+    const scenario =
+      parameters.scenario ?? query.get("scenario") ?? config.telephonyScenario ?? defaultAgentSetKey;
+    const agents = this.agentSets[scenario];
+    if (!agents?.length) {
+      this.end(1008, `Unknown scenario ${scenario}`);
+      return;
+    }
+    this.agent = agents[0];
+    console.log("[telephony] Call started:", {
+      id: this.id,
+      callSid: start.callSid,
+      scenario,
+      agent: this.agent.name,
+    });
+
+    this.output = new PhoneAudioOutput(this.id, start.streamSid, (outbound) =>
+      this.send(outbound)
+    );
+    const client = new RealtimeClient({
+      apiKey: config.apiKey,
+      model: config.model,
+      url: config.realtimeUrl,
+      createSocket: createNodeSocketFactory(config),
+      audioOutput: this.output,
+      verbose: false,
+    });
+    this.client = client;
+    this.toolRuntime = new RealtimeToolRuntime({
+      transport: client,
+      getAgent: () => this.agent,
+      getContext: () => ({ callSid: start.callSid, ...parameters }),
+      getHistory: () => this.history.items,
+      onHandoff: async (agent) => {
+        this.agent = agent;
+        await this.sendSessionUpdate();
+      },
+    });
+    client.on("*", (event) => this.handleRealtimeEvent(event));
+    await client.connect();
+  }
+
+  private async sendSessionUpdate(): Promise<void> {
+    if (!this.agent || !this.client) return;
+    const agentConfig = await getAgentSessionConfig(this.agent);
+    this.client.sendEvent(
+      createRealtimeSessionUpdate(TELEPHONY_TURN_DETECTION, agentConfig, pcmuAudioFormat)
+    );
+  }
+
+  private handleRealtimeEvent(event: RealtimeEvent): void {
+    this.history.handleServerEvent(event);
+
+    switch (event.type) {
+      case "session.created":
+        // Configure the root agent, then answer the phone
+        this.sendSessionUpdate()
+          .then(() => {
+            this.sessionConfigured = true;
+            this.client?.sendEvent({ type: "response.create" });
+          })
+          .catch((error) => {
+            console.error(`[telephony] ${this.id} Failed to configure the session:`, error);
+            this.end(1011, "Could not configure the realtime session");
+          });
+        break;
+
+      case "response.function_call_arguments.done":
+      case "response.output_item.done":
+        this.toolRuntime?.handleServerEvent(event).catch((error) => {
+          console.error(`[telephony] ${this.id} Tool execution failed:`, error);
+        });
+        break;
+
+      case "agent_handoff":
+        console.log(`[telephony] ${this.id} Handoff ${event.fromAgent} -> ${event.toAgent}`);
+        break;
+
+      case "error":
+        console.warn(`[telephony] ${this.id} Realtime error:`, event.error.message);
+        break;
+
+      case "close":
+        this.end(event.code === 1000 ? 1000 : 1011, event.reason || "Realtime session closed");
+        break;
+    }
+  }
+
+  private send(message: TelephonyOutboundMessage): void {
+    if (this.socket.readyState === NodeWebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private end(code: number, reason: string): void {
+    if (this.ended) return;
+    this.ended = true;
+    console.log("[telephony] Call ended:", { id: this.id, code, reason });
+    this.client?.close();
+    this.client = null;
+    if (this.socket.readyState === NodeWebSocket.OPEN) {
+      this.socket.close(code, reason.slice(0, 120));
+    }
+  }
+}
+
+/**
+ * Start the telephony bridge. Only accepts connections on TELEPHONY_BRIDGE_PATH.
+ */
+export function startTelephonyBridge({
+  port,
+  getConfig = getRuntimeConfig,
+  agentSets = allAgentSets,
+}: TelephonyBridgeOptions): WebSocketServer {
+  const server = new WebSocketServer({ port, path: TELEPHONY_BRIDGE_PATH });
+
+  server.on("connection", (socket, request) => {
+    new TelephonyCall(socket, request, getConfig, agentSets).start();
+  });
+  server.on("listening", () => {
+    console.log(
+      `[telephony] Telephony bridge listening on ws://localhost:${port}${TELEPHONY_BRIDGE_PATH}`
+    );
+  });
+  server.on("error", (error) => {
+    console.error("[telephony] Telephony bridge error:", error);
+  });
+
+  return server;
+}
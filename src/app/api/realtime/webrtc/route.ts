@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { getRuntimeConfig } from "../../../lib/realtimeServerConfig";
+import { verifySessionToken } from "../../../lib/sessionTokens";
+
+export const runtime = "nodejs";
+
+/**
+ * WebRTC counterpart of the realtime relay: takes the browser's SDP offer
+ * with a session token from /api/session as the bearer token, and posts it to
+ * CometAPI with COMETAPI_KEY. Only the signalling passes through here; media
+ * and the data channel go straight between the browser and CometAPI.
+ *
+ * Query: `?model=` and `?scenario=` must match the token. Returns the SDP answer.
+ */
+export async function POST(request: Request) {
+  const config = getRuntimeConfig();
+  if (!config.apiKey) {
+    return NextResponse.json(
+      { error: "Missing API Key", message: "COMETAPI_KEY is not configured on the server." },
+      { status: 401 }
+    );
+  }
+
+  const token = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) {
+    return NextResponse.json(
+      { error: "Missing Session Token", message: "No session token was provided." },
+      { status: 401 }
+    );
+  }
+
+  const query = new URL(request.url).searchParams;
+  const verification = verifySessionToken(token, {
+    model: query.get("model") ?? undefined,
+    scenario: query.get("scenario") ?? "",
+  });
+  if (!verification.ok) {
+    return NextResponse.json(
+      { error: "Invalid Session Token", message: verification.message },
+      { status: 401 }
+    );
+  }
+
+  const offer = await request.text();
+  if (!offer.trim()) {
+    return NextResponse.json(
+      { error: "Invalid Offer", message: "The request body must be an SDP offer." },
+      { status: 400 }
+    );
+  }
+
+  const endpoint = `${config.webrtcUrl}?model=${encodeURIComponent(verification.claims.model)}`;
+  try {
+    const upstream = await fetch(endpoint, {
+      method: "POST",
+      body: offer,
+      headers: {
+        Authorization: `Bearer ${config.apiKey}`,
+        "Content-Type": "application/sdp",
+      },
+    });
+    const answer = await upstream.text();
+    if (!upstream.ok) {
+      console.warn(`[webrtc] ${endpoint} answered ${upstream.status}:`, answer);
+    }
+    return new NextResponse(answer, {
+      status: upstream.status,
+      headers: { "Content-Type": upstream.headers.get("content-type") ?? "application/sdp" },
+    });
+  } catch (error) {
+    console.error(`[webrtc] Could not reach ${endpoint}:`, error);
+    return NextResponse.json(
+      { error: "Bad Gateway", message: `Could not reach ${config.webrtcUrl}: ${(error as Error).message}` },
+      { status: 502 }
+    );
+  }
+}
@@ -13,6 +13,7 @@ import { HttpsProxyAgent } from "https-proxy-agent";
  * - Uses COMETAPI_KEY instead of OPENAI_API_KEY
  * - Configures OpenAI client with CometAPI base URL
  * - Maintains proxy support for enterprise environments
+ * - `stream: true` returns the Responses API events as Server-Sent Events
  */
 export async function POST(req: NextRequest) {
   const body = await req.json();
@@ -27,7 +28,9 @@ export async function POST(req: NextRequest) {
     httpAgent,
   });
 
-  if (body.text?.format?.type === "json_schema") {
+  if (body.stream === true) {
+    return await streamResponse(openai, body);
+  } else if (body.text?.format?.type === "json_schema") {
     return await structuredResponse(openai, body);
   } else {
     return await textResponse(openai, body);
@@ -73,3 +76,57 @@ async function textResponse(openai: OpenAI, body: any) {
     );
   }
 }
+
+/**
+ * Forwards Responses API stream events as SSE (`event: <type>` / `data: <json>`).
+ * Errors after the stream has started are sent as an `error` event.
+ */
+async function streamResponse(openai: OpenAI, body: any) {
+  try {
+    const stream = await openai.responses.create({
+      ...(body as OpenAI.Responses.ResponseCreateParamsStreaming),
+      stream: true,
+    });
+
+    const encoder = new TextEncoder();
+    const toSSE = (type: string, data: unknown) =>
+      encoder.encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    const readable = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const event of stream) {
+            controller.enqueue(toSSE(event.type, event));
+          }
+        } catch (err: any) {
+          console.error("CometAPI responses proxy error (stream):", err);
+          controller.enqueue(
+            toSSE("error", { type: "error", message: err?.message ?? String(err) })
+          );
+        } finally {
+          controller.close();
+        }
+      },
+      cancel() {
+        stream.controller.abort();
+      },
+    });
+
+    return new Response(readable, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (err: any) {
+    console.error("CometAPI responses proxy error (stream):", err);
+    return NextResponse.json(
+      {
+        error: "Failed to start streaming response from CometAPI",
+        details: err.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  callHttpTool,
+  formatZodIssues,
+  SCENARIO_KEY_PATTERN,
+} from "../../../../../lib/scenarioDefinitions";
+import { loadScenarioDefinitions } from "../../../../../lib/scenarioLoader";
+import { getRuntimeConfig } from "../../../../../lib/realtimeServerConfig";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ scenario: string; tool: string }> };
+
+const ToolCallSchema = z.object({
+  agent: z.string(),
+  arguments: z.record(z.any()).default({}),
+});
+
+/**
+ * Runs an HTTP-backed tool of a declarative scenario on behalf of the
+ * browser, with the headers (and secrets) from the scenario file.
+ *
+ * Body: `{ agent, arguments }`. Returns `{ result }`.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { scenario: scenarioKey, tool: toolName } = await params;
+
+  const parsed = ToolCallSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid Tool Call", message: formatZodIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+
+  const { scenarios } = await loadScenarioDefinitions(getRuntimeConfig().scenariosDir);
+  // Own keys only: "constructor" and friends aren't scenarios
+  const scenario =
+    SCENARIO_KEY_PATTERN.test(scenarioKey) && Object.hasOwn(scenarios, scenarioKey)
+      ? scenarios[scenarioKey]
+      : undefined;
+  const tool = scenario?.agents
+    .find((agent) => agent.name === parsed.data.agent)
+    ?.tools.find((candidate) => candidate.name === toolName);
+  if (!tool || tool.behavior.type !== "http") {
+    return NextResponse.json(
+      {
+        error: "Not Found",
+        message: `No HTTP tool ${toolName} for agent ${parsed.data.agent} in scenario ${scenarioKey}`,
+      },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const result = await callHttpTool(tool.behavior, parsed.data.arguments, process.env);
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.warn(`[scenarios] ${scenarioKey}/${toolName} failed:`, error);
+    return NextResponse.json(
+      { error: "Tool Call Failed", message: (error as Error).message },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { toPublicScenarioDefinition } from "../../lib/scenarioDefinitions";
+import { loadScenarioDefinitions } from "../../lib/scenarioLoader";
+import { getRuntimeConfig } from "../../lib/realtimeServerConfig";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Declarative Scenarios Endpoint
+ *
+ * Returns the scenarios defined in COMETAPI_SCENARIOS_DIR (default
+ * `scenarios/`), re-read on every request so edits show up on reload.
+ * Files that don't validate are listed in `errors`.
+ */
+export async function GET() {
+  try {
+    const { scenariosDir } = getRuntimeConfig();
+    const { scenarios, errors } = await loadScenarioDefinitions(scenariosDir);
+    for (const error of errors) {
+      console.warn(`[scenarios] ${error.file}: ${error.message}`);
+    }
+
+    return NextResponse.json({
+      scenarios: Object.fromEntries(
+        Object.entries(scenarios).map(([key, scenario]) => [key, toPublicScenarioDefinition(scenario)])
+      ),
+      errors,
+    });
+  } catch (error) {
+    console.error("Error in /scenarios:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error", message: "Failed to load scenario definitions." },
+      { status: 500 }
+    );
+  }
+}
@@ -1,218 +1,77 @@
 import { NextResponse } from "next/server";
-import { existsSync, readFileSync } from "fs";
-import { join } from "path";
-import { parse } from "dotenv";
-import NodeWebSocket from "ws";
-import { createRealtimeSessionUpdate } from "../../lib/realtimeSessionConfig";
+import {
+  preflightRealtimeSession,
+  RealtimePreflightResult,
+} from "../../lib/realtimePreflight";
+import { issueSessionToken } from "../../lib/sessionTokens";
+import {
+  getRuntimeConfig,
+  REALTIME_RELAY_PATH,
+  RealtimeRuntimeConfig,
+} from "../../lib/realtimeServerConfig";
 
 export const runtime = "nodejs";
 
-type RealtimePreflightResult = {
-  ok: boolean;
-  model: string;
+const SCENARIO_PATTERN = /^[\w-]{1,64}$/;
+
+type ClientSecret = {
+  value: string;
+  expires_at: number;
   endpoint: string;
-  opened: boolean;
-  rawText?: string;
-  contentType?: string;
-  statusCode?: number;
-  statusMessage?: string;
-  code?: string;
-  message?: string;
-  requestId?: string;
-  close?: {
-    code: number;
-    reason: string;
-    wasClean: boolean;
-  };
-  warning?: string;
+  /** Where the WebRTC transport posts its SDP offer. */
+  webrtcEndpoint: string;
 };
 
-const PREFLIGHT_TIMEOUT_MS = 4500;
-const DEFAULT_REALTIME_URL = "wss://api.cometapi.com/v1/realtime";
-
-function loadEnvFile() {
-  const envPath = join(process.cwd(), ".env");
-  if (!existsSync(envPath)) {
-    return {};
-  }
-  return parse(readFileSync(envPath));
-}
-
-function getRuntimeConfig() {
-  const fileEnv = loadEnvFile();
-  const getValue = (key: string, fallback?: string) =>
-    fileEnv[key] ?? process.env[key] ?? fallback;
-
-  return {
-    apiKey: getValue("COMETAPI_KEY"),
-    model: getValue("COMETAPI_MODEL", "gpt-4o-realtime-preview-2025-06-03")!,
-    realtimeUrl: getValue("COMETAPI_REALTIME_URL", DEFAULT_REALTIME_URL)!,
-    keySource: fileEnv.COMETAPI_KEY ? ".env" : "process.env",
-  };
+/**
+ * URL of the relay started in instrumentation.ts: same host as this request,
+ * on the relay port.
+ */
+function getBuiltInRelayUrl(config: RealtimeRuntimeConfig, requestUrl: string): string | null {
+  if (!config.relayEnabled) return null;
+  const url = new URL(requestUrl);
+  const protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${url.hostname}:${config.relayPort}${REALTIME_RELAY_PATH}`;
 }
 
-function parseRealtimeMessage(data: unknown): any {
-  if (typeof data !== "string") return null;
-  try {
-    return JSON.parse(data);
-  } catch {
-    return null;
+/**
+ * Issue the credential the browser connects with. By default a short-lived,
+ * single-use session token bound to the model and scenario; the raw key only
+ * when COMETAPI_EXPOSE_KEY_TO_BROWSER=true.
+ */
+function createClientSecret(
+  config: RealtimeRuntimeConfig,
+  scenario: string,
+  requestUrl: string
+): ClientSecret | { error: string; message: string } {
+  if (config.exposeKeyToBrowser) {
+    console.warn(
+      "[session] COMETAPI_EXPOSE_KEY_TO_BROWSER=true - sending COMETAPI_KEY to the browser"
+    );
+    return {
+      value: config.apiKey!,
+      expires_at: Math.floor(Date.now() / 1000) + 3600,
+      endpoint: config.realtimeUrl,
+      webrtcEndpoint: config.webrtcUrl,
+    };
   }
-}
 
-function getRealtimeErrorMessage(message: any): string {
-  const error = message?.error;
-  if (typeof error === "string") return error;
-  return (
-    error?.message ||
-    error?.code ||
-    error?.type ||
-    "CometAPI Realtime returned an error without a message."
-  );
-}
-
-async function preflightRealtimeSession(
-  apiKey: string,
-  model: string,
-  realtimeUrl: string
-): Promise<RealtimePreflightResult> {
-  return new Promise((resolve) => {
-    const endpoint = `${realtimeUrl}?model=${encodeURIComponent(model)}`;
-    let opened = false;
-    let isSettled = false;
-    let ws: NodeWebSocket | null = null;
-
-    const finish = (result: Omit<RealtimePreflightResult, "model" | "endpoint" | "opened">) => {
-      if (isSettled) return;
-      isSettled = true;
-      clearTimeout(timeout);
-      if (ws && (ws.readyState === NodeWebSocket.OPEN || ws.readyState === NodeWebSocket.CONNECTING)) {
-        ws.terminate();
-      }
-      resolve({
-        model,
-        endpoint,
-        opened,
-        ...result,
-      });
+  const relayUrl = config.relayUrl || getBuiltInRelayUrl(config, requestUrl);
+  if (!relayUrl) {
+    return {
+      error: "Missing Relay URL",
+      message:
+        "The built-in relay is disabled and COMETAPI_RELAY_URL is not set. Session tokens must be redeemed by a relay that holds COMETAPI_KEY. " +
+        "Set COMETAPI_RELAY_URL, or COMETAPI_EXPOSE_KEY_TO_BROWSER=true for local debugging only.",
     };
+  }
 
-    const timeout = setTimeout(() => {
-      finish({
-        ok: opened,
-        code: opened ? "preflight_timeout_no_session_event" : "preflight_timeout",
-        message: opened
-          ? "Realtime WebSocket opened but did not return a session or error event before the preflight timeout."
-          : "Realtime WebSocket did not open before the preflight timeout.",
-        rawText: opened
-          ? "Realtime WebSocket opened but did not return a session or error event before the preflight timeout."
-          : "Realtime WebSocket did not open before the preflight timeout.",
-        warning: opened ? "Proceeding because the socket opened and no server error was observed." : undefined,
-      });
-    }, PREFLIGHT_TIMEOUT_MS);
-
-    try {
-      ws = new NodeWebSocket(endpoint, [
-        "realtime",
-        `openai-insecure-api-key.${apiKey}`,
-      ]);
-
-      ws.on("open", () => {
-        opened = true;
-        ws?.send(
-          JSON.stringify(
-            createRealtimeSessionUpdate({
-              type: "server_vad",
-              threshold: 0.5,
-              prefix_padding_ms: 300,
-              silence_duration_ms: 500,
-              create_response: true,
-            })
-          )
-        );
-      });
-
-      ws.on("message", (data) => {
-        const rawText = data.toString();
-        const message = parseRealtimeMessage(rawText);
-        if (!message) return;
-
-        if (message.type === "error") {
-          finish({
-            ok: false,
-            code: message.error?.code || message.error?.type || "realtime_error",
-            message: getRealtimeErrorMessage(message),
-            requestId: message.event_id || message.error?.event_id,
-            rawText,
-            contentType: "application/json; charset=utf-8",
-          });
-          return;
-        }
-
-        if (message.type === "session.created" || message.type === "session.updated") {
-          finish({
-            ok: true,
-            code: message.type,
-            message: "Realtime preflight session event received.",
-          });
-        }
-      });
-
-      ws.on("unexpected-response", (_request, response) => {
-        const chunks: Buffer[] = [];
-        response.on("data", (chunk) => {
-          chunks.push(Buffer.from(chunk));
-        });
-        response.on("end", () => {
-          const rawText = Buffer.concat(chunks).toString("utf8");
-          finish({
-            ok: false,
-            statusCode: response.statusCode,
-            statusMessage: response.statusMessage,
-            requestId: response.headers["x-cometapi-request-id"] as string | undefined,
-            contentType: response.headers["content-type"] as string | undefined,
-            rawText: rawText || response.statusMessage || "WebSocket handshake failed.",
-            message: rawText || response.statusMessage || "WebSocket handshake failed.",
-          });
-        });
-      });
-
-      ws.on("close", (code, reason) => {
-        const rawText = reason.toString();
-        finish({
-          ok: false,
-          code: "websocket_closed",
-          message:
-            rawText ||
-            `Realtime WebSocket closed before a session event was received (code ${code}).`,
-          rawText:
-            rawText ||
-            `Realtime WebSocket closed before a session event was received (code ${code}).`,
-          close: {
-            code,
-            reason: rawText,
-            wasClean: code === 1000,
-          },
-        });
-      });
-
-      ws.on("error", (error) => {
-        finish({
-          ok: false,
-          code: "websocket_error",
-          message: error.message || "Realtime WebSocket failed during preflight.",
-          rawText: error.message || "Realtime WebSocket failed during preflight.",
-        });
-      });
-    } catch (error) {
-      finish({
-        ok: false,
-        code: "preflight_exception",
-        message: error instanceof Error ? error.message : String(error),
-        rawText: error instanceof Error ? error.message : String(error),
-      });
-    }
-  });
+  const { token, claims } = issueSessionToken({ model: config.model, scenario });
+  return {
+    value: token,
+    expires_at: claims.exp,
+    endpoint: relayUrl,
+    webrtcEndpoint: new URL("/api/realtime/webrtc", requestUrl).toString(),
+  };
 }
 
 function rawFailureResponse(preflight: RealtimePreflightResult) {
@@ -228,21 +87,32 @@ function rawFailureResponse(preflight: RealtimePreflightResult) {
 /**
  * CometAPI Realtime Session Creation Endpoint
  *
- * TEMPORARY WORKAROUND: CometAPI does not yet implement the /v1/realtime/sessions endpoint.
- * This endpoint returns the API key directly as an ephemeral token for WebSocket authentication.
+ * CometAPI does not yet implement the /v1/realtime/sessions endpoint, so this
+ * route acts as the token broker: it preflights the realtime service with the
+ * real key and returns a signed, single-use session token (see sessionTokens.ts)
+ * as `client_secret`. Switch to CometAPI ephemeral keys once they exist.
  *
- * TODO: Update this endpoint once CometAPI implements proper session creation with ephemeral tokens.
+ * Query: `?scenario=<agentConfig key>` - the token is only valid for that scenario.
  *
  * Adapted from: OpenAI Realtime Agents demo
  * Changes:
  * - Uses COMETAPI_KEY instead of OPENAI_API_KEY
- * - Returns API key as client_secret for direct WebSocket connection
+ * - Returns a session token (or, opt-in, the raw key) as client_secret
  * - Will be updated when CometAPI implements /v1/realtime/sessions
  */
-export async function GET() {
+export async function GET(request: Request) {
   try {
     // Get CometAPI configuration from environment
-    const { apiKey, model, realtimeUrl, keySource } = getRuntimeConfig();
+    const config = getRuntimeConfig();
+    const { apiKey, model, realtimeUrl, keySource } = config;
+
+    const scenario = new URL(request.url).searchParams.get("scenario") || "default";
+    if (!SCENARIO_PATTERN.test(scenario)) {
+      return NextResponse.json(
+        { error: "Invalid Scenario", message: `Invalid scenario: ${scenario}` },
+        { status: 400 }
+      );
+    }
 
     if (!apiKey) {
       return NextResponse.json(
@@ -255,12 +125,12 @@ export async function GET() {
       );
     }
 
-    console.log(
-      "[session] Using direct API key authentication (CometAPI does not yet support /v1/realtime/sessions)"
-    );
     console.log("[session] Runtime config:", {
       model,
       realtimeUrl,
+      relayUrl: config.relayUrl,
+      scenario,
+      exposeKeyToBrowser: config.exposeKeyToBrowser,
       keySource,
       keyPrefix: `${apiKey.slice(0, 6)}...`,
       keyLength: apiKey.length,
@@ -284,14 +154,21 @@ export async function GET() {
       return rawFailureResponse(preflight);
     }
 
-    // Return a mock session response with the API key as the ephemeral token
-    // This allows the WebSocket connection to use the API key directly
+    const clientSecret = createClientSecret(config, scenario, request.url);
+    if ("error" in clientSecret) {
+      console.error("[session]", clientSecret.message);
+      return NextResponse.json(clientSecret, { status: 500 });
+    }
+
+    // Mirrors the shape of an OpenAI realtime.session response
     const sessionResponse = {
       id: `sess_${Date.now()}`,
       object: "realtime.session",
       type: "realtime",
       model: model,
-      endpoint: realtimeUrl,
+      scenario,
+      endpoint: clientSecret.endpoint,
+      webrtc_endpoint: clientSecret.webrtcEndpoint,
       output_modalities: ["audio"],
       instructions: "",
       audio: {
@@ -320,10 +197,10 @@ export async function GET() {
       temperature: 0.8,
       max_response_output_tokens: 4096,
       preflight,
-      expires_at: Math.floor(Date.now() / 1000) + 3600, // 1 hour from now
+      expires_at: clientSecret.expires_at,
       client_secret: {
-        value: apiKey, // Use API key directly until CometAPI implements ephemeral tokens
-        expires_at: Math.floor(Date.now() / 1000) + 3600,
+        value: clientSecret.value,
+        expires_at: clientSecret.expires_at,
       },
     };
 
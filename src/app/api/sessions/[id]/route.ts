@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { SESSION_ID_PATTERN, StoredSessionSchema } from "../../../lib/sessionRecords";
+import { getSessionFileStore, sessionStoreDisabledResponse } from "../sessionFileStore";
+
+export const runtime = "nodejs";
+
+const MAX_SESSION_BYTES = 5 * 1024 * 1024;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function invalidIdResponse(id: string) {
+  return NextResponse.json(
+    { error: "Invalid Session", message: `Invalid session id: ${id}` },
+    { status: 400 }
+  );
+}
+
+function internalErrorResponse(error: unknown, message: string) {
+  console.error("Error in /sessions/[id]:", error);
+  return NextResponse.json({ error: "Internal Server Error", message }, { status: 500 });
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const store = getSessionFileStore();
+  if (!store) return sessionStoreDisabledResponse();
+
+  const { id } = await params;
+  if (!SESSION_ID_PATTERN.test(id)) return invalidIdResponse(id);
+
+  try {
+    const session = await store.get(id);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Not Found", message: `No stored session ${id}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ session });
+  } catch (error) {
+    return internalErrorResponse(error, "Failed to read the stored session.");
+  }
+}
+
+/**
+ * Create or replace a session. The browser saves the whole record as the
+ * conversation goes on.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const store = getSessionFileStore();
+  if (!store) return sessionStoreDisabledResponse();
+
+  const { id } = await params;
+  if (!SESSION_ID_PATTERN.test(id)) return invalidIdResponse(id);
+
+  const rawText = await request.text();
+  if (Buffer.byteLength(rawText) > MAX_SESSION_BYTES) {
+    return NextResponse.json(
+      { error: "Session Too Large", message: `Sessions are limited to ${MAX_SESSION_BYTES} bytes.` },
+      { status: 413 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawText);
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid Session", message: "The request body is not JSON." },
+      { status: 400 }
+    );
+  }
+
+  const parsed = StoredSessionSchema.safeParse(body);
+  if (!parsed.success || parsed.data.id !== id) {
+    return NextResponse.json(
+      {
+        error: "Invalid Session",
+        message: parsed.success
+          ? `The session id doesn't match the URL (${id}).`
+          : parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await store.save(parsed.data);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return internalErrorResponse(error, "Failed to save the session.");
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const store = getSessionFileStore();
+  if (!store) return sessionStoreDisabledResponse();
+
+  const { id } = await params;
+  if (!SESSION_ID_PATTERN.test(id)) return invalidIdResponse(id);
+
+  try {
+    await store.delete(id);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return internalErrorResponse(error, "Failed to delete the session.");
+  }
+}
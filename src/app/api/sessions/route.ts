@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { getSessionFileStore, sessionStoreDisabledResponse } from "./sessionFileStore";
+
+export const runtime = "nodejs";
+
+/**
+ * Probed by the browser (see lib/sessionStore.ts) to decide whether sessions
+ * are kept on the server or in IndexedDB.
+ */
+export async function HEAD() {
+  return new NextResponse(null, { status: getSessionFileStore() ? 200 : 404 });
+}
+
+/**
+ * Stored Sessions Endpoint
+ *
+ * Lists the sessions saved under COMETAPI_SESSION_STORE_DIR, newest first.
+ *
+ * Query: `?q=<text>` - only sessions whose scenario, agents or transcript
+ * contain the text.
+ */
+export async function GET(request: Request) {
+  const store = getSessionFileStore();
+  if (!store) return sessionStoreDisabledResponse();
+
+  try {
+    const query = new URL(request.url).searchParams.get("q") ?? "";
+    return NextResponse.json({ sessions: await store.list(query) });
+  } catch (error) {
+    console.error("Error in /sessions:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error", message: "Failed to list stored sessions." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import {
+  compareSessions,
+  SESSION_ID_PATTERN,
+  sessionMatchesQuery,
+  StoredSession,
+  StoredSessionSchema,
+  StoredSessionSummary,
+  summarizeSession,
+} from "../../lib/sessionRecords";
+import { getRuntimeConfig } from "../../lib/realtimeServerConfig";
+
+/**
+ * Server-side session store behind /api/sessions: one JSON file per session
+ * in COMETAPI_SESSION_STORE_DIR. Meant for a single instance; point several
+ * instances at shared storage or swap this for a database.
+ */
+export class FileSessionStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private path(id: string): string {
+    // Ids are validated by the caller; this guards the filesystem regardless
+    if (!SESSION_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid session id: ${id}`);
+    }
+    return join(this.dir, `${id}.json`);
+  }
+
+  private async readSession(file: string): Promise<StoredSession | null> {
+    try {
+      const parsed = StoredSessionSchema.safeParse(JSON.parse(await readFile(file, "utf8")));
+      if (!parsed.success) {
+        console.warn(`[sessions] Skipping invalid session file ${file}`);
+        return null;
+      }
+      return parsed.data;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async list(query = ""): Promise<StoredSessionSummary[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const sessions = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => this.readSession(join(this.dir, file)))
+    );
+    return sessions
+      .filter((session): session is StoredSession => session !== null)
+      .filter((session) => sessionMatchesQuery(session, query))
+      .sort(compareSessions)
+      .map(summarizeSession);
+  }
+
+  async get(id: string): Promise<StoredSession | null> {
+    return this.readSession(this.path(id));
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    const file = this.path(session.id);
+    await mkdir(this.dir, { recursive: true });
+    // Write-then-rename so a crash never leaves half a file behind
+    const tempFile = `${file}.${process.pid}.tmp`;
+    await writeFile(tempFile, JSON.stringify(session));
+    await rename(tempFile, file);
+  }
+
+  async delete(id: string): Promise<void> {
+    await rm(this.path(id), { force: true });
+  }
+}
+
+/**
+ * The store for COMETAPI_SESSION_STORE_DIR, or null when it isn't configured.
+ */
+export function getSessionFileStore(): FileSessionStore | null {
+  const { sessionStoreDir } = getRuntimeConfig();
+  return sessionStoreDir ? new FileSessionStore(sessionStoreDir) : null;
+}
+
+export function sessionStoreDisabledResponse() {
+  return NextResponse.json(
+    {
+      error: "Session Store Disabled",
+      message: "COMETAPI_SESSION_STORE_DIR is not set; sessions are kept in the browser.",
+    },
+    { status: 404 }
+  );
+}
@@ -1,5 +1,6 @@
 import React from "react";
 import { SessionStatus } from "@/app/types";
+import { RealtimeTransportKind } from "@/app/lib/realtimeTransport";
 
 interface BottomToolbarProps {
   sessionStatus: SessionStatus;
@@ -15,6 +16,11 @@ interface BottomToolbarProps {
   setIsAudioPlaybackEnabled: (val: boolean) => void;
   codec: string;
   onCodecChange: (newCodec: string) => void;
+  transport: RealtimeTransportKind;
+  onTransportChange: (newTransport: RealtimeTransportKind) => void;
+  canSaveSessionRecording: boolean;
+  onSaveSessionRecording: () => void;
+  onReplaySessionRecording: (file: File) => void;
 }
 
 function BottomToolbar({
@@ -31,18 +37,35 @@ function BottomToolbar({
   setIsAudioPlaybackEnabled,
   codec,
   onCodecChange,
+  transport,
+  onTransportChange,
+  canSaveSessionRecording,
+  onSaveSessionRecording,
+  onReplaySessionRecording,
 }: BottomToolbarProps) {
   const isConnected = sessionStatus === "CONNECTED";
   const isConnecting = sessionStatus === "CONNECTING";
+  const isReconnecting = sessionStatus === "RECONNECTING";
+  const isReplaying = sessionStatus === "REPLAYING";
+  const isDisconnected = sessionStatus === "DISCONNECTED";
 
   const handleCodecChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const newCodec = e.target.value;
     onCodecChange(newCodec);
   };
 
+  const handleReplayFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still triggers a replay
+    e.target.value = "";
+    if (file) onReplaySessionRecording(file);
+  };
+
   function getConnectionButtonLabel() {
     if (isConnected) return "Disconnect";
     if (isConnecting) return "Connecting...";
+    if (isReconnecting) return "Reconnecting...";
+    if (isReplaying) return "Stop Replay";
     return "Connect";
   }
 
@@ -50,8 +73,8 @@ function BottomToolbar({
     const baseClasses = "text-white text-base p-2 w-36 rounded-md h-full";
     const cursorClass = isConnecting ? "cursor-not-allowed" : "cursor-pointer";
 
-    if (isConnected) {
-      // Connected -> label "Disconnect" -> red
+    if (isConnected || isReconnecting || isReplaying) {
+      // Connected -> label "Disconnect" -> red (also while reconnecting, clicking gives up)
       return `bg-red-600 hover:bg-red-700 ${cursorClass} ${baseClasses}`;
     }
     // Disconnected or connecting -> label is either "Connect" or "Connecting" -> black
@@ -129,15 +152,60 @@ function BottomToolbar({
         </label>
       </div>
 
+      <div className="flex flex-row items-center gap-2">
+        <button
+          onClick={onSaveSessionRecording}
+          disabled={!canSaveSessionRecording || isReplaying}
+          className={
+            "py-1 px-4 rounded-md " +
+            (canSaveSessionRecording && !isReplaying
+              ? "bg-gray-200 hover:bg-gray-300 cursor-pointer"
+              : "bg-gray-100 text-gray-400")
+          }
+        >
+          Save session
+        </button>
+        <label
+          className={
+            "py-1 px-4 rounded-md " +
+            (isDisconnected
+              ? "bg-gray-200 hover:bg-gray-300 cursor-pointer"
+              : "bg-gray-100 text-gray-400")
+          }
+        >
+          Replay...
+          <input
+            type="file"
+            accept=".zip,.jsonl"
+            onChange={handleReplayFileChange}
+            disabled={!isDisconnected}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-row items-center gap-2">
+        <div>Transport:</div>
+        <select
+          id="transport-select"
+          value={transport}
+          onChange={(e) => onTransportChange(e.target.value as RealtimeTransportKind)}
+          className="border border-gray-300 rounded-md px-2 py-1 focus:outline-none cursor-pointer"
+        >
+          <option value="websocket">WebSocket</option>
+          <option value="webrtc">WebRTC</option>
+        </select>
+      </div>
+
       <div className="flex flex-row items-center gap-2">
         <div>Codec:</div>
         {/*
-          Codec selector – Lets you force the WebRTC track to use 8 kHz 
-          PCMU/PCMA so you can preview how the agent will sound 
-          (and how ASR/VAD will perform) when accessed via a 
-          phone network.  Selecting a codec reloads the page with ?codec=...
-          which our App-level logic picks up and applies via a WebRTC monkey
-          patch (see codecPatch.ts).
+          Codec selector – Lets you force 8 kHz PCMU/PCMA so you can
+          preview how the agent will sound (and how ASR/VAD will perform)
+          when accessed via a phone network.  Selecting a codec reloads the
+          page with ?codec=... which the WebRTC transport applies to its
+          audio transceiver (see codecUtils.ts) and the WebSocket transport
+          encodes as G.711 itself (see g711.ts).
         */}
         <select
           id="codec-select"
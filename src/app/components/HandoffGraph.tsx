@@ -0,0 +1,126 @@
+"use client";
+
+import React, { useMemo } from "react";
+import type { RealtimeAgent } from "@openai/agents/realtime";
+import { buildHandoffGraph, getEdgeKey, getPathEdgeKeys } from "@/app/lib/handoffGraph";
+
+export interface HandoffGraphProps {
+  agents: RealtimeAgent[];
+  /** The agent currently answering, or null when disconnected. */
+  activeAgentName: string | null;
+  /** Agents the session has been handed through so far, root first. */
+  path: string[];
+}
+
+/**
+ * The scenario's agents with their tools and the handoffs between them. The
+ * handoffs taken in the session are drawn darker and the active agent is
+ * highlighted.
+ */
+function HandoffGraph({ agents, activeAgentName, path }: HandoffGraphProps) {
+  const graph = useMemo(() => buildHandoffGraph(agents), [agents]);
+  const pathEdges = getPathEdgeKeys(path);
+  const visited = new Set(path);
+
+  return (
+    <div className="w-1/2 overflow-auto rounded-xl bg-white flex flex-col">
+      <div className="flex items-center justify-between px-6 py-3.5 sticky top-0 z-10 border-b bg-white rounded-t-xl">
+        <span className="font-semibold">Handoffs</span>
+        <span className="text-sm text-gray-600 font-mono truncate ml-4">
+          {path.length > 0 ? path.join(" → ") : "Connect to follow the conversation"}
+        </span>
+      </div>
+
+      <div className="p-4">
+        <svg
+          viewBox={`0 0 ${graph.width} ${graph.height}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label="Agent handoff graph"
+        >
+          <defs>
+            {[
+              ["arrow", "#9ca3af"],
+              ["arrow-taken", "#111827"],
+            ].map(([id, color]) => (
+              <marker
+                key={id}
+                id={id}
+                viewBox="0 0 10 10"
+                refX="9"
+                refY="5"
+                markerWidth="7"
+                markerHeight="7"
+                orient="auto-start-reverse"
+              >
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+              </marker>
+            ))}
+          </defs>
+
+          {graph.edges.map((edge) => {
+            const taken = pathEdges.has(getEdgeKey(edge.from, edge.to));
+            return (
+              <path
+                key={getEdgeKey(edge.from, edge.to)}
+                d={edge.path}
+                fill="none"
+                stroke={taken ? "#111827" : "#d1d5db"}
+                strokeWidth={taken ? 2.5 : 1.5}
+                markerEnd={`url(#${taken ? "arrow-taken" : "arrow"})`}
+              >
+                <title>
+                  {edge.from} → {edge.to}
+                </title>
+              </path>
+            );
+          })}
+
+          {graph.nodes.map((node) => {
+            const isActive = node.name === activeAgentName;
+            const left = node.x - node.width / 2;
+            const top = node.y - node.height / 2;
+            return (
+              <g key={node.name}>
+                <rect
+                  x={left}
+                  y={top}
+                  width={node.width}
+                  height={node.height}
+                  rx={8}
+                  fill={isActive ? "#d1fae5" : visited.has(node.name) ? "#f3f4f6" : "#ffffff"}
+                  stroke={isActive ? "#059669" : "#6b7280"}
+                  strokeWidth={isActive ? 2.5 : 1}
+                />
+                <text
+                  x={node.x}
+                  y={top + 20}
+                  textAnchor="middle"
+                  fontSize={14}
+                  fontWeight={600}
+                  fill="#111827"
+                >
+                  {node.name}
+                </text>
+                {node.tools.map((toolName, index) => (
+                  <text
+                    key={toolName}
+                    x={left + 10}
+                    y={top + 44 + index * 16}
+                    fontSize={11}
+                    fontFamily="monospace"
+                    fill="#4b5563"
+                  >
+                    {toolName}
+                  </text>
+                ))}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+}
+
+export default HandoffGraph;
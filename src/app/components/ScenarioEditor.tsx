@@ -0,0 +1,494 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  formatZodIssues,
+  ScenarioDefinition,
+  ScenarioDefinitionSchema,
+  ScenarioToolDefinition,
+} from "@/app/lib/scenarioDefinitions";
+import {
+  addAgent,
+  createTool,
+  fromParameterFields,
+  PARAMETER_TYPES,
+  ParameterField,
+  REALTIME_VOICES,
+  removeAgent,
+  renameAgent,
+  setHandoff,
+  toParameterFields,
+  updateAgent,
+} from "@/app/lib/scenarioEditing";
+import type { ScenarioSource } from "@/app/hooks/useScenarios";
+
+export interface ScenarioEditorProps {
+  scenarioKey: string;
+  scenario: ScenarioDefinition;
+  source: ScenarioSource;
+  isConnected: boolean;
+  onApply: (scenario: ScenarioDefinition) => void;
+  onSave: (key: string, scenario: ScenarioDefinition) => void;
+  onDelete: (key: string) => void;
+  onExport: (scenario: ScenarioDefinition, format: "yaml" | "json") => void;
+}
+
+const inputClass = "w-full border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none";
+const buttonClass = "text-sm px-3 py-1 rounded-md bg-gray-200 hover:bg-gray-300 disabled:opacity-50";
+
+/** A textarea for a JSON value that only reports valid JSON. */
+function JsonField({
+  value,
+  onChange,
+  rows = 3,
+}: {
+  value: any;
+  onChange: (value: any) => void;
+  rows?: number;
+}) {
+  const [text, setText] = useState(() => JSON.stringify(value ?? null, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Leave the text alone while it already says the same thing
+    setText((current) => {
+      try {
+        if (JSON.stringify(JSON.parse(current)) === JSON.stringify(value ?? null)) return current;
+      } catch {
+        // Replaced below
+      }
+      return JSON.stringify(value ?? null, null, 2);
+    });
+  }, [value]);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    try {
+      const parsed = JSON.parse(next);
+      setError(null);
+      onChange(parsed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div>
+      <textarea
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        rows={rows}
+        className={inputClass + " font-mono text-xs"}
+      />
+      {error && <div className="text-xs text-red-600">{error}</div>}
+    </div>
+  );
+}
+
+function ParametersForm({
+  parameters,
+  onChange,
+  readOnly,
+}: {
+  parameters: ScenarioToolDefinition["parameters"];
+  onChange: (parameters: ScenarioToolDefinition["parameters"]) => void;
+  readOnly: boolean;
+}) {
+  const fields = toParameterFields(parameters);
+  const update = (next: ParameterField[]) => onChange(fromParameterFields(next, parameters));
+  const updateField = (index: number, changes: Partial<ParameterField>) =>
+    update(fields.map((field, fieldIndex) => (fieldIndex === index ? { ...field, ...changes } : field)));
+
+  return (
+    <div className="flex flex-col gap-y-1">
+      {fields.map((field, index) => (
+        <div key={index} className="flex items-center gap-x-1">
+          <input
+            value={field.name}
+            onChange={(e) => updateField(index, { name: e.target.value })}
+            placeholder="name"
+            disabled={readOnly}
+            className={inputClass + " w-32 font-mono"}
+          />
+          <select
+            value={field.type}
+            onChange={(e) => updateField(index, { type: e.target.value })}
+            disabled={readOnly}
+            className={inputClass + " w-24"}
+          >
+            {PARAMETER_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          <input
+            value={field.description}
+            onChange={(e) => updateField(index, { description: e.target.value })}
+            placeholder="description"
+            disabled={readOnly}
+            className={inputClass}
+          />
+          <label className="flex items-center gap-x-1 text-xs whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={field.required}
+              onChange={(e) => updateField(index, { required: e.target.checked })}
+              disabled={readOnly}
+            />
+            required
+          </label>
+          {!readOnly && (
+            <button
+              onClick={() => update(fields.filter((_field, fieldIndex) => fieldIndex !== index))}
+              className="text-gray-500 hover:text-gray-900 px-1"
+              title="Remove parameter"
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      ))}
+      {!readOnly && (
+        <button
+          onClick={() =>
+            update([
+              ...fields,
+              { name: `param${fields.length + 1}`, type: "string", description: "", required: true, rest: {} },
+            ])
+          }
+          className="self-start text-xs text-gray-600 hover:text-gray-900"
+        >
+          + Parameter
+        </button>
+      )}
+    </div>
+  );
+}
+
+function ToolEditor({
+  tool,
+  onChange,
+  onRemove,
+}: {
+  tool: ScenarioToolDefinition;
+  onChange: (tool: ScenarioToolDefinition) => void;
+  onRemove: () => void;
+}) {
+  const { behavior } = tool;
+  // Built-in tools keep their TypeScript implementation, and with it its schema
+  const isBuiltin = behavior.type === "builtin";
+
+  const changeBehaviorType = (type: string) => {
+    if (type === "fixture") onChange({ ...tool, behavior: { type: "fixture", result: {} } });
+    if (type === "http") {
+      onChange({ ...tool, behavior: { type: "http", url: "https://", method: "POST", timeoutMs: 10_000 } });
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-2 flex flex-col gap-y-2">
+      <div className="flex items-center gap-x-2">
+        <input
+          value={tool.name}
+          onChange={(e) => onChange({ ...tool, name: e.target.value })}
+          disabled={isBuiltin}
+          className={inputClass + " font-mono w-48"}
+        />
+        <select
+          value={behavior.type}
+          onChange={(e) => changeBehaviorType(e.target.value)}
+          disabled={isBuiltin}
+          className={inputClass + " w-32"}
+        >
+          {isBuiltin && <option value="builtin">built in</option>}
+          <option value="fixture">fixture</option>
+          <option value="http">HTTP</option>
+        </select>
+        <button onClick={onRemove} className={buttonClass + " ml-auto"}>
+          Remove tool
+        </button>
+      </div>
+      <textarea
+        value={tool.description}
+        onChange={(e) => onChange({ ...tool, description: e.target.value })}
+        placeholder="What the tool does, for the model"
+        rows={2}
+        disabled={isBuiltin}
+        className={inputClass}
+      />
+      <div className="text-xs font-medium text-gray-600">Parameters</div>
+      <ParametersForm
+        parameters={tool.parameters}
+        onChange={(parameters) => onChange({ ...tool, parameters })}
+        readOnly={isBuiltin}
+      />
+      {behavior.type === "fixture" && (
+        <>
+          <div className="text-xs font-medium text-gray-600">Result</div>
+          <JsonField
+            value={behavior.result}
+            onChange={(result) => onChange({ ...tool, behavior: { ...behavior, result } })}
+          />
+          <div className="text-xs font-medium text-gray-600">
+            Cases <span className="font-normal">([{"{"} match, result {"}"}], first match wins)</span>
+          </div>
+          <JsonField
+            value={behavior.cases ?? []}
+            onChange={(cases) =>
+              Array.isArray(cases) && onChange({ ...tool, behavior: { ...behavior, cases } })
+            }
+          />
+        </>
+      )}
+      {behavior.type === "http" && (
+        <div className="flex items-center gap-x-2">
+          <select
+            value={behavior.method}
+            onChange={(e) =>
+              onChange({ ...tool, behavior: { ...behavior, method: e.target.value as "GET" | "POST" } })
+            }
+            className={inputClass + " w-24"}
+          >
+            <option value="POST">POST</option>
+            <option value="GET">GET</option>
+          </select>
+          <input
+            value={behavior.url}
+            onChange={(e) => onChange({ ...tool, behavior: { ...behavior, url: e.target.value } })}
+            className={inputClass + " font-mono"}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function HandoffMatrix({
+  scenario,
+  onChange,
+}: {
+  scenario: ScenarioDefinition;
+  onChange: (scenario: ScenarioDefinition) => void;
+}) {
+  const names = scenario.agents.map((agent) => agent.name);
+  return (
+    <table className="text-xs">
+      <thead>
+        <tr>
+          <th className="px-2 py-1 text-left font-medium text-gray-500">from ＼ to</th>
+          {names.map((name) => (
+            <th key={name} className="px-2 py-1 font-mono font-medium">
+              {name}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {scenario.agents.map((agent) => (
+          <tr key={agent.name} className="border-t">
+            <td className="px-2 py-1 font-mono">{agent.name}</td>
+            {names.map((target) => (
+              <td key={target} className="px-2 py-1 text-center">
+                {target !== agent.name && (
+                  <input
+                    type="checkbox"
+                    checked={agent.handoffs.includes(target)}
+                    onChange={(e) => onChange(setHandoff(scenario, agent.name, target, e.target.checked))}
+                  />
+                )}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Edits a scenario's agents: instructions, voice, tools and handoffs. Apply
+ * uses the changes for the current session; Save keeps them in this browser.
+ */
+function ScenarioEditor({
+  scenarioKey,
+  scenario,
+  source,
+  isConnected,
+  onApply,
+  onSave,
+  onDelete,
+  onExport,
+}: ScenarioEditorProps) {
+  const [draft, setDraft] = useState<ScenarioDefinition>(scenario);
+  const [agentIndex, setAgentIndex] = useState(0);
+  const [saveKey, setSaveKey] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(scenario);
+    setAgentIndex(0);
+    setSaveKey(source === "browser" ? scenarioKey : `${scenarioKey}Custom`);
+    setMessage(null);
+  }, [scenarioKey, scenario, source]);
+
+  const validation = useMemo(() => ScenarioDefinitionSchema.safeParse(draft), [draft]);
+  const error = validation.success ? null : formatZodIssues(validation.error);
+  const agent = draft.agents[Math.min(agentIndex, draft.agents.length - 1)];
+
+  const changeAgent = (changes: Parameters<typeof updateAgent>[2]) =>
+    setDraft(updateAgent(draft, agentIndex, changes));
+  const changeTools = (tools: ScenarioToolDefinition[]) => changeAgent({ tools });
+
+  const handleApply = () => {
+    if (!validation.success) return;
+    onApply(validation.data);
+    setMessage(isConnected ? "Applied to the current session." : "Applied; connect to try it.");
+  };
+
+  const handleSave = () => {
+    if (!validation.success) return;
+    try {
+      onSave(saveKey, validation.data);
+      setMessage(`Saved as ${saveKey}.`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="w-1/2 overflow-auto rounded-xl bg-white flex flex-col">
+      <div className="flex items-center justify-between px-6 py-3.5 sticky top-0 z-10 border-b bg-white rounded-t-xl">
+        <span className="font-semibold">
+          Edit {scenarioKey} <span className="text-sm font-normal text-gray-500">({source})</span>
+        </span>
+        <div className="flex gap-x-2">
+          <button onClick={handleApply} disabled={!!error} className={buttonClass}>
+            Apply
+          </button>
+          <button onClick={() => onExport(draft, "yaml")} disabled={!!error} className={buttonClass}>
+            YAML
+          </button>
+          <button onClick={() => onExport(draft, "json")} disabled={!!error} className={buttonClass}>
+            JSON
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="px-6 py-2 text-sm text-red-600">{error}</div>}
+      {message && <div className="px-6 py-2 text-sm text-gray-600">{message}</div>}
+
+      <div className="px-6 py-3 flex flex-col gap-y-4">
+        <div className="flex items-center gap-x-2 flex-wrap">
+          {draft.agents.map((candidate, index) => (
+            <button
+              key={index}
+              onClick={() => setAgentIndex(index)}
+              className={
+                "text-sm px-3 py-1 rounded-md font-mono " +
+                (candidate === agent ? "bg-gray-900 text-white" : "bg-gray-200 hover:bg-gray-300")
+              }
+            >
+              {candidate.name || "(unnamed)"}
+            </button>
+          ))}
+          <button onClick={() => setDraft(addAgent(draft))} className="text-sm text-gray-600 hover:text-gray-900">
+            + Agent
+          </button>
+        </div>
+
+        {agent && (
+          <div className="flex flex-col gap-y-2">
+            <div className="flex items-center gap-x-2">
+              <input
+                value={agent.name}
+                onChange={(e) => setDraft(renameAgent(draft, agentIndex, e.target.value))}
+                className={inputClass + " font-mono w-48"}
+              />
+              <select
+                value={agent.voice ?? ""}
+                onChange={(e) => changeAgent({ voice: e.target.value || undefined })}
+                className={inputClass + " w-32"}
+              >
+                <option value="">default voice</option>
+                {REALTIME_VOICES.map((voice) => (
+                  <option key={voice} value={voice}>
+                    {voice}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => {
+                  setDraft(removeAgent(draft, agentIndex));
+                  setAgentIndex(0);
+                }}
+                disabled={draft.agents.length === 1}
+                className={buttonClass + " ml-auto"}
+              >
+                Remove agent
+              </button>
+            </div>
+            <input
+              value={agent.handoffDescription ?? ""}
+              onChange={(e) => changeAgent({ handoffDescription: e.target.value || undefined })}
+              placeholder="Handoff description, shown to the agents that can hand off to this one"
+              className={inputClass}
+            />
+            <textarea
+              value={agent.instructions}
+              onChange={(e) => changeAgent({ instructions: e.target.value })}
+              rows={12}
+              className={inputClass + " font-mono text-xs"}
+            />
+
+            <div className="font-semibold text-sm mt-2">Tools</div>
+            {agent.tools.map((tool, toolIndex) => (
+              <ToolEditor
+                key={toolIndex}
+                tool={tool}
+                onChange={(next) =>
+                  changeTools(agent.tools.map((candidate, index) => (index === toolIndex ? next : candidate)))
+                }
+                onRemove={() => changeTools(agent.tools.filter((_tool, index) => index !== toolIndex))}
+              />
+            ))}
+            <button
+              onClick={() => changeTools([...agent.tools, createTool(agent.tools)])}
+              className="self-start text-sm text-gray-600 hover:text-gray-900"
+            >
+              + Tool
+            </button>
+          </div>
+        )}
+
+        <div>
+          <div className="font-semibold text-sm mb-1">Handoffs</div>
+          <HandoffMatrix scenario={draft} onChange={setDraft} />
+        </div>
+
+        <div className="flex items-center gap-x-2 border-t pt-3">
+          <input
+            value={saveKey}
+            onChange={(e) => setSaveKey(e.target.value)}
+            className={inputClass + " font-mono w-56"}
+          />
+          <button onClick={handleSave} disabled={!!error || !saveKey} className={buttonClass}>
+            Save in this browser
+          </button>
+          {source === "browser" && (
+            <button
+              onClick={() => {
+                if (window.confirm(`Delete the saved scenario ${scenarioKey}?`)) onDelete(scenarioKey);
+              }}
+              className={buttonClass}
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ScenarioEditor;
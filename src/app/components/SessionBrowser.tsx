@@ -0,0 +1,254 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { StoredSession, StoredSessionSummary } from "@/app/lib/sessionRecords";
+import { openSessionStore, SessionStore } from "@/app/lib/sessionStore";
+import { TranscriptItemList } from "./TranscriptItemList";
+
+function formatDate(ms: number): string {
+  return new Date(ms).toLocaleString();
+}
+
+function formatDuration(durationMs: number | null): string {
+  if (durationMs === null) return "-";
+  const seconds = Math.round(durationMs / 1000);
+  return `${Math.floor(seconds / 60)}m ${(seconds % 60).toString().padStart(2, "0")}s`;
+}
+
+function SessionList({
+  store,
+  onOpen,
+}: {
+  store: SessionStore;
+  onOpen: (id: string) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [sessions, setSessions] = useState<StoredSessionSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    store
+      .list(query)
+      .then((result) => {
+        setSessions(result);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+  };
+
+  useEffect(refresh, [store, query]);
+
+  const handleDelete = async (session: StoredSessionSummary) => {
+    if (!window.confirm(`Delete the ${session.scenario} session from ${formatDate(session.startedAt)}?`)) {
+      return;
+    }
+    try {
+      await store.delete(session.id);
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="flex flex-col flex-1 bg-white min-h-0 rounded-xl">
+      <div className="flex items-center justify-between px-6 py-3 border-b">
+        <span className="font-semibold">Past sessions</span>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search scenarios, agents and transcripts..."
+          className="w-96 border border-gray-300 rounded-lg px-3 py-1 focus:outline-none"
+        />
+      </div>
+
+      {error && <div className="px-6 py-2 text-sm text-red-600">{error}</div>}
+
+      <div className="overflow-auto flex-1">
+        {sessions === null ? (
+          <div className="p-6 text-gray-500">Loading...</div>
+        ) : sessions.length === 0 ? (
+          <div className="p-6 text-gray-500">
+            {query ? "No sessions match your search." : "No sessions yet."}
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500">
+              <tr>
+                <th className="px-6 py-2 font-medium">Started</th>
+                <th className="px-2 py-2 font-medium">Scenario</th>
+                <th className="px-2 py-2 font-medium">Agents</th>
+                <th className="px-2 py-2 font-medium">Duration</th>
+                <th className="px-2 py-2 font-medium">Messages</th>
+                <th className="px-2 py-2 font-medium">First message</th>
+                <th className="px-6 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map((session) => (
+                <tr
+                  key={session.id}
+                  className="border-t cursor-pointer hover:bg-gray-50"
+                  onClick={() => onOpen(session.id)}
+                >
+                  <td className="px-6 py-2 font-mono whitespace-nowrap">
+                    {formatDate(session.startedAt)}
+                  </td>
+                  <td className="px-2 py-2">{session.scenario}</td>
+                  <td className="px-2 py-2">{session.agents.join(" → ")}</td>
+                  <td className="px-2 py-2 font-mono">{formatDuration(session.durationMs)}</td>
+                  <td className="px-2 py-2">{session.messageCount}</td>
+                  <td className="px-2 py-2 text-gray-600 truncate max-w-xs">{session.preview}</td>
+                  <td className="px-6 py-2 text-right">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(session);
+                      }}
+                      className="text-sm px-3 py-1 rounded-md bg-gray-200 hover:bg-gray-300"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SessionView({
+  store,
+  id,
+  onBack,
+}: {
+  store: SessionStore;
+  id: string;
+  onBack: () => void;
+}) {
+  const [session, setSession] = useState<StoredSession | null | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+  // Expanding breadcrumbs is local to this view; the stored session is read-only
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    store
+      .get(id)
+      .then(setSession)
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+  }, [store, id]);
+
+  const toggleExpand = (itemId: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex flex-col flex-1 bg-white min-h-0 rounded-xl">
+      <div className="flex items-center justify-between px-6 py-3 border-b">
+        <button
+          onClick={onBack}
+          className="text-sm px-3 py-1 rounded-md bg-gray-200 hover:bg-gray-300"
+        >
+          ← All sessions
+        </button>
+        {session && (
+          <span className="text-sm text-gray-600">
+            {session.scenario} · {formatDate(session.startedAt)} ·{" "}
+            {formatDuration(session.endedAt ? session.endedAt - session.startedAt : null)}
+            {session.model ? ` · ${session.model}` : ""}
+          </span>
+        )}
+      </div>
+
+      {error && <div className="px-6 py-2 text-sm text-red-600">{error}</div>}
+      {session === null && <div className="p-6 text-gray-500">Session not found.</div>}
+
+      {session && (
+        <div className="flex flex-1 min-h-0">
+          <div className="overflow-auto p-4 flex flex-col gap-y-4 flex-1">
+            <TranscriptItemList
+              items={session.transcriptItems.map((item) => ({
+                ...item,
+                expanded: expandedIds.has(item.itemId),
+              }))}
+              onToggleExpand={toggleExpand}
+            />
+          </div>
+          <div className="w-72 border-l p-4 text-sm overflow-auto">
+            <div className="font-semibold mb-2">Agents</div>
+            <div className="mb-4">{session.agents.join(" → ")}</div>
+            <div className="font-semibold mb-2">Handoffs</div>
+            {session.handoffs.length === 0 ? (
+              <div className="text-gray-500">None</div>
+            ) : (
+              <ul className="flex flex-col gap-y-1">
+                {session.handoffs.map((handoff, index) => (
+                  <li key={index} className="font-mono text-xs">
+                    +{formatDuration(handoff.at - session.startedAt)} {handoff.fromAgent} →{" "}
+                    {handoff.toAgent}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Browse, search, reopen (read-only) and delete stored sessions.
+ * `?id=<session id>` opens one.
+ */
+export default function SessionBrowser() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const id = searchParams.get("id");
+  const [store, setStore] = useState<SessionStore | null>(null);
+
+  useEffect(() => {
+    openSessionStore().then(setStore);
+  }, []);
+
+  return (
+    <div className="text-base flex flex-col h-screen bg-gray-100 text-gray-800">
+      <div className="p-5 text-lg font-semibold flex justify-between items-center">
+        <Link href="/">
+          CometAPI Realtime <span className="text-gray-500">Agents</span>
+        </Link>
+        {store && (
+          <span className="text-sm font-normal text-gray-500">
+            Stored {store.kind === "server" ? "on the server" : "in this browser"}
+          </span>
+        )}
+      </div>
+      <div className="flex flex-1 px-2 pb-2 min-h-0">
+        {!store ? (
+          <div className="p-6 text-gray-500">Loading...</div>
+        ) : id ? (
+          <SessionView store={store} id={id} onBack={() => router.push("/sessions")} />
+        ) : (
+          <SessionList
+            store={store}
+            onOpen={(sessionId) => router.push(`/sessions?id=${encodeURIComponent(sessionId)}`)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import React, { createContext, useContext, useState, FC, PropsWithChildren } fro
 import { v4 as uuidv4 } from "uuid";
 import { LoggedEvent } from "@/app/types";
 
-type EventContextValue = {
+export type EventContextValue = {
   loggedEvents: LoggedEvent[];
   logClientEvent: (eventObj: Record<string, any>, eventNameSuffix?: string) => void;
   logServerEvent: (eventObj: Record<string, any>, eventNameSuffix?: string) => void;
@@ -12,7 +12,7 @@ type EventContextValue = {
   toggleExpand: (id: number | string) => void;
 };
 
-const EventContext = createContext<EventContextValue | undefined>(undefined);
+export const EventContext = createContext<EventContextValue | undefined>(undefined);
 
 export const EventProvider: FC<PropsWithChildren> = ({ children }) => {
   const [loggedEvents, setLoggedEvents] = useState<LoggedEvent[]>([]);
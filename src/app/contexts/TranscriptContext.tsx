@@ -10,7 +10,7 @@ import React, {
 import { v4 as uuidv4 } from "uuid";
 import { TranscriptItem } from "@/app/types";
 
-type TranscriptContextValue = {
+export type TranscriptContextValue = {
   transcriptItems: TranscriptItem[];
   addTranscriptMessage: (
     itemId: string,
@@ -19,12 +19,14 @@ type TranscriptContextValue = {
     isHidden?: boolean,
   ) => void;
   updateTranscriptMessage: (itemId: string, text: string, isDelta: boolean) => void;
-  addTranscriptBreadcrumb: (title: string, data?: Record<string, any>) => void;
+  /** Returns the breadcrumb's itemId so it can be updated later (e.g. streaming progress). */
+  addTranscriptBreadcrumb: (title: string, data?: Record<string, any>) => string;
   toggleTranscriptItemExpand: (itemId: string) => void;
   updateTranscriptItem: (itemId: string, updatedProperties: Partial<TranscriptItem>) => void;
+  clearTranscript: () => void;
 };
 
-const TranscriptContext = createContext<TranscriptContextValue | undefined>(undefined);
+export const TranscriptContext = createContext<TranscriptContextValue | undefined>(undefined);
 
 export const TranscriptProvider: FC<PropsWithChildren> = ({ children }) => {
   const [transcriptItems, setTranscriptItems] = useState<TranscriptItem[]>([]);
@@ -79,10 +81,11 @@ export const TranscriptProvider: FC<PropsWithChildren> = ({ children }) => {
   };
 
   const addTranscriptBreadcrumb: TranscriptContextValue["addTranscriptBreadcrumb"] = (title, data) => {
+    const itemId = `breadcrumb-${uuidv4()}`;
     setTranscriptItems((prev) => [
       ...prev,
       {
-        itemId: `breadcrumb-${uuidv4()}`,
+        itemId,
         type: "BREADCRUMB",
         title,
         data,
@@ -93,6 +96,7 @@ export const TranscriptProvider: FC<PropsWithChildren> = ({ children }) => {
         isHidden: false,
       },
     ]);
+    return itemId;
   };
 
   const toggleTranscriptItemExpand: TranscriptContextValue["toggleTranscriptItemExpand"] = (itemId) => {
@@ -111,6 +115,10 @@ export const TranscriptProvider: FC<PropsWithChildren> = ({ children }) => {
     );
   };
 
+  const clearTranscript: TranscriptContextValue["clearTranscript"] = () => {
+    setTranscriptItems([]);
+  };
+
   return (
     <TranscriptContext.Provider
       value={{
@@ -120,6 +128,7 @@ export const TranscriptProvider: FC<PropsWithChildren> = ({ children }) => {
         addTranscriptBreadcrumb,
         toggleTranscriptItemExpand,
         updateTranscriptItem,
+        clearTranscript,
       }}
     >
       {children}
@@ -6,6 +6,8 @@ function useAudioDownload() {
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   // Ref to collect all recorded Blob chunks.
   const recordedChunksRef = useRef<Blob[]>([]);
+  // When the recording began (Date.now()), to line captions up with the audio.
+  const recordingStartedAtRef = useRef<number | null>(null);
 
   /**
    * Starts recording by combining the provided remote stream with
@@ -52,6 +54,10 @@ function useAudioDownload() {
       };
       // Start recording without a timeslice.
       mediaRecorder.start();
+      // Later sessions append to the same recording, so keep the first start
+      if (recordedChunksRef.current.length === 0) {
+        recordingStartedAtRef.current = Date.now();
+      }
       mediaRecorderRef.current = mediaRecorder;
     } catch (err) {
       console.error("Error starting MediaRecorder with combined stream:", err);
@@ -115,7 +121,9 @@ function useAudioDownload() {
     }
   };
 
-  return { startRecording, stopRecording, downloadRecording };
+  const getRecordingStartedAt = () => recordingStartedAtRef.current;
+
+  return { startRecording, stopRecording, downloadRecording, getRecordingStartedAt };
 }
 
 export default useAudioDownload; 
\ No newline at end of file
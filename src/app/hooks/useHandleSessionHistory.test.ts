@@ -0,0 +1,218 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { createElement } from "react";
+import { renderToString } from "react-dom/server";
+import type { RealtimeItem } from "@openai/agents/realtime";
+import { EventContext, EventContextValue } from "@/app/contexts/EventContext";
+import {
+  TranscriptContext,
+  TranscriptContextValue,
+} from "@/app/contexts/TranscriptContext";
+import type { TranscriptItem } from "@/app/types";
+import { useHandleSessionHistory } from "./useHandleSessionHistory";
+
+type Handlers = ReturnType<typeof useHandleSessionHistory>["current"];
+
+type RecordedCall = [method: string, ...args: any[]];
+
+/**
+ * Render the hook once against recording contexts and hand back its handlers.
+ */
+function renderHandlers(transcriptItems: TranscriptItem[] = []) {
+  const calls: RecordedCall[] = [];
+  const record =
+    (method: string) =>
+    (...args: any[]): any => {
+      calls.push([method, ...args]);
+      return `${method}_${calls.length}`;
+    };
+
+  const transcript: TranscriptContextValue = {
+    transcriptItems,
+    addTranscriptMessage: record("addTranscriptMessage"),
+    updateTranscriptMessage: record("updateTranscriptMessage"),
+    addTranscriptBreadcrumb: record("addTranscriptBreadcrumb"),
+    toggleTranscriptItemExpand: record("toggleTranscriptItemExpand"),
+    updateTranscriptItem: record("updateTranscriptItem"),
+    clearTranscript: record("clearTranscript"),
+  };
+  const events: EventContextValue = {
+    loggedEvents: [],
+    logClientEvent: record("logClientEvent"),
+    logServerEvent: record("logServerEvent"),
+    logHistoryItem: record("logHistoryItem"),
+    toggleExpand: record("toggleExpand"),
+  };
+
+  let handlers: Handlers | null = null;
+  function Probe() {
+    handlers = useHandleSessionHistory().current;
+    return null;
+  }
+
+  renderToString(
+    createElement(
+      TranscriptContext.Provider,
+      { value: transcript },
+      createElement(EventContext.Provider, { value: events }, createElement(Probe))
+    )
+  );
+  assert.ok(handlers);
+  return { handlers: handlers as Handlers, calls };
+}
+
+function transcriptItem(overrides: Partial<TranscriptItem>): TranscriptItem {
+  return {
+    itemId: "item_1",
+    type: "MESSAGE",
+    role: "assistant",
+    title: "",
+    expanded: false,
+    timestamp: "00:00:00.000",
+    createdAtMs: 0,
+    status: "IN_PROGRESS",
+    isHidden: false,
+    ...overrides,
+  };
+}
+
+function messageItem(role: "user" | "assistant", content: any[]): RealtimeItem {
+  return { type: "message", itemId: "item_1", role, status: "completed", content } as RealtimeItem;
+}
+
+beforeEach(() => {
+  mock.method(console, "log", () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("useHandleSessionHistory", () => {
+  describe("transcription events", () => {
+    it("appends transcript deltas to the message", () => {
+      const { handlers, calls } = renderHandlers();
+
+      handlers.handleTranscriptionDelta({
+        type: "response.output_audio_transcript.delta",
+        response_id: "resp_1",
+        item_id: "item_1",
+        output_index: 0,
+        content_index: 0,
+        delta: "Hel",
+      });
+
+      assert.deepEqual(calls, [["updateTranscriptMessage", "item_1", "Hel", true]]);
+    });
+
+    it("replaces the message with the final transcript and marks it done", () => {
+      const { handlers, calls } = renderHandlers();
+
+      handlers.handleTranscriptionCompleted({
+        type: "conversation.item.input_audio_transcription.completed",
+        item_id: "item_1",
+        content_index: 0,
+        transcript: "Hello there",
+      });
+
+      assert.deepEqual(calls, [
+        ["updateTranscriptMessage", "item_1", "Hello there", false],
+        ["updateTranscriptItem", "item_1", { status: "DONE" }],
+      ]);
+    });
+
+    it("marks empty transcripts as inaudible", () => {
+      const { handlers, calls } = renderHandlers();
+
+      handlers.handleTranscriptionCompleted({
+        type: "conversation.item.input_audio_transcription.completed",
+        item_id: "item_1",
+        content_index: 0,
+        transcript: "\n",
+      });
+
+      assert.deepEqual(calls[0], ["updateTranscriptMessage", "item_1", "[inaudible]", false]);
+    });
+
+    it("passes a guardrail check that is still in progress", () => {
+      const { handlers, calls } = renderHandlers([
+        transcriptItem({ guardrailResult: { status: "IN_PROGRESS" } }),
+      ]);
+
+      handlers.handleTranscriptionCompleted({
+        type: "response.output_audio_transcript.done",
+        response_id: "resp_1",
+        item_id: "item_1",
+        output_index: 0,
+        content_index: 0,
+        transcript: "Hello there",
+      });
+
+      assert.deepEqual(calls.at(-1), [
+        "updateTranscriptItem",
+        "item_1",
+        { guardrailResult: { status: "DONE", category: "NONE", rationale: "" } },
+      ]);
+    });
+  });
+
+  describe("history events", () => {
+    it("adds a placeholder for user messages that are still being transcribed", () => {
+      const { handlers, calls } = renderHandlers();
+
+      handlers.handleHistoryAdded(messageItem("user", []));
+
+      assert.deepEqual(calls, [["addTranscriptMessage", "item_1", "user", "[Transcribing...]"]]);
+    });
+
+    it("adds typed user text as a message", () => {
+      const { handlers, calls } = renderHandlers();
+
+      handlers.handleHistoryAdded(messageItem("user", [{ type: "input_text", text: "Hi" }]));
+
+      assert.deepEqual(calls, [["addTranscriptMessage", "item_1", "user", "Hi"]]);
+    });
+
+    it("turns guardrail feedback into a breadcrumb instead of a message", () => {
+      const { handlers, calls } = renderHandlers();
+      const text = 'Failure Details: {"moderationCategory":"OFF_BRAND"}';
+
+      handlers.handleHistoryAdded(messageItem("user", [{ type: "input_text", text }]));
+
+      assert.deepEqual(calls, [
+        [
+          "addTranscriptBreadcrumb",
+          "Output Guardrail Active",
+          { details: { moderationCategory: "OFF_BRAND" } },
+        ],
+      ]);
+    });
+
+    it("ignores items that are not messages", () => {
+      const { handlers, calls } = renderHandlers();
+
+      handlers.handleHistoryAdded({
+        type: "function_call",
+        itemId: "item_2",
+        callId: "call_1",
+        name: "lookupOrders",
+        arguments: "{}",
+        status: "completed",
+        output: null,
+      } as RealtimeItem);
+
+      assert.deepEqual(calls, []);
+    });
+
+    it("updates messages whose text changed and skips empty ones", () => {
+      const { handlers, calls } = renderHandlers();
+
+      handlers.handleHistoryUpdated([
+        messageItem("user", [{ type: "input_text", text: "Updated" }]),
+        { ...messageItem("assistant", []), itemId: "item_2" } as RealtimeItem,
+      ]);
+
+      assert.deepEqual(calls, [["updateTranscriptMessage", "item_1", "Updated", false]]);
+    });
+  });
+});
@@ -1,8 +1,17 @@
 "use client";
 
 import { useRef } from "react";
+import type { RunContext } from "@openai/agents";
+import type { RealtimeAgent, RealtimeItem } from "@openai/agents/realtime";
 import { useTranscript } from "@/app/contexts/TranscriptContext";
 import { useEvent } from "@/app/contexts/EventContext";
+import { GuardrailResultType } from "@/app/types";
+import type {
+  RealtimeEventOf,
+  RealtimeTranscriptDeltaEvent,
+  RealtimeTranscriptDoneEvent,
+} from "@/app/lib/realtimeEvents";
+import type { RealtimeFunctionCall } from "@/app/lib/realtimeToolRuntime";
 
 export function useHandleSessionHistory() {
   const {
@@ -67,7 +76,11 @@ export function useHandleSessionHistory() {
 
   /* ----------------------- event handlers ------------------------- */
 
-  function handleAgentToolStart(details: any, _agent: any, functionCall: any) {
+  function handleAgentToolStart(
+    details: RunContext<any>,
+    _agent: RealtimeAgent,
+    functionCall: RealtimeFunctionCall
+  ) {
     const lastFunctionCall = extractFunctionCallByName(functionCall.name, details?.context?.history);
     const function_name = lastFunctionCall?.name;
     const function_args = lastFunctionCall?.arguments;
@@ -77,7 +90,12 @@ export function useHandleSessionHistory() {
       function_args
     );    
   }
-  function handleAgentToolEnd(details: any, _agent: any, _functionCall: any, result: any) {
+  function handleAgentToolEnd(
+    details: RunContext<any>,
+    _agent: RealtimeAgent,
+    _functionCall: RealtimeFunctionCall,
+    result: string
+  ) {
     const lastFunctionCall = extractFunctionCallByName(_functionCall.name, details?.context?.history);
     addTranscriptBreadcrumb(
       `function call result: ${lastFunctionCall?.name}`,
@@ -85,11 +103,11 @@ export function useHandleSessionHistory() {
     );
   }
 
-  function handleHistoryAdded(item: any) {
+  function handleHistoryAdded(item: RealtimeItem) {
     console.log("[handleHistoryAdded] ", item);
     if (!item || item.type !== 'message') return;
 
-    const { itemId, role, content = [] } = item;
+    const { itemId, role, content = [] } = item as any;
     if (itemId && role) {
       const isUser = role === "user";
       let text = extractMessageText(content);
@@ -110,7 +128,7 @@ export function useHandleSessionHistory() {
     }
   }
 
-  function handleHistoryUpdated(items: any[]) {
+  function handleHistoryUpdated(items: RealtimeItem[]) {
     console.log("[handleHistoryUpdated] ", items);
     items.forEach((item: any) => {
       if (!item || item.type !== 'message') return;
@@ -125,15 +143,15 @@ export function useHandleSessionHistory() {
     });
   }
 
-  function handleTranscriptionDelta(item: any) {
+  function handleTranscriptionDelta(item: RealtimeTranscriptDeltaEvent) {
     const itemId = item.item_id;
-    const deltaText = item.delta || "";
+    const deltaText = item.delta;
     if (itemId) {
       updateTranscriptMessage(itemId, deltaText, true);
     }
   }
 
-  function handleTranscriptionCompleted(item: any) {
+  function handleTranscriptionCompleted(item: RealtimeTranscriptDoneEvent) {
     // History updates don't reliably end in a completed item, 
     // so we need to handle finishing up when the transcription is completed.
     const itemId = item.item_id;
@@ -160,7 +178,11 @@ export function useHandleSessionHistory() {
     }
   }
 
-  function handleGuardrailTripped(details: any, _agent: any, guardrail: any) {
+  function handleGuardrailTripped(
+    details: RunContext<any>,
+    _agent: RealtimeAgent | null,
+    guardrail: RealtimeEventOf<"guardrail_tripped">["guardrail"]
+  ) {
     console.log("[guardrail tripped]", details, _agent, guardrail);
     const moderation = extractModeration(guardrail.result.output.outputInfo);
     logServerEvent({ type: 'guardrail_tripped', payload: moderation });
@@ -184,6 +206,11 @@ export function useHandleSessionHistory() {
     }
   }
 
+  function handleGuardrailResult(itemId: string, guardrailResult: GuardrailResultType) {
+    if (!itemId) return;
+    updateTranscriptItem(itemId, { guardrailResult });
+  }
+
   const handlersRef = useRef({
     handleAgentToolStart,
     handleAgentToolEnd,
@@ -192,6 +219,7 @@ export function useHandleSessionHistory() {
     handleTranscriptionDelta,
     handleTranscriptionCompleted,
     handleGuardrailTripped,
+    handleGuardrailResult,
   });
 
   return handlersRef;
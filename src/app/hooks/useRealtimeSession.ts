@@ -1,8 +1,33 @@
 import { useCallback, useRef, useState, useEffect } from "react";
-import { RealtimeAgent } from "@openai/agents/realtime";
-
-import { CometAPIWebSocket, RealtimeEvent } from "../lib/cometapiWebSocket";
-import { createRealtimeSessionUpdate } from "../lib/realtimeSessionConfig";
+import { RealtimeAgent, RealtimeItem } from "@openai/agents/realtime";
+
+import {
+  CometAPIReconnectOptions,
+  CometAPIWebSocket,
+} from "../lib/cometapiWebSocket";
+import { createAudioContext } from "../lib/browserAudio";
+import { CometAPIWebRTC } from "../lib/cometapiWebRTC";
+import type { RealtimeTransport, RealtimeTransportKind } from "../lib/realtimeTransport";
+import type { RealtimeClientEvent, RealtimeEvent } from "../lib/realtimeEvents";
+import {
+  createHistoryReplayEvents,
+  RealtimeConversationHistory,
+} from "../lib/realtimeHistory";
+import type { RealtimeProtocol } from "../lib/realtimeProtocol";
+import { RealtimeRecorder, RealtimeRecording } from "../lib/realtimeRecorder";
+import { RealtimeToolRuntime } from "../lib/realtimeToolRuntime";
+import {
+  RealtimeGuardrailRunner,
+  RealtimeOutputGuardrail,
+} from "../lib/realtimeGuardrails";
+import {
+  createRealtimeSessionUpdate,
+  getAgentSessionConfig,
+  getAudioFormatForCodec,
+  pcm24kAudioFormat,
+  RealtimeAudioFormat,
+  RealtimeTurnDetection,
+} from "../lib/realtimeSessionConfig";
 import { useEvent } from "../contexts/EventContext";
 import { useHandleSessionHistory } from "./useHandleSessionHistory";
 import { SessionStatus } from "../types";
@@ -18,27 +43,75 @@ import { SessionStatus } from "../types";
  * - Replaced OpenAI SDK with native WebSocket implementation
  * - Direct connection to wss://api.cometapi.com/v1/realtime
  * - API key authentication via WebSocket subprotocol
- * - Native audio handling (PCM16, 24kHz)
+ * - Native audio handling (PCM16 24kHz, or G.711 8kHz)
  * - Event-based messaging compatible with OpenAI Realtime API protocol
  */
 
 export interface RealtimeSessionCallbacks {
   onConnectionChange?: (status: SessionStatus) => void;
-  onAgentHandoff?: (agentName: string) => void;
+  onAgentHandoff?: (agentName: string, fromAgentName: string) => void;
 }
 
 export interface ConnectOptions {
   getEphemeralKey: () => Promise<string>;
   model?: string;
   url?: string;
+  /** Scenario the session token was issued for; the relay checks it. */
+  scenario?: string;
   initialAgents: RealtimeAgent[];
   extraContext?: Record<string, any>;
-  outputGuardrails?: any[];
+  outputGuardrails?: RealtimeOutputGuardrail[];
+  /**
+   * Reconnect with backoff when the socket drops. The agent's session config
+   * is re-sent and the conversation replayed as text once the new session starts.
+   */
+  reconnect?: boolean | CometAPIReconnectOptions;
+  /** Server protocol dialect; detected from session.created by default. */
+  protocol?: RealtimeProtocol | "auto";
+  /** How audio and events travel (see realtimeTransport.ts). Default "websocket". */
+  transport?: RealtimeTransportKind;
+  /** WebRTC only: endpoint for the SDP offer. `url` is the WebSocket one. */
+  webrtcUrl?: string;
+  /**
+   * Audio codec: "opus" (default), "pcmu" or "pcma". WebRTC prefers it in the
+   * SDP offer; the WebSocket transport streams PCMU/PCMA as G.711 at 8 kHz and
+   * anything else as PCM16 at 24 kHz. The session.update asks for the same.
+   */
+  codec?: string;
+  /** WebRTC only: element the assistant's audio track plays in. */
+  audioElement?: HTMLAudioElement;
+}
+
+export interface ReplayOptions {
+  /** Playback speed of the recording. Default 1. */
+  speed?: number;
 }
 
+const SERVER_VAD_TURN_DETECTION: RealtimeTurnDetection = {
+  type: "server_vad",
+  threshold: 0.5,
+  prefix_padding_ms: 300,
+  silence_duration_ms: 500,
+  create_response: true,
+};
+
 export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
-  const wsRef = useRef<CometAPIWebSocket | null>(null);
+  const wsRef = useRef<RealtimeTransport | null>(null);
+  const currentAgentRef = useRef<RealtimeAgent | null>(null);
+  const extraContextRef = useRef<Record<string, any>>({});
+  const historyRef = useRef(new RealtimeConversationHistory());
+  const toolRuntimeRef = useRef<RealtimeToolRuntime | null>(null);
+  const guardrailRunnerRef = useRef<RealtimeGuardrailRunner | null>(null);
+  // History to replay into the next session after a reconnect
+  const pendingReplayRef = useRef<RealtimeItem[] | null>(null);
+  const replayedItemIdsRef = useRef<Set<string>>(new Set());
+  // Recording of the current (or last) session
+  const recorderRef = useRef<RealtimeRecorder | null>(null);
+  const [hasRecording, setHasRecording] = useState(false);
+  const replayingRef = useRef(false);
   const [status, setStatus] = useState<SessionStatus>("DISCONNECTED");
+  const outputMutedRef = useRef<boolean>(false);
+  const audioFormatRef = useRef<RealtimeAudioFormat>(pcm24kAudioFormat);
   const audioStreamingRef = useRef<boolean>(false); // Track if audio is actively streaming
   const { logClientEvent } = useEvent();
   const { logServerEvent } = useEvent();
@@ -46,6 +119,8 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
 
   const updateStatus = useCallback(
     (s: SessionStatus) => {
+      // A replay stays REPLAYING whatever the recorded session went through
+      if (replayingRef.current && s !== "REPLAYING" && s !== "DISCONNECTED") return;
       setStatus(s);
       callbacks.onConnectionChange?.(s);
       logClientEvent({}, s);
@@ -53,9 +128,68 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
     [callbacks, logClientEvent]
   );
 
+  /**
+   * Sends the agent's instructions, tools and voice together with Server VAD
+   * so the session actually behaves like the selected RealtimeAgent.
+   */
+  const sendAgentSessionUpdate = useCallback(async (agent: RealtimeAgent) => {
+    const agentConfig = await getAgentSessionConfig(
+      agent,
+      extraContextRef.current
+    );
+    console.log(
+      "[useRealtimeSession] Applying agent config:",
+      agentConfig.agentName,
+      `(${agentConfig.tools.length} tools, voice: ${agentConfig.voice})`
+    );
+    wsRef.current?.sendEvent(
+      createRealtimeSessionUpdate(
+        SERVER_VAD_TURN_DETECTION,
+        agentConfig,
+        audioFormatRef.current
+      )
+    );
+  }, []);
+
+  const runFunctionCall = useCallback((event: RealtimeEvent) => {
+    toolRuntimeRef.current?.handleServerEvent(event).catch((error) => {
+      console.error("[useRealtimeSession] Tool execution failed:", error);
+    });
+  }, []);
+
+  /**
+   * Rebuild the conversation in a fresh session so the model keeps its context.
+   */
+  const replayHistory = useCallback(() => {
+    const items = pendingReplayRef.current;
+    pendingReplayRef.current = null;
+    if (!items || !wsRef.current) return;
+
+    const events = createHistoryReplayEvents(items);
+    console.log(
+      `[useRealtimeSession] Replaying ${events.length} conversation items after reconnect`
+    );
+    events.forEach((event) => {
+      if (event.item.id) replayedItemIdsRef.current.add(event.item.id);
+      wsRef.current?.sendEvent(event);
+    });
+  }, []);
+
+  const runOutputGuardrails = useCallback((event: RealtimeEvent) => {
+    guardrailRunnerRef.current?.handleServerEvent(event).catch((error) => {
+      console.error("[useRealtimeSession] Output guardrail failed:", error);
+    });
+  }, []);
+
   const handleServerEvent = useCallback(
     (event: RealtimeEvent) => {
       console.log("[useRealtimeSession] Server event:", event.type);
+      const addedItem = historyRef.current.handleServerEvent(event);
+      // Replayed items are already in the transcript
+      if (addedItem && !replayedItemIdsRef.current.delete(addedItem.itemId)) {
+        // Nothing else emits history_added on the native transport
+        historyHandlers.handleHistoryAdded(addedItem);
+      }
 
       // Handle specific event types
       switch (event.type) {
@@ -64,25 +198,39 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
           // CRITICAL FIX: Send session.update after session.created to enable Server VAD
           // The working console does this to configure turn_detection
           // Without this, the server won't detect when you speak!
+          // The same update carries the root agent's instructions, tools and voice.
           console.log(
-            "[useRealtimeSession] Sending session.update to configure Server VAD..."
+            "[useRealtimeSession] Sending session.update to configure agent and Server VAD..."
           );
-          if (wsRef.current) {
-            wsRef.current.sendEvent(
-              createRealtimeSessionUpdate({
-                type: "server_vad",
-                threshold: 0.5,
-                prefix_padding_ms: 300,
-                silence_duration_ms: 500,
-                create_response: true,
+          if (currentAgentRef.current) {
+            sendAgentSessionUpdate(currentAgentRef.current)
+              .catch((error) => {
+                console.error(
+                  "[useRealtimeSession] Failed to build agent session config:",
+                  error
+                );
               })
-            );
-            console.log(
-              "[useRealtimeSession] Server VAD configured - ready for voice input!"
-            );
+              .then(replayHistory);
           }
           break;
 
+        case "reconnecting":
+          console.warn(
+            `[useRealtimeSession] Connection lost, reconnecting (attempt ${event.attempt}/${event.maxAttempts})...`
+          );
+          logServerEvent(event);
+          updateStatus("RECONNECTING");
+          break;
+
+        case "reconnected":
+          // The new server session starts empty: keep our history for replay
+          // once session.created arrives
+          logServerEvent(event);
+          pendingReplayRef.current = historyRef.current.items;
+          historyRef.current.clear();
+          updateStatus("CONNECTED");
+          break;
+
         case "session.updated":
           console.log("[useRealtimeSession] Session updated");
           break;
@@ -94,6 +242,9 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
 
         case "close":
           console.warn("[useRealtimeSession] WebSocket close event:", event);
+          // The socket is done for good (reconnects don't emit close)
+          wsRef.current = null;
+          replayingRef.current = false;
           updateStatus("DISCONNECTED");
           break;
 
@@ -101,20 +252,22 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
           historyHandlers.handleTranscriptionCompleted(event);
           break;
 
-        case "response.audio_transcript.done":
+        case "response.output_audio_transcript.done":
           historyHandlers.handleTranscriptionCompleted(event);
+          runOutputGuardrails(event);
           break;
 
-        case "response.audio_transcript.delta":
+        case "response.output_audio_transcript.delta":
           historyHandlers.handleTranscriptionDelta(event);
+          runOutputGuardrails(event);
           break;
 
         // High-frequency audio events - skip logging to prevent performance issues
-        case "response.audio.delta":
+        case "response.output_audio.delta":
           // Audio data chunks - don't log to avoid hundreds of state updates per second
           break;
 
-        case "response.audio.done":
+        case "response.output_audio.done":
           // Audio completion - don't log
           break;
 
@@ -122,8 +275,14 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
           // Content part completion - don't log
           break;
 
+        case "response.function_call_arguments.done":
+          logServerEvent(event);
+          runFunctionCall(event);
+          break;
+
         case "response.output_item.done":
-          // Output item completion - don't log
+          // Output item completion - don't log, but it may complete a function call
+          runFunctionCall(event);
           break;
 
         case "input_audio_buffer.speech_started":
@@ -138,8 +297,9 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
           // Audio buffer committed - don't log
           break;
 
-        case "conversation.item.created":
-          // Item created - don't log (already handled by history)
+        case "conversation.item.added":
+        case "conversation.item.done":
+          // Item created/completed - don't log (already handled by history)
           break;
 
         case "rate_limits.updated":
@@ -147,53 +307,47 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
           break;
 
         case "agent_handoff":
-          if (event.item) {
-            const history = event.item.context?.history;
-            if (history && history.length > 0) {
-              const lastMessage = history[history.length - 1];
-              const agentName = lastMessage.name?.split("transfer_to_")[1];
-              if (agentName) {
-                callbacks.onAgentHandoff?.(agentName);
-              }
-            }
-          }
+          logServerEvent(
+            { type: "agent_handoff", from: event.fromAgent, to: event.toAgent },
+            event.toAgent
+          );
+          callbacks.onAgentHandoff?.(event.toAgent, event.fromAgent);
           break;
 
         case "agent_tool_start":
-          // Extract parameters from event
           historyHandlers.handleAgentToolStart(
-            event.details || {},
-            event.agent || {},
-            event.functionCall || {}
+            event.details,
+            event.agent,
+            event.functionCall
           );
           break;
 
         case "agent_tool_end":
-          // Extract parameters from event
           historyHandlers.handleAgentToolEnd(
-            event.details || {},
-            event.agent || {},
-            event.functionCall || {},
+            event.details,
+            event.agent,
+            event.functionCall,
             event.result
           );
           break;
 
-        case "history_updated":
-          // history_updated expects an array of items
-          historyHandlers.handleHistoryUpdated(event.items || []);
+        case "guardrail_tripped":
+          historyHandlers.handleGuardrailTripped(
+            event.details,
+            event.agent,
+            event.guardrail
+          );
           break;
 
-        case "history_added":
-          historyHandlers.handleHistoryAdded(event.item || event);
+        case "guardrail_result":
+          historyHandlers.handleGuardrailResult(
+            event.item_id,
+            event.guardrailResult
+          );
           break;
 
-        case "guardrail_tripped":
-          // Extract parameters from event
-          historyHandlers.handleGuardrailTripped(
-            event.details || {},
-            event.agent || {},
-            event.guardrail || {}
-          );
+        case "invalid_server_event":
+          logServerEvent(event);
           break;
 
         default:
@@ -201,7 +355,16 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
           break;
       }
     },
-    [callbacks, logServerEvent, historyHandlers, updateStatus]
+    [
+      callbacks,
+      logServerEvent,
+      historyHandlers,
+      updateStatus,
+      sendAgentSessionUpdate,
+      runFunctionCall,
+      runOutputGuardrails,
+      replayHistory,
+    ]
   );
 
   const connect = useCallback(
@@ -209,11 +372,16 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
       getEphemeralKey,
       model,
       url,
+      scenario,
       initialAgents,
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      extraContext: _extraContext,
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      outputGuardrails: _outputGuardrails,
+      extraContext,
+      outputGuardrails,
+      reconnect,
+      protocol,
+      transport = "websocket",
+      webrtcUrl,
+      codec,
+      audioElement,
     }: ConnectOptions) => {
       if (wsRef.current) return; // already connected
 
@@ -228,14 +396,16 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
 
         const rootAgent = initialAgents[0];
         console.log("[useRealtimeSession] Root agent:", rootAgent.name);
+        currentAgentRef.current = rootAgent;
+        extraContextRef.current = extraContext ?? {};
+        audioFormatRef.current = getAudioFormatForCodec(codec);
 
         // CRITICAL: Request microphone permission BEFORE connecting WebSocket
         // This matches the working console's order and ensures audio starts flowing immediately
         console.log("[useRealtimeSession] Requesting microphone permission...");
-        const tempAudioContext = new (window.AudioContext ||
-          (window as any).webkitAudioContext)({
-          sampleRate: 24000,
-        });
+        // Runs at the device rate; the capture worklet resamples to 24kHz (8kHz for G.711).
+        // WebRTC sends the track itself and needs no AudioContext.
+        const tempAudioContext = transport === "websocket" ? createAudioContext() : undefined;
         const tempStream = await navigator.mediaDevices.getUserMedia({
           audio: {
             channelCount: 1,
@@ -244,16 +414,67 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
         });
         console.log("[useRealtimeSession] Microphone permission granted");
 
-        // Create native WebSocket connection
-        const ws = new CometAPIWebSocket({
-          apiKey,
+        const recorder = new RealtimeRecorder({
           model: model || "gpt-4o-realtime-preview-2025-06-03",
-          url: url || "wss://api.cometapi.com/v1/realtime",
+          url:
+            (transport === "webrtc" ? webrtcUrl : url) ||
+            "wss://api.cometapi.com/v1/realtime",
+        });
+        recorderRef.current = recorder;
+        setHasRecording(true);
+
+        let ws: RealtimeTransport;
+        if (transport === "webrtc") {
+          console.log(`[useRealtimeSession] Using WebRTC (codec: ${codec || "opus"})`);
+          ws = new CometAPIWebRTC({
+            apiKey,
+            model: model || "gpt-4o-realtime-preview-2025-06-03",
+            url: webrtcUrl,
+            scenario,
+            codec,
+            audioElement,
+            mediaStream: tempStream,
+            protocol,
+            recorder,
+          });
+        } else {
+          // Create native WebSocket connection
+          ws = new CometAPIWebSocket({
+            apiKey,
+            model: model || "gpt-4o-realtime-preview-2025-06-03",
+            url: url || "wss://api.cometapi.com/v1/realtime",
+            scenario,
+            codec,
+            reconnect,
+            getApiKey: getEphemeralKey,
+            protocol,
+            recorder,
+            audioContext: tempAudioContext,
+            mediaStream: tempStream,
+          });
+        }
+        ws.setOutputMuted(outputMutedRef.current);
+
+        historyRef.current.clear();
+        pendingReplayRef.current = null;
+        replayedItemIdsRef.current.clear();
+        toolRuntimeRef.current = new RealtimeToolRuntime({
+          transport: ws,
+          getAgent: () => currentAgentRef.current,
+          getContext: () => extraContextRef.current,
+          getHistory: () => historyRef.current.items,
+          onHandoff: async (agent) => {
+            currentAgentRef.current = agent;
+            await sendAgentSessionUpdate(agent);
+          },
+        });
+        guardrailRunnerRef.current = new RealtimeGuardrailRunner({
+          transport: ws,
+          guardrails: outputGuardrails ?? [],
+          getAgent: () => currentAgentRef.current,
+          getContext: () => extraContextRef.current,
+          getHistory: () => historyRef.current.items,
         });
-
-        // Pre-set the audio context and stream
-        (ws as any).audioContext = tempAudioContext;
-        (ws as any).mediaStream = tempStream;
 
         // Register event handler for all events
         ws.on("*", handleServerEvent);
@@ -306,17 +527,84 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
         );
         updateStatus("DISCONNECTED");
         wsRef.current = null;
+        currentAgentRef.current = null;
+        toolRuntimeRef.current = null;
+        guardrailRunnerRef.current = null;
         throw err;
       }
     },
-    [handleServerEvent, updateStatus]
+    [handleServerEvent, updateStatus, sendAgentSessionUpdate]
+  );
+
+  /**
+   * Play a recorded session back into the transcript, the events pane and the
+   * speakers, without connecting. Tools and guardrails don't run again; their
+   * recorded results are replayed instead.
+   */
+  const replay = useCallback(
+    async (recording: RealtimeRecording, { speed = 1 }: ReplayOptions = {}) => {
+      if (wsRef.current) return; // connected or already replaying
+
+      const ws = new CometAPIWebSocket({
+        apiKey: "",
+        model: recording.header.model,
+        url: recording.header.url,
+      });
+      ws.setOutputMuted(outputMutedRef.current);
+
+      historyRef.current.clear();
+      pendingReplayRef.current = null;
+      replayedItemIdsRef.current.clear();
+      currentAgentRef.current = null;
+      toolRuntimeRef.current = null;
+      guardrailRunnerRef.current = null;
+      ws.on("*", handleServerEvent);
+      wsRef.current = ws;
+
+      updateStatus("REPLAYING");
+      replayingRef.current = true;
+      await ws.replay(recording, {
+        speed,
+        onClientEvent: (event) => {
+          // Microphone frames would flood the events pane
+          if (event.type !== "input_audio_buffer.append") {
+            logClientEvent(event, "(replay)");
+          }
+        },
+      });
+    },
+    [handleServerEvent, updateStatus, logClientEvent]
+  );
+
+  /**
+   * Swaps in edited agents mid-session: the agent with the current agent's
+   * name (or the first one) takes over and its config is sent right away.
+   */
+  const updateAgents = useCallback(
+    async (agents: RealtimeAgent[]) => {
+      if (!wsRef.current || !currentAgentRef.current || agents.length === 0) return;
+      const currentName = currentAgentRef.current.name;
+      const agent = agents.find((candidate) => candidate.name === currentName) ?? agents[0];
+      currentAgentRef.current = agent;
+      await sendAgentSessionUpdate(agent);
+    },
+    [sendAgentSessionUpdate]
+  );
+
+  const getRecording = useCallback(
+    (): RealtimeRecording | null => recorderRef.current?.recording ?? null,
+    []
   );
 
   const disconnect = useCallback(() => {
+    replayingRef.current = false;
     if (wsRef.current) {
       wsRef.current.close();
       wsRef.current = null;
     }
+    currentAgentRef.current = null;
+    toolRuntimeRef.current = null;
+    guardrailRunnerRef.current = null;
     audioStreamingRef.current = false; // Reset audio streaming flag
     updateStatus("DISCONNECTED");
   }, [updateStatus]);
@@ -330,11 +618,8 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
   /* ----------------------- message helpers ------------------------- */
 
   const interrupt = useCallback(() => {
-    // Note: Working console doesn't use response.cancel, but keep it available
-    if (wsRef.current) {
-      console.log("[useRealtimeSession] Sending response.cancel");
-      wsRef.current.sendEvent({ type: "response.cancel" });
-    }
+    // Cancels the active response and truncates what the user hasn't heard yet
+    wsRef.current?.interrupt();
   }, []);
 
   const sendUserText = useCallback((text: string) => {
@@ -353,16 +638,17 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
     wsRef.current!.sendEvent({ type: "response.create" });
   }, []);
 
-  const sendEvent = useCallback((ev: RealtimeEvent) => {
+  const sendEvent = useCallback((ev: RealtimeClientEvent) => {
     if (wsRef.current) {
       wsRef.current.sendEvent(ev);
     }
   }, []);
 
   const mute = useCallback((m: boolean) => {
-    // Note: Mute is handled at audio element level in native WebSocket
-    // This is a no-op for compatibility with SDK interface
+    // Playback happens in the WebSocket's AudioContext, not the audio element
     console.log("[useRealtimeSession] Mute state:", m ? "muted" : "unmuted");
+    outputMutedRef.current = m;
+    wsRef.current?.setOutputMuted(m);
   }, []);
 
   const pushToTalkStart = useCallback(() => {
@@ -398,5 +684,9 @@ export function useRealtimeSession(callbacks: RealtimeSessionCallbacks = {}) {
     pushToTalkStart,
     pushToTalkStop,
     interrupt,
+    replay,
+    getRecording,
+    hasRecording,
+    updateAgents,
   } as const;
 }
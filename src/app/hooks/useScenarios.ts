@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { RealtimeAgent } from "@openai/agents/realtime";
+import { allAgentSets } from "@/app/agentConfigs";
+import { buildScenarioAgents } from "@/app/agentConfigs/declarativeScenario";
+import { isToolUnchangedFromFile } from "../lib/scenarioEditing";
+import {
+  ScenarioDefinition,
+  ScenarioDefinitionSchema,
+  ScenarioLoadError,
+  SCENARIO_KEY_PATTERN,
+} from "../lib/scenarioDefinitions";
+
+const SAVED_SCENARIOS_KEY = "cometapi-realtime-agents.scenarios";
+
+/**
+ * Where a scenario comes from: TypeScript in agentConfigs, a file in the
+ * scenarios directory, or saved from the editor into this browser.
+ */
+export type ScenarioSource = "builtin" | "file" | "browser";
+
+export interface ScenariosState {
+  /** Built-in scenarios followed by the declarative ones. */
+  agentSets: Record<string, RealtimeAgent[]>;
+  /** Definitions of the declarative (and edited) scenarios. */
+  definitions: Record<string, ScenarioDefinition>;
+  sources: Record<string, ScenarioSource>;
+  /** Keys whose agents were changed in the editor and not saved. */
+  editedKeys: string[];
+  /** Guardrail company names declared by scenario definitions. */
+  companyNames: Record<string, string>;
+  /** False until /api/scenarios has answered (or failed). */
+  isLoaded: boolean;
+  errors: ScenarioLoadError[];
+  /** Use this definition for the scenario until the page is reloaded. */
+  applyScenario: (key: string, scenario: ScenarioDefinition) => RealtimeAgent[];
+  /** Keep the scenario in this browser; built-in keys can't be overwritten. */
+  saveScenario: (key: string, scenario: ScenarioDefinition) => void;
+  deleteSavedScenario: (key: string) => void;
+}
+
+function readSavedScenarios(): Record<string, ScenarioDefinition> {
+  const saved: Record<string, ScenarioDefinition> = {};
+  try {
+    const raw = JSON.parse(window.localStorage.getItem(SAVED_SCENARIOS_KEY) ?? "{}");
+    for (const [key, value] of Object.entries(raw ?? {})) {
+      const parsed = ScenarioDefinitionSchema.safeParse(value);
+      if (parsed.success) saved[key] = parsed.data;
+    }
+  } catch (error) {
+    console.warn("[scenarios] Ignoring unreadable saved scenarios:", error);
+  }
+  return saved;
+}
+
+function withoutKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const copy = { ...record };
+  delete copy[key];
+  return copy;
+}
+
+function writeSavedScenarios(saved: Record<string, ScenarioDefinition>) {
+  window.localStorage.setItem(SAVED_SCENARIOS_KEY, JSON.stringify(saved));
+}
+
+/**
+ * The scenarios for the dropdown: the TypeScript ones in agentConfigs, the
+ * JSON/YAML ones served by /api/scenarios, the ones saved from the editor and
+ * live edits, later ones taking precedence.
+ */
+export function useScenarios(): ScenariosState {
+  const [fileScenarios, setFileScenarios] = useState<Record<string, ScenarioDefinition>>({});
+  const [savedScenarios, setSavedScenarios] = useState<Record<string, ScenarioDefinition>>({});
+  const [appliedAgents, setAppliedAgents] = useState<
+    Record<string, { scenario: ScenarioDefinition; agents: RealtimeAgent[] }>
+  >({});
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [errors, setErrors] = useState<ScenarioLoadError[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSavedScenarios(readSavedScenarios());
+
+    const load = async () => {
+      const response = await fetch("/api/scenarios");
+      const data: {
+        scenarios?: Record<string, ScenarioDefinition>;
+        errors?: ScenarioLoadError[];
+        message?: string;
+      } = await response.json();
+      if (!response.ok) throw new Error(data.message ?? response.statusText);
+      return data;
+    };
+
+    load()
+      .then((data) => {
+        const loadErrors = [...(data.errors ?? [])];
+        const scenarios: Record<string, ScenarioDefinition> = {};
+        for (const [key, scenario] of Object.entries(data.scenarios ?? {})) {
+          if (allAgentSets[key]) {
+            loadErrors.push({ file: key, message: `Scenario ${key} is built in; rename the file.` });
+          } else {
+            scenarios[key] = scenario;
+          }
+        }
+        return { scenarios, loadErrors };
+      })
+      .catch((error) => {
+        console.warn("[scenarios] Failed to load scenario definitions:", error);
+        return {
+          scenarios: {},
+          loadErrors: [{ file: "", message: error instanceof Error ? error.message : String(error) }],
+        };
+      })
+      .then(({ scenarios, loadErrors }) => {
+        loadErrors.forEach((error) => console.warn(`[scenarios] ${error.file}: ${error.message}`));
+        if (cancelled) return;
+        setFileScenarios(scenarios);
+        setErrors(loadErrors);
+        setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const declarativeAgents = useMemo(() => {
+    const agentSets: Record<string, RealtimeAgent[]> = {};
+    for (const [key, scenario] of Object.entries(fileScenarios)) {
+      agentSets[key] = buildScenarioAgents(key, scenario, "server");
+    }
+    for (const [key, scenario] of Object.entries(savedScenarios)) {
+      agentSets[key] = buildScenarioAgents(key, scenario, "direct");
+    }
+    return agentSets;
+  }, [fileScenarios, savedScenarios]);
+
+  const state = useMemo(() => {
+    const agentSets: Record<string, RealtimeAgent[]> = { ...allAgentSets, ...declarativeAgents };
+    const definitions: Record<string, ScenarioDefinition> = { ...fileScenarios, ...savedScenarios };
+    const sources: Record<string, ScenarioSource> = {};
+    Object.keys(allAgentSets).forEach((key) => (sources[key] = "builtin"));
+    Object.keys(fileScenarios).forEach((key) => (sources[key] = "file"));
+    Object.keys(savedScenarios).forEach((key) => (sources[key] = "browser"));
+
+    for (const [key, applied] of Object.entries(appliedAgents)) {
+      agentSets[key] = applied.agents;
+      definitions[key] = applied.scenario;
+    }
+
+    const companyNames: Record<string, string> = {};
+    for (const [key, scenario] of Object.entries(definitions)) {
+      if (scenario.companyName) companyNames[key] = scenario.companyName;
+    }
+    return { agentSets, definitions, sources, companyNames, editedKeys: Object.keys(appliedAgents) };
+  }, [declarativeAgents, fileScenarios, savedScenarios, appliedAgents]);
+
+  const applyScenario = useCallback(
+    (key: string, scenario: ScenarioDefinition) => {
+      // The browser only has the file's public definition, without the HTTP
+      // tools' headers: tools the edit left alone keep going through the server
+      const fileScenario =
+        Object.hasOwn(fileScenarios, key) && !Object.hasOwn(savedScenarios, key)
+          ? fileScenarios[key]
+          : null;
+      const agents = buildScenarioAgents(key, scenario, (agentName, tool) =>
+        fileScenario && isToolUnchangedFromFile(fileScenario, agentName, tool) ? "server" : "direct"
+      );
+      setAppliedAgents((prev) => ({ ...prev, [key]: { scenario, agents } }));
+      return agents;
+    },
+    [fileScenarios, savedScenarios]
+  );
+
+  const saveScenario = useCallback((key: string, scenario: ScenarioDefinition) => {
+    if (allAgentSets[key]) {
+      throw new Error(`${key} is a built-in scenario; save under another name.`);
+    }
+    if (!SCENARIO_KEY_PATTERN.test(key)) {
+      throw new Error("Scenario names are letters, digits, _ and - only.");
+    }
+    const saved = { ...readSavedScenarios(), [key]: scenario };
+    writeSavedScenarios(saved);
+    setSavedScenarios(saved);
+    setAppliedAgents((prev) => withoutKey(prev, key));
+  }, []);
+
+  const deleteSavedScenario = useCallback((key: string) => {
+    const saved = withoutKey(readSavedScenarios(), key);
+    writeSavedScenarios(saved);
+    setSavedScenarios(saved);
+    setAppliedAgents((prev) => withoutKey(prev, key));
+  }, []);
+
+  return {
+    ...state,
+    isLoaded,
+    errors,
+    applyScenario,
+    saveScenario,
+    deleteSavedScenario,
+  };
+}
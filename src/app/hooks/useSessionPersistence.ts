@@ -0,0 +1,91 @@
+import { useEffect, useRef } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { useTranscript } from "@/app/contexts/TranscriptContext";
+import { SessionStatus } from "@/app/types";
+import { StoredSession, toStoredTranscriptItems } from "../lib/sessionRecords";
+import { openSessionStore } from "../lib/sessionStore";
+
+const SAVE_DEBOUNCE_MS = 1000;
+
+export interface PersistedSessionStart {
+  scenario: string;
+  model?: string;
+  rootAgentName: string;
+}
+
+/**
+ * Keeps the current conversation in the session store (see lib/sessionStore.ts)
+ * while it runs: started by `startSession` once connected, saved as the
+ * transcript changes and closed off when the session disconnects.
+ */
+export function useSessionPersistence(sessionStatus: SessionStatus) {
+  const { transcriptItems } = useTranscript();
+  const sessionRef = useRef<StoredSession | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const saveNow = () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const session = sessionRef.current;
+    if (!session) return;
+
+    session.updatedAt = Date.now();
+    const snapshot = { ...session };
+    openSessionStore()
+      .then((store) => store.save(snapshot))
+      .catch((error) => console.warn("[sessions] Failed to save session:", error));
+  };
+
+  const scheduleSave = () => {
+    if (saveTimerRef.current) return;
+    saveTimerRef.current = setTimeout(saveNow, SAVE_DEBOUNCE_MS);
+  };
+
+  const startSession = ({ scenario, model, rootAgentName }: PersistedSessionStart) => {
+    const now = Date.now();
+    sessionRef.current = {
+      id: uuidv4(),
+      scenario,
+      model,
+      agents: [rootAgentName],
+      handoffs: [],
+      transcriptItems: [],
+      startedAt: now,
+      updatedAt: now,
+    };
+    saveNow();
+  };
+
+  const recordHandoff = (fromAgent: string, toAgent: string) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.handoffs = [...session.handoffs, { fromAgent, toAgent, at: Date.now() }];
+    if (!session.agents.includes(toAgent)) {
+      session.agents = [...session.agents, toAgent];
+    }
+    scheduleSave();
+  };
+
+  // The transcript isn't cleared between connections; keep this session's part
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.transcriptItems = toStoredTranscriptItems(
+      transcriptItems.filter((item) => item.createdAtMs >= session.startedAt)
+    );
+    scheduleSave();
+  }, [transcriptItems]);
+
+  useEffect(() => {
+    if (sessionStatus !== "DISCONNECTED" || !sessionRef.current) return;
+    sessionRef.current.endedAt = Date.now();
+    saveNow();
+    sessionRef.current = null;
+  }, [sessionStatus]);
+
+  useEffect(() => () => saveNow(), []);
+
+  return { startSession, recordHandoff };
+}
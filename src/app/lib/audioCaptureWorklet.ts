@@ -0,0 +1,157 @@
+/**
+ * AudioWorklet Microphone Capture
+ *
+ * Replaces the deprecated ScriptProcessorNode capture. The worklet runs on the
+ * audio rendering thread and does three things there:
+ * - Resamples the AudioContext rate (often 44.1/48 kHz) to 24 kHz, or to
+ *   8 kHz for G.711 (after a telephone-band low-pass, so it doesn't alias)
+ * - Converts Float32 samples to PCM16 (little-endian)
+ * - Posts fixed-size frames (e.g. 20 ms = 480 samples) to the main thread
+ *
+ * The node has no outputs, so mic audio is never routed to the speakers.
+ */
+
+export const CAPTURE_SAMPLE_RATE = 24000;
+export const DEFAULT_CAPTURE_FRAME_MS = 20;
+/** Top of the telephone band; cut-off of the low-pass in front of 8 kHz capture. */
+const TELEPHONE_BAND_HZ = 3400;
+
+const PROCESSOR_NAME = "pcm16-capture-processor";
+
+/**
+ * Worklet source. Kept as a string and loaded through a Blob URL so it ships
+ * with this module instead of needing a separate file under /public.
+ */
+const PROCESSOR_SOURCE = `
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSamples } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.frame = new Int16Array(frameSamples);
+    this.frameIndex = 0;
+    // Fractional read position into the current input block, carried across blocks
+    this.position = 0;
+    this.lastSample = 0;
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.frame[this.frameIndex++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.frameIndex === this.frame.length) {
+      const buffer = this.frame.buffer.slice(0);
+      this.port.postMessage(buffer, [buffer]);
+      this.frameIndex = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    if (this.ratio === 1) {
+      for (let i = 0; i < channel.length; i++) this.push(channel[i]);
+      return true;
+    }
+
+    // Linear interpolation; index -1 refers to the last sample of the previous block
+    while (this.position < channel.length - 1) {
+      const index = Math.floor(this.position);
+      const frac = this.position - index;
+      const a = index < 0 ? this.lastSample : channel[index];
+      const b = channel[index + 1];
+      this.push(a + (b - a) * frac);
+      this.position += this.ratio;
+    }
+    this.position -= channel.length;
+    this.lastSample = channel[channel.length - 1];
+    return true;
+  }
+}
+
+registerProcessor("${PROCESSOR_NAME}", Pcm16CaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function loadCaptureProcessor(audioContext: BaseAudioContext): Promise<void> {
+  if (loadedContexts.has(audioContext)) return;
+
+  const moduleUrl = URL.createObjectURL(
+    new Blob([PROCESSOR_SOURCE], { type: "application/javascript" })
+  );
+  try {
+    await audioContext.audioWorklet.addModule(moduleUrl);
+    loadedContexts.add(audioContext);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+}
+
+export interface AudioCaptureOptions {
+  /** Frame length posted to `onFrame`, in milliseconds. */
+  frameDurationMs?: number;
+  /** Rate of the frames. Default CAPTURE_SAMPLE_RATE (24 kHz). */
+  sampleRate?: number;
+  /** Receives one PCM16 mono frame at a time. */
+  onFrame: (pcm16: ArrayBuffer) => void;
+}
+
+export interface AudioCapture {
+  stop: () => void;
+}
+
+/**
+ * Start capturing `mediaStream` as PCM16 frames. Resolves once the worklet is running.
+ */
+export async function startAudioWorkletCapture(
+  audioContext: AudioContext,
+  mediaStream: MediaStream,
+  {
+    frameDurationMs = DEFAULT_CAPTURE_FRAME_MS,
+    sampleRate = CAPTURE_SAMPLE_RATE,
+    onFrame,
+  }: AudioCaptureOptions
+): Promise<AudioCapture> {
+  await loadCaptureProcessor(audioContext);
+
+  const source = audioContext.createMediaStreamSource(mediaStream);
+  // The worklet interpolates linearly, which is fine down to 24 kHz but
+  // aliases badly at 8 kHz without band-limiting first
+  const lowpass =
+    sampleRate < CAPTURE_SAMPLE_RATE
+      ? new BiquadFilterNode(audioContext, {
+          type: "lowpass",
+          frequency: Math.min(TELEPHONE_BAND_HZ, sampleRate / 2),
+        })
+      : null;
+  const node = new AudioWorkletNode(audioContext, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: "explicit",
+    processorOptions: {
+      targetSampleRate: sampleRate,
+      frameSamples: Math.round((sampleRate * frameDurationMs) / 1000),
+    },
+  });
+  node.port.onmessage = (event: MessageEvent<ArrayBuffer>) => onFrame(event.data);
+  if (lowpass) {
+    source.connect(lowpass).connect(node);
+  } else {
+    source.connect(node);
+  }
+
+  if (audioContext.state === "suspended") {
+    await audioContext.resume();
+  }
+
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      lowpass?.disconnect();
+      node.disconnect();
+    },
+  };
+}
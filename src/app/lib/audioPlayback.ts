@@ -0,0 +1,155 @@
+/**
+ * Audio Playback Scheduler
+ *
+ * Plays `response.output_audio.delta` chunks (PCM16 mono) gaplessly by scheduling
+ * each one on the AudioContext timeline right after the previous one, instead
+ * of waiting for `onended` between chunks.
+ *
+ * - A small lead time acts as a jitter buffer when playback (re)starts
+ * - `interrupt()` stops everything immediately (barge-in)
+ * - Playback position is tracked per item so the caller can send
+ *   `conversation.item.truncate` with the audio the user actually heard
+ */
+
+export const PLAYBACK_SAMPLE_RATE = 24000;
+const DEFAULT_JITTER_BUFFER_MS = 60;
+
+export interface AudioPlaybackOptions {
+  sampleRate?: number;
+  /** Delay before the first chunk of a burst starts, to absorb network jitter. */
+  jitterBufferMs?: number;
+}
+
+/**
+ * Where playback stopped. `audioEndMs` is how much of the item was heard.
+ */
+export type PlaybackPosition = {
+  itemId: string;
+  contentIndex: number;
+  audioEndMs: number;
+};
+
+type ScheduledChunk = {
+  source: AudioBufferSourceNode;
+  itemId: string;
+  contentIndex: number;
+  /** AudioContext time the chunk starts playing. */
+  startTime: number;
+  /** Offset of the chunk within its item, in ms. */
+  itemOffsetMs: number;
+  durationMs: number;
+};
+
+export class AudioPlaybackScheduler {
+  private audioContext: AudioContext;
+  private output: GainNode;
+  private sampleRate: number;
+  private jitterBufferMs: number;
+  private chunks: ScheduledChunk[] = [];
+  private nextStartTime = 0;
+  /** Total ms scheduled per item, so the next chunk knows its offset. */
+  private scheduledMs = new Map<string, number>();
+
+  constructor(audioContext: AudioContext, options: AudioPlaybackOptions = {}) {
+    this.audioContext = audioContext;
+    this.sampleRate = options.sampleRate ?? PLAYBACK_SAMPLE_RATE;
+    this.jitterBufferMs = options.jitterBufferMs ?? DEFAULT_JITTER_BUFFER_MS;
+    this.output = audioContext.createGain();
+    this.output.connect(audioContext.destination);
+  }
+
+  get isPlaying(): boolean {
+    return this.chunks.length > 0;
+  }
+
+  /**
+   * Schedule a PCM16 chunk of `itemId` right after whatever is already queued.
+   */
+  enqueue(itemId: string, contentIndex: number, pcm16: ArrayBuffer): void {
+    const samples = new Int16Array(pcm16);
+    if (samples.length === 0) return;
+
+    const audioBuffer = this.audioContext.createBuffer(1, samples.length, this.sampleRate);
+    const channel = audioBuffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) {
+      channel[i] = samples[i] / (samples[i] < 0 ? 0x8000 : 0x7fff);
+    }
+
+    const now = this.audioContext.currentTime;
+    if (this.chunks.length === 0 || this.nextStartTime < now) {
+      // Underrun or first chunk: leave room for the next few chunks to arrive
+      this.nextStartTime = now + this.jitterBufferMs / 1000;
+    }
+
+    const source = this.audioContext.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(this.output);
+    source.start(this.nextStartTime);
+
+    const durationMs = audioBuffer.duration * 1000;
+    const chunk: ScheduledChunk = {
+      source,
+      itemId,
+      contentIndex,
+      startTime: this.nextStartTime,
+      itemOffsetMs: this.scheduledMs.get(itemId) ?? 0,
+      durationMs,
+    };
+    source.onended = () => {
+      this.chunks = this.chunks.filter((candidate) => candidate !== chunk);
+    };
+
+    this.chunks.push(chunk);
+    this.scheduledMs.set(itemId, chunk.itemOffsetMs + durationMs);
+    this.nextStartTime += audioBuffer.duration;
+  }
+
+  /**
+   * The item currently audible and how far into it playback is.
+   */
+  getPosition(): PlaybackPosition | null {
+    const now = this.audioContext.currentTime;
+    const playing =
+      this.chunks.find((chunk) => now < chunk.startTime + chunk.durationMs / 1000) ??
+      this.chunks[this.chunks.length - 1];
+    if (!playing) return null;
+
+    const playedMs = Math.max(0, (now - playing.startTime) * 1000);
+    return {
+      itemId: playing.itemId,
+      contentIndex: playing.contentIndex,
+      audioEndMs: Math.floor(playing.itemOffsetMs + Math.min(playedMs, playing.durationMs)),
+    };
+  }
+
+  /**
+   * Stop all scheduled audio now. Returns where playback stopped, or null if nothing was playing.
+   */
+  interrupt(): PlaybackPosition | null {
+    const position = this.getPosition();
+
+    this.chunks.forEach((chunk) => {
+      chunk.source.onended = null;
+      try {
+        chunk.source.stop();
+      } catch {
+        // Already stopped
+      }
+      chunk.source.disconnect();
+    });
+    this.chunks = [];
+    this.nextStartTime = 0;
+    this.scheduledMs.clear();
+
+    return position;
+  }
+
+  setMuted(muted: boolean): void {
+    this.output.gain.value = muted ? 0 : 1;
+  }
+
+  close(): void {
+    this.interrupt();
+    this.output.disconnect();
+  }
+}
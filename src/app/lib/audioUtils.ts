@@ -81,4 +81,121 @@ export async function convertWebMBlobToWav(blob: Blob): Promise<Blob> {
   }
   const wavBuffer = encodeWAV(combined, audioBuffer.sampleRate);
   return new Blob([wavBuffer], { type: "audio/wav" });
-} 
\ No newline at end of file
+} 
+
+/**
+ * Decodes a WAV file (PCM 8/16/24/32-bit or 32-bit float) to mono samples,
+ * averaging channels like convertWebMBlobToWav does.
+ */
+export function decodeWAV(buffer: ArrayBuffer): { samples: Float32Array; sampleRate: number } {
+  const view = new DataView(buffer);
+  const readString = (offset: number, length: number) =>
+    String.fromCharCode(...new Uint8Array(buffer, offset, length));
+  if (buffer.byteLength < 12 || readString(0, 4) !== "RIFF" || readString(8, 4) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | null =
+    null;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const chunkId = readString(offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === "fmt ") {
+      format = {
+        audioFormat: view.getUint16(body, true),
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the subformat GUID
+      if (format.audioFormat === 0xfffe && chunkSize >= 26) {
+        format.audioFormat = view.getUint16(body + 24, true);
+      }
+    } else if (chunkId === "data") {
+      if (!format) throw new Error("WAV data chunk before fmt chunk");
+      const { audioFormat, channels, sampleRate, bitsPerSample } = format;
+      const isFloat = audioFormat === 3 && bitsPerSample === 32;
+      if (!isFloat && (audioFormat !== 1 || ![8, 16, 24, 32].includes(bitsPerSample))) {
+        throw new Error(`Unsupported WAV format ${audioFormat} with ${bitsPerSample}-bit samples`);
+      }
+
+      const bytesPerSample = bitsPerSample / 8;
+      const frameCount = Math.floor(
+        Math.min(chunkSize, buffer.byteLength - body) / (bytesPerSample * channels)
+      );
+      const readSample = (position: number): number => {
+        if (isFloat) return view.getFloat32(position, true);
+        switch (bitsPerSample) {
+          case 8:
+            return (view.getUint8(position) - 128) / 128;
+          case 16:
+            return view.getInt16(position, true) / 0x8000;
+          case 24:
+            return (
+              ((view.getUint8(position + 2) << 24) |
+                (view.getUint8(position + 1) << 16) |
+                (view.getUint8(position) << 8)) /
+              0x80000000
+            );
+          default:
+            return view.getInt32(position, true) / 0x80000000;
+        }
+      };
+
+      const samples = new Float32Array(frameCount);
+      for (let frame = 0; frame < frameCount; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+          sum += readSample(body + (frame * channels + channel) * bytesPerSample);
+        }
+        samples[frame] = sum / channels;
+      }
+      return { samples, sampleRate };
+    }
+
+    // Chunks are padded to an even size
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+  throw new Error("WAV file has no data chunk");
+}
+
+/**
+ * Resamples by linear interpolation, e.g. a 16 kHz recording to the 24 kHz
+ * the realtime session expects.
+ */
+export function resampleLinear(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+  const length = Math.round((samples.length * toRate) / fromRate);
+  const resampled = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const position = (i * fromRate) / toRate;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    resampled[i] = samples[index] * (1 - fraction) + samples[next] * fraction;
+  }
+  return resampled;
+}
+
+/**
+ * Converts 16-bit PCM samples to floats in [-1, 1].
+ */
+export function pcm16ToFloat32(pcm16: Int16Array): Float32Array {
+  const samples = new Float32Array(pcm16.length);
+  for (let i = 0; i < pcm16.length; i++) {
+    samples[i] = pcm16[i] / 0x8000;
+  }
+  return samples;
+}
+
+/**
+ * Converts floats in [-1, 1] to 16-bit PCM samples.
+ */
+export function float32ToPCM16(samples: Float32Array): Int16Array<ArrayBuffer> {
+  const pcm16 = new Int16Array(samples.length);
+  floatTo16BitPCM(new DataView(pcm16.buffer), 0, samples);
+  return pcm16;
+}
@@ -0,0 +1,148 @@
+/**
+ * Browser Audio I/O
+ *
+ * The microphone and the speakers as a RealtimeClient's audio input and
+ * output (see realtimeClient.ts):
+ * - BrowserAudioInput captures PCM16 at 24 kHz in an AudioWorklet (see
+ *   audioCaptureWorklet.ts), or at 8 kHz compressed to G.711
+ * - BrowserAudioOutput plays deltas gaplessly and interruptibly (see
+ *   audioPlayback.ts), decoding G.711 first
+ *
+ * Both take the AudioContext from a getter so they can share one that is
+ * only created when first needed; whoever owns it closes it.
+ */
+
+import {
+  AudioCapture,
+  CAPTURE_SAMPLE_RATE,
+  DEFAULT_CAPTURE_FRAME_MS,
+  startAudioWorkletCapture,
+} from "./audioCaptureWorklet";
+import { AudioPlaybackScheduler, PLAYBACK_SAMPLE_RATE, PlaybackPosition } from "./audioPlayback";
+import { decodeG711, encodeG711, G711_SAMPLE_RATE, G711Law, getG711LawForCodec } from "./g711";
+import type { RealtimeAudioInput, RealtimeAudioOutput } from "./realtimeClient";
+
+export interface BrowserAudioInputOptions {
+  getAudioContext: () => AudioContext;
+  /** Microphone stream, e.g. one opened for the permission prompt. Default: asks for one. */
+  mediaStream?: MediaStream;
+  /** "pcmu" or "pcma" captures G.711 at 8 kHz; anything else PCM16 at 24 kHz. */
+  codec?: string;
+  /** Size of each input_audio_buffer.append frame (20 or 40 ms work well). */
+  frameDurationMs?: number;
+}
+
+export interface BrowserAudioOutputOptions {
+  getAudioContext: () => AudioContext;
+  /** "pcmu" or "pcma" plays G.711 at 8 kHz; anything else PCM16 at 24 kHz. */
+  codec?: string;
+}
+
+export function createAudioContext(): AudioContext {
+  return new (window.AudioContext || (window as any).webkitAudioContext)();
+}
+
+export class BrowserAudioInput implements RealtimeAudioInput {
+  private getAudioContext: () => AudioContext;
+  private mediaStream: MediaStream | null;
+  private law: G711Law | null;
+  private frameDurationMs: number;
+  private capture: AudioCapture | null = null;
+
+  constructor(options: BrowserAudioInputOptions) {
+    this.getAudioContext = options.getAudioContext;
+    this.mediaStream = options.mediaStream ?? null;
+    this.law = getG711LawForCodec(options.codec);
+    this.frameDurationMs = options.frameDurationMs ?? DEFAULT_CAPTURE_FRAME_MS;
+  }
+
+  /**
+   * Start streaming the microphone as PCM16 24kHz frames, or G.711 8kHz ones.
+   * Nothing is routed to the speakers.
+   */
+  async start(sendFrame: (audio: ArrayBuffer) => void): Promise<void> {
+    const audioContext = this.getAudioContext();
+    if (!this.mediaStream) {
+      this.mediaStream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          channelCount: 1,
+          sampleRate: CAPTURE_SAMPLE_RATE,
+        },
+      });
+    }
+
+    this.capture?.stop();
+    const sampleRate = this.law ? G711_SAMPLE_RATE : CAPTURE_SAMPLE_RATE;
+    this.capture = await startAudioWorkletCapture(audioContext, this.mediaStream, {
+      frameDurationMs: this.frameDurationMs,
+      sampleRate,
+      onFrame: (pcm16) =>
+        sendFrame(this.law ? encodeG711(new Int16Array(pcm16), this.law).buffer : pcm16),
+    });
+
+    console.log(
+      `[BrowserAudioInput] Audio capture started (AudioWorklet, ${audioContext.sampleRate}Hz -> ${sampleRate}Hz ${this.law ?? "pcm16"}, ${this.frameDurationMs}ms frames)`
+    );
+  }
+
+  /**
+   * Stop capturing and release the microphone
+   */
+  stop(): void {
+    this.capture?.stop();
+    this.capture = null;
+    this.mediaStream?.getTracks().forEach((track) => track.stop());
+    this.mediaStream = null;
+    console.log("[BrowserAudioInput] Audio capture stopped");
+  }
+}
+
+export class BrowserAudioOutput implements RealtimeAudioOutput {
+  private getAudioContext: () => AudioContext;
+  private law: G711Law | null;
+  private playback: AudioPlaybackScheduler | null = null;
+  private muted = false;
+
+  constructor(options: BrowserAudioOutputOptions) {
+    this.getAudioContext = options.getAudioContext;
+    this.law = getG711LawForCodec(options.codec);
+  }
+
+  /**
+   * Schedule an audio delta for gapless playback
+   */
+  play(itemId: string, contentIndex: number, audio: ArrayBuffer): void {
+    if (!this.playback) {
+      this.playback = new AudioPlaybackScheduler(this.getAudioContext(), {
+        sampleRate: this.law ? G711_SAMPLE_RATE : PLAYBACK_SAMPLE_RATE,
+      });
+      this.playback.setMuted(this.muted);
+    }
+    this.playback.enqueue(
+      itemId,
+      contentIndex,
+      this.law ? decodeG711(new Uint8Array(audio), this.law).buffer : audio
+    );
+  }
+
+  interrupt(): PlaybackPosition | null {
+    return this.playback?.interrupt() ?? null;
+  }
+
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.playback?.setMuted(muted);
+  }
+
+  setFormat(law: G711Law | null): void {
+    if (law === this.law) return;
+    this.law = law;
+    // The scheduler plays at a fixed rate; the next delta creates a new one
+    this.close();
+  }
+
+  close(): void {
+    this.playback?.close();
+    this.playback = null;
+  }
+}
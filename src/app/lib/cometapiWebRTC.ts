@@ -0,0 +1,370 @@
+/**
+ * CometAPI WebRTC Client for Realtime API
+ *
+ * The WebRTC RealtimeTransport: the microphone and the assistant's voice are
+ * media tracks of an RTCPeerConnection, and events travel over the
+ * `oai-events` data channel. The SDP offer is posted to the realtime HTTP
+ * endpoint (directly, or through /api/realtime/webrtc which swaps the session
+ * token for the real key) and the answer completes the connection.
+ *
+ * Compared to CometAPIWebSocket:
+ * - The codec preference (Opus, PCMU, PCMA) is applied to the audio
+ *   transceiver before the offer (see codecUtils.ts)
+ * - The server plays audio into the track and truncates it on barge-in
+ *   itself; `interrupt()` clears the server's output buffer
+ * - Assistant audio plays through an <audio> element, so it can be recorded
+ *   from `srcObject`
+ * - No reconnect and no replay; a dropped connection ends with `close`
+ */
+
+import { applyCodecPreferences } from "./codecUtils";
+import {
+  parseServerEvent,
+  RealtimeClientEvent,
+  RealtimeClientEventSchema,
+  RealtimeConnectionContext,
+  RealtimeEvent,
+  RealtimeEventType,
+  RealtimeNormalizedServerEvent,
+  RealtimeServerEventOf,
+} from "./realtimeEvents";
+import {
+  detectProtocol,
+  normalizeServerEvent,
+  RealtimeProtocol,
+  translateClientEvent,
+} from "./realtimeProtocol";
+import { RealtimeEventRecorder, toRecordableLocalEvent } from "./realtimeRecorder";
+import type { RealtimeEventHandler, RealtimeTransport } from "./realtimeTransport";
+
+export interface CometAPIWebRTCOptions {
+  /** Sent as the bearer token with the SDP offer. */
+  apiKey: string;
+  model?: string;
+  /** HTTP endpoint that answers SDP offers. */
+  url?: string;
+  /** Same as CometAPIWebSocketOptions.scenario. */
+  scenario?: string;
+  /** Preferred audio codec: "opus", "pcmu" or "pcma". Default "opus". */
+  codec?: string;
+  /** Plays the assistant; a hidden autoplaying element is created if omitted. */
+  audioElement?: HTMLAudioElement;
+  /** Microphone stream; requested on connect if omitted. */
+  mediaStream?: MediaStream;
+  /** Same as CometAPIWebSocketOptions.protocol. */
+  protocol?: RealtimeProtocol | "auto";
+  recorder?: RealtimeEventRecorder;
+}
+
+const DATA_CHANNEL_READY_STATES: Record<RTCDataChannelState, number> = {
+  connecting: 0,
+  open: 1,
+  closing: 2,
+  closed: 3,
+};
+
+export class CometAPIWebRTC implements RealtimeTransport {
+  private peerConnection: RTCPeerConnection | null = null;
+  private channel: RTCDataChannel | null = null;
+  private eventHandlers: Map<string, Set<RealtimeEventHandler>> = new Map();
+  private audioElement: HTMLAudioElement | null;
+  private mediaStream: MediaStream | null;
+  private activeResponseId: string | null = null;
+  private outputAudioPlaying = false;
+  private outputMuted = false;
+  private closedByClient = false;
+  private lastServerError: RealtimeServerEventOf<"error"> | null = null;
+
+  private apiKey: string;
+  private model: string;
+  private url: string;
+  private scenario?: string;
+  private codec: string;
+  private configuredProtocol: RealtimeProtocol | null;
+  private detectedProtocol: RealtimeProtocol | null = null;
+  private recorder: RealtimeEventRecorder | null;
+
+  constructor(options: CometAPIWebRTCOptions) {
+    this.apiKey = options.apiKey;
+    this.model = options.model || "gpt-4o-realtime-preview-2025-06-03";
+    this.url = options.url || "https://api.cometapi.com/v1/realtime";
+    this.scenario = options.scenario;
+    this.codec = options.codec || "opus";
+    this.audioElement = options.audioElement ?? null;
+    this.mediaStream = options.mediaStream ?? null;
+    this.configuredProtocol =
+      options.protocol && options.protocol !== "auto" ? options.protocol : null;
+    this.recorder = options.recorder ?? null;
+  }
+
+  get protocol(): RealtimeProtocol | null {
+    return this.configuredProtocol ?? this.detectedProtocol;
+  }
+
+  get isConnected(): boolean {
+    return this.channel?.readyState === "open";
+  }
+
+  private getConnectionContext(): RealtimeConnectionContext {
+    return {
+      model: this.model,
+      url: this.url,
+      readyState: DATA_CHANNEL_READY_STATES[this.channel?.readyState ?? "closed"],
+      lastServerError: this.lastServerError,
+    };
+  }
+
+  /**
+   * Negotiate the peer connection and wait for the data channel to open
+   */
+  async connect(): Promise<void> {
+    this.closedByClient = false;
+    this.lastServerError = null;
+    this.detectedProtocol = null;
+
+    try {
+      const peerConnection = new RTCPeerConnection();
+      this.peerConnection = peerConnection;
+
+      if (!this.audioElement) {
+        this.audioElement = document.createElement("audio");
+        this.audioElement.autoplay = true;
+      }
+      this.audioElement.muted = this.outputMuted;
+      peerConnection.addEventListener("track", (event) => {
+        this.audioElement!.srcObject = event.streams[0];
+      });
+
+      if (!this.mediaStream) {
+        this.mediaStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      }
+      for (const track of this.mediaStream.getAudioTracks()) {
+        peerConnection.addTrack(track, this.mediaStream);
+      }
+      applyCodecPreferences(peerConnection, this.codec);
+
+      const channel = peerConnection.createDataChannel("oai-events");
+      this.channel = channel;
+      const opened = this.watchChannel(channel);
+      // Awaited below; this only keeps an early failure from going unhandled
+      opened.catch(() => undefined);
+
+      const offer = await peerConnection.createOffer();
+      await peerConnection.setLocalDescription(offer);
+      const answer = await this.postOffer(offer.sdp ?? "");
+      await peerConnection.setRemoteDescription({ type: "answer", sdp: answer });
+
+      peerConnection.addEventListener("connectionstatechange", () => {
+        if (peerConnection.connectionState === "failed") {
+          this.handleConnectionLost("WebRTC connection failed");
+        }
+      });
+
+      await opened;
+      console.log(`[CometAPIWebRTC] Connected (${this.codec})`);
+    } catch (error) {
+      console.error("[CometAPIWebRTC] Connection failed:", error);
+      this.closedByClient = true;
+      this.cleanup();
+      throw error;
+    }
+  }
+
+  private async postOffer(sdp: string): Promise<string> {
+    const endpoint =
+      `${this.url}?model=${encodeURIComponent(this.model)}` +
+      (this.scenario ? `&scenario=${encodeURIComponent(this.scenario)}` : "");
+    console.log("[CometAPIWebRTC] Posting SDP offer to:", endpoint);
+    const response = await fetch(endpoint, {
+      method: "POST",
+      body: sdp,
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/sdp",
+      },
+    });
+    const text = await response.text();
+    if (!response.ok) {
+      let message = text || response.statusText;
+      try {
+        const body = JSON.parse(text);
+        message = body.message ?? body.error?.message ?? message;
+      } catch {
+        // Not JSON; use the text as it is
+      }
+      throw new Error(`CometAPI Realtime rejected the WebRTC offer (${response.status}): ${message}`);
+    }
+    return text;
+  }
+
+  /** Resolves when the channel opens; reports it closing afterwards. */
+  private watchChannel(channel: RTCDataChannel): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let wasOpened = false;
+
+      channel.addEventListener("open", () => {
+        wasOpened = true;
+        resolve();
+      });
+
+      channel.addEventListener("message", (event) => {
+        try {
+          const message = JSON.parse(event.data);
+          this.recorder?.record("server", message);
+          this.handleMessage(message);
+        } catch (error) {
+          console.error("[CometAPIWebRTC] Error parsing message:", error, event.data);
+        }
+      });
+
+      channel.addEventListener("close", () => {
+        if (!wasOpened) {
+          reject(new Error("CometAPI Realtime closed the data channel before the session was ready."));
+          return;
+        }
+        this.handleConnectionLost("Data channel closed");
+      });
+    });
+  }
+
+  private handleConnectionLost(reason: string): void {
+    if (this.closedByClient) return;
+    console.warn(`[CometAPIWebRTC] ⚠️ ${reason}`);
+    this.closedByClient = true;
+    this.emit({
+      type: "close",
+      code: 1006,
+      reason: this.lastServerError?.error?.message || reason,
+      wasClean: false,
+      ...this.getConnectionContext(),
+    });
+    this.cleanup();
+  }
+
+  /**
+   * Same handling as CometAPIWebSocket, minus the audio: that's in the track.
+   */
+  private handleMessage(data: unknown): void {
+    const message = parseServerEvent(data);
+
+    if (message.type === "invalid_server_event") {
+      console.warn(
+        "[CometAPIWebRTC] Ignoring invalid server event:",
+        message.event,
+        message.issues
+      );
+      this.dispatch(message);
+      return;
+    }
+
+    if (!this.protocol) {
+      this.detectedProtocol = detectProtocol(message);
+    }
+
+    const event: RealtimeNormalizedServerEvent = normalizeServerEvent(message);
+    if (!event.timestamp) {
+      event.timestamp = new Date().toISOString();
+    }
+
+    if (event.type === "error") {
+      this.lastServerError = event;
+      console.warn("[CometAPIWebRTC] Server error event:", event);
+    } else if (event.type === "response.created") {
+      this.activeResponseId = event.response?.id ?? "pending";
+    } else if (event.type === "response.done") {
+      this.activeResponseId = null;
+    } else if (event.type === "output_audio_buffer.started") {
+      this.outputAudioPlaying = true;
+    } else if (
+      event.type === "output_audio_buffer.stopped" ||
+      event.type === "output_audio_buffer.cleared"
+    ) {
+      this.outputAudioPlaying = false;
+    }
+
+    this.dispatch(event);
+  }
+
+  sendEvent(event: RealtimeClientEvent): void {
+    if (!this.channel || this.channel.readyState !== "open") {
+      console.log("[CometAPIWebRTC] Cannot send event - data channel not open");
+      return;
+    }
+
+    const validation = RealtimeClientEventSchema.safeParse(event);
+    if (!validation.success) {
+      console.warn(
+        `[CometAPIWebRTC] Sending ${event.type} that doesn't match the event schema:`,
+        validation.error.issues
+      );
+    }
+
+    if (!event.event_id) {
+      event.event_id = crypto.randomUUID();
+    }
+
+    const translated = translateClientEvent(event, this.protocol ?? "ga");
+    console.log("[CometAPIWebRTC] Sending event:", event.type, event);
+    this.recorder?.record("client", translated);
+    this.channel.send(JSON.stringify(translated));
+  }
+
+  on<T extends RealtimeEventType | "*">(eventType: T, handler: RealtimeEventHandler<T>): void {
+    if (!this.eventHandlers.has(eventType)) {
+      this.eventHandlers.set(eventType, new Set());
+    }
+    this.eventHandlers.get(eventType)!.add(handler as unknown as RealtimeEventHandler);
+  }
+
+  off<T extends RealtimeEventType | "*">(eventType: T, handler: RealtimeEventHandler<T>): void {
+    this.eventHandlers.get(eventType)?.delete(handler as unknown as RealtimeEventHandler);
+  }
+
+  emit(event: RealtimeEvent): void {
+    this.recorder?.record("local", toRecordableLocalEvent(event));
+    this.dispatch(event);
+  }
+
+  private dispatch(event: RealtimeEvent): void {
+    this.eventHandlers.get(event.type)?.forEach((handler) => handler(event));
+    this.eventHandlers.get("*")?.forEach((handler) => handler(event));
+  }
+
+  /**
+   * Cancel the in-flight response and drop the audio the server hasn't
+   * played yet; the server truncates the item to what was heard.
+   */
+  interrupt(): void {
+    if (this.activeResponseId) {
+      this.sendEvent({ type: "response.cancel" });
+      this.activeResponseId = null;
+    }
+    if (this.outputAudioPlaying) {
+      this.sendEvent({ type: "output_audio_buffer.clear" });
+      this.outputAudioPlaying = false;
+    }
+  }
+
+  setOutputMuted(muted: boolean): void {
+    this.outputMuted = muted;
+    if (this.audioElement) this.audioElement.muted = muted;
+  }
+
+  close(): void {
+    this.closedByClient = true;
+    this.cleanup();
+  }
+
+  private cleanup(): void {
+    this.channel?.close();
+    this.channel = null;
+    this.peerConnection?.close();
+    this.peerConnection = null;
+    this.mediaStream?.getTracks().forEach((track) => track.stop());
+    this.mediaStream = null;
+    if (this.audioElement) this.audioElement.srcObject = null;
+    this.activeResponseId = null;
+    this.outputAudioPlaying = false;
+    this.eventHandlers.clear();
+  }
+}
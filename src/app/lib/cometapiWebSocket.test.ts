@@ -0,0 +1,279 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import NodeWebSocket, { WebSocketServer } from "ws";
+import { startMockRealtimeServer } from "../api/realtime/mockServer";
+import { CometAPIWebSocket, RealtimeEvent, RealtimeEventHandler } from "./cometapiWebSocket";
+import type { RealtimeEventOf, RealtimeEventType } from "./realtimeEvents";
+import { REALTIME_RELAY_PATH } from "./realtimeServerConfig";
+import { closeServers, listen, waitUntil } from "./testServers";
+
+type TestServer = {
+  server: WebSocketServer;
+  url: string;
+};
+
+let clients: CometAPIWebSocket[] = [];
+
+async function startServer(
+  onConnection: (socket: NodeWebSocket) => void,
+  options: { verifyClient?: () => boolean } = {}
+): Promise<TestServer> {
+  const server = new WebSocketServer({
+    port: 0,
+    path: REALTIME_RELAY_PATH,
+    handleProtocols: () => "realtime",
+    verifyClient: options.verifyClient,
+  });
+  server.on("connection", onConnection);
+  return { server, url: await listen(server) };
+}
+
+function createClient(
+  url: string,
+  options: Partial<ConstructorParameters<typeof CometAPIWebSocket>[0]> = {}
+): CometAPIWebSocket {
+  const client = new CometAPIWebSocket({
+    apiKey: "sk-test",
+    url,
+    // The client is written against the browser WebSocket; `ws` implements the same API
+    createSocket: (socketUrl, protocols) => new NodeWebSocket(socketUrl, protocols),
+    ...options,
+  });
+  clients.push(client);
+  return client;
+}
+
+/**
+ * Resolve with the first event of `type` the client emits.
+ */
+function nextEvent<T extends RealtimeEventType>(
+  client: CometAPIWebSocket,
+  type: T
+): Promise<RealtimeEventOf<T>> {
+  return new Promise((resolve) => {
+    const handler: RealtimeEventHandler<T> = (event) => {
+      client.off(type, handler);
+      resolve(event as RealtimeEventOf<T>);
+    };
+    client.on(type, handler);
+  });
+}
+
+function send(socket: NodeWebSocket, event: Record<string, unknown>) {
+  socket.send(JSON.stringify(event));
+}
+
+beforeEach(() => {
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+  mock.method(console, "error", () => {});
+});
+
+afterEach(async () => {
+  clients.forEach((client) => client.close());
+  await closeServers();
+  clients = [];
+  mock.restoreAll();
+});
+
+describe("CometAPIWebSocket", () => {
+  describe("emit", () => {
+    it("dispatches to handlers of the event type and to wildcard handlers", () => {
+      const client = createClient("ws://127.0.0.1:1/v1/realtime");
+      const specific: RealtimeEvent[] = [];
+      const wildcard: RealtimeEvent[] = [];
+      const other: RealtimeEvent[] = [];
+      client.on("reconnected", (event) => specific.push(event));
+      client.on("*", (event) => wildcard.push(event));
+      client.on("reconnecting", (event) => other.push(event));
+
+      client.emit({ type: "reconnected", attempt: 1 });
+
+      assert.deepEqual(specific, [{ type: "reconnected", attempt: 1 }]);
+      assert.deepEqual(wildcard, [{ type: "reconnected", attempt: 1 }]);
+      assert.deepEqual(other, []);
+    });
+
+    it("stops calling a handler after off()", () => {
+      const client = createClient("ws://127.0.0.1:1/v1/realtime");
+      const received: RealtimeEvent[] = [];
+      const handler = (event: RealtimeEvent) => received.push(event);
+      client.on("*", handler);
+      client.off("*", handler);
+
+      client.emit({ type: "reconnected", attempt: 1 });
+
+      assert.deepEqual(received, []);
+    });
+  });
+
+  describe("connect", () => {
+    it("resolves once the socket opens and dispatches session.created", async () => {
+      const url = await listen(
+        startMockRealtimeServer({ port: 0, protocol: "ga", realtime: false })
+      );
+      const client = createClient(url);
+      const wildcard: string[] = [];
+      client.on("*", (event) => wildcard.push(event.type));
+      const sessionCreated = nextEvent(client, "session.created");
+
+      await client.connect();
+      const event = await sessionCreated;
+
+      assert.equal(client.isConnected, true);
+      assert.equal(event.session.type, "realtime");
+      assert.equal(client.protocol, "ga");
+      assert.ok(wildcard.includes("session.created"));
+    });
+
+    it("rejects and emits an error event when the handshake is refused", async () => {
+      const { url } = await startServer(() => {}, { verifyClient: () => false });
+      const client = createClient(url);
+      const error = nextEvent(client, "error");
+
+      await assert.rejects(client.connect());
+      assert.equal((await error).error.code, "websocket_error");
+      assert.equal(client.isConnected, false);
+    });
+
+    it("stops the microphone tracks when the socket closes before opening", async () => {
+      const { url } = await startServer(() => {}, { verifyClient: () => false });
+      const stopped: string[] = [];
+      const track = (kind: string) => ({ kind, stop: () => stopped.push(kind) });
+      const mediaStream = { getTracks: () => [track("audio")] } as unknown as MediaStream;
+      const client = createClient(url, { mediaStream });
+      const close = nextEvent(client, "close");
+
+      await assert.rejects(client.connect());
+      await close;
+
+      assert.deepEqual(stopped, ["audio"]);
+    });
+
+    it("normalizes beta events and translates outgoing events to beta", async () => {
+      const received: any[] = [];
+      const { url } = await startServer((socket) => {
+        socket.on("message", (data) => received.push(JSON.parse(data.toString())));
+        send(socket, {
+          type: "session.created",
+          session: { id: "sess_1", modalities: ["text", "audio"], input_audio_format: "pcm16" },
+        });
+        send(socket, {
+          type: "response.audio_transcript.delta",
+          response_id: "resp_1",
+          item_id: "item_1",
+          output_index: 0,
+          content_index: 0,
+          delta: "Hello",
+        });
+      });
+      const client = createClient(url);
+      const delta = nextEvent(client, "response.output_audio_transcript.delta");
+
+      await client.connect();
+
+      assert.equal((await delta).delta, "Hello");
+      assert.equal(client.protocol, "beta");
+
+      client.sendEvent({
+        type: "session.update",
+        session: { type: "realtime", output_modalities: ["audio"] },
+      });
+      await waitUntil(() => received.length > 0, "the translated session.update");
+      assert.deepEqual(received[0].session, { modalities: ["text", "audio"] });
+    });
+
+    it("emits invalid_server_event for events that fail validation", async () => {
+      const { url } = await startServer((socket) => {
+        send(socket, { type: "session.created" });
+      });
+      const client = createClient(url);
+      const invalid = nextEvent(client, "invalid_server_event");
+
+      await client.connect();
+
+      const event = await invalid;
+      assert.deepEqual(event.event, { type: "session.created" });
+      assert.ok(event.issues.length > 0);
+    });
+
+    it("dispatches server errors that have no message", async () => {
+      const { url } = await startServer((socket) => {
+        send(socket, { type: "error", error: { type: "server_error", code: "overloaded" } });
+      });
+      const client = createClient(url);
+      const error = nextEvent(client, "error");
+
+      await client.connect();
+
+      assert.deepEqual((await error).error, { type: "server_error", code: "overloaded" });
+    });
+  });
+
+  describe("close handling", () => {
+    it("emits close with the last server error when the server ends the session", async () => {
+      const url = await listen(
+        startMockRealtimeServer({ port: 0, apiKey: "sk-other", realtime: false })
+      );
+      const client = createClient(url);
+      const close = nextEvent(client, "close");
+
+      await client.connect();
+
+      const event = await close;
+      assert.equal(event.code, 1008);
+      assert.equal(event.reason, "Invalid API key");
+      assert.equal(event.lastServerError?.error.code, "invalid_api_key");
+    });
+
+    it("does not reconnect after a normal closure", async () => {
+      const { url } = await startServer((socket) => socket.close(1000, "done"));
+      const client = createClient(url, { reconnect: { initialDelayMs: 5 } });
+      const events: string[] = [];
+      client.on("*", (event) => events.push(event.type));
+      const close = nextEvent(client, "close");
+
+      await client.connect();
+
+      assert.equal((await close).code, 1000);
+      assert.ok(!events.includes("reconnecting"));
+    });
+
+    it("reconnects after an abnormal closure", async () => {
+      let connections = 0;
+      const { url } = await startServer((socket) => {
+        connections++;
+        if (connections === 1) socket.close(1011, "upstream failed");
+      });
+      const client = createClient(url, { reconnect: { initialDelayMs: 5 } });
+      const reconnecting = nextEvent(client, "reconnecting");
+      const reconnected = nextEvent(client, "reconnected");
+
+      await client.connect();
+
+      const attempt = await reconnecting;
+      assert.equal(attempt.code, 1011);
+      assert.equal(attempt.attempt, 1);
+      assert.equal((await reconnected).attempt, 1);
+      assert.equal(connections, 2);
+    });
+
+    it("gives up and emits close after maxAttempts failed reconnects", async () => {
+      const { server, url } = await startServer((socket) => {
+        socket.close(1011, "upstream failed");
+        server.close();
+      });
+      const client = createClient(url, {
+        reconnect: { initialDelayMs: 5, maxAttempts: 2 },
+      });
+      const attempts: number[] = [];
+      client.on("reconnecting", (event) => attempts.push(event.attempt));
+      const close = nextEvent(client, "close");
+
+      await client.connect();
+
+      assert.equal((await close).code, 1011);
+      assert.deepEqual(attempts, [1, 2]);
+    });
+  });
+});
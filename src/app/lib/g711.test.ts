@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import NodeWebSocket from "ws";
+import { startMockRealtimeServer, synthesizeTone } from "../api/realtime/mockServer";
+import {
+  decodeALawSample,
+  decodeG711,
+  decodeMuLawSample,
+  encodeALawSample,
+  encodeG711,
+  encodeMuLawSample,
+  G711Law,
+  getG711LawForCodec,
+  getG711LawForFormat,
+} from "./g711";
+import { translateClientEvent } from "./realtimeProtocol";
+import { createRealtimeSessionUpdate, getAudioFormatForCodec } from "./realtimeSessionConfig";
+import { closeServers, listen, waitUntil } from "./testServers";
+
+describe("G.711", () => {
+  it("matches the reference code points", () => {
+    assert.equal(encodeMuLawSample(0), 0xff);
+    assert.equal(encodeMuLawSample(32767), 0x80);
+    assert.equal(encodeMuLawSample(-32768), 0x00);
+    assert.equal(decodeMuLawSample(0x80), 32124);
+
+    assert.equal(encodeALawSample(0), 0xd5);
+    assert.equal(encodeALawSample(32767), 0xaa);
+    assert.equal(encodeALawSample(-32768), 0x2a);
+    assert.equal(decodeALawSample(0xaa), 32256);
+  });
+
+  for (const law of ["ulaw", "alaw"] as G711Law[]) {
+    it(`round-trips ${law} within one quantization step`, () => {
+      const samples = new Int16Array(2 * 32767 + 1);
+      for (let i = 0; i < samples.length; i++) samples[i] = i - 32767;
+
+      const decoded = decodeG711(encodeG711(samples, law), law);
+
+      for (let i = 0; i < samples.length; i++) {
+        const error = Math.abs(decoded[i] - samples[i]);
+        // Steps double every segment: about 1/16 of the magnitude, 1024 at the top
+        assert.ok(error <= Math.max(16, Math.abs(samples[i]) / 16), `${samples[i]} -> ${decoded[i]}`);
+      }
+    });
+  }
+
+  it("maps codecs and session formats to a law", () => {
+    assert.equal(getG711LawForCodec("PCMU"), "ulaw");
+    assert.equal(getG711LawForCodec("pcma"), "alaw");
+    assert.equal(getG711LawForCodec("opus"), null);
+    assert.equal(getG711LawForFormat({ type: "audio/pcma" }), "alaw");
+    assert.equal(getG711LawForFormat("g711_ulaw"), "ulaw");
+    assert.equal(getG711LawForFormat({ type: "audio/pcm", rate: 24000 }), null);
+  });
+
+  it("asks the session for the codec's format in both dialects", () => {
+    const update = createRealtimeSessionUpdate(null, undefined, getAudioFormatForCodec("pcmu"));
+
+    assert.deepEqual(update.session.audio?.input?.format, { type: "audio/pcmu" });
+    assert.deepEqual(update.session.audio?.output?.format, { type: "audio/pcmu" });
+    const beta = translateClientEvent(update, "beta") as any;
+    assert.equal(beta.session.input_audio_format, "g711_ulaw");
+    assert.equal(beta.session.output_audio_format, "g711_ulaw");
+    assert.deepEqual(getAudioFormatForCodec("opus"), { type: "audio/pcm", rate: 24000 });
+  });
+});
+
+describe("mock realtime server with G.711", () => {
+  let socket: NodeWebSocket | null = null;
+
+  beforeEach(() => {
+    mock.method(console, "log", () => {});
+  });
+
+  afterEach(async () => {
+    socket?.terminate();
+    await closeServers();
+    mock.restoreAll();
+  });
+
+  it("detects speech in μ-law input and answers in μ-law", async () => {
+    const url = await listen(startMockRealtimeServer({ port: 0, protocol: "ga", realtime: false }));
+    socket = new NodeWebSocket(url, [
+      "realtime",
+      "openai-insecure-api-key.sk-test",
+    ]);
+    const events: any[] = [];
+    socket.on("message", (data) => events.push(JSON.parse(data.toString())));
+    await once(socket, "open");
+    const waitFor = async (type: string) => {
+      await waitUntil(() => events.some((event) => event.type === type), type);
+      return events.find((event) => event.type === type);
+    };
+
+    socket.send(
+      JSON.stringify(
+        createRealtimeSessionUpdate(
+          {
+            type: "server_vad",
+            threshold: 0.5,
+            prefix_padding_ms: 300,
+            silence_duration_ms: 200,
+            create_response: true,
+          },
+          undefined,
+          getAudioFormatForCodec("pcmu")
+        )
+      )
+    );
+    const updated = await waitFor("session.updated");
+    assert.deepEqual(updated.session.audio.output.format, { type: "audio/pcmu" });
+
+    const silence = Buffer.from(encodeG711(new Int16Array(800), "ulaw")).toString("base64");
+    for (const audio of [...synthesizeTone(300, 440, "ulaw"), silence, silence, silence]) {
+      socket.send(JSON.stringify({ type: "input_audio_buffer.append", audio }));
+    }
+
+    const stopped = await waitFor("input_audio_buffer.speech_stopped");
+    assert.equal(stopped.audio_end_ms, 300);
+    const delta = await waitFor("response.output_audio.delta");
+    // 100 ms chunks, one byte per 8 kHz sample
+    assert.equal(Buffer.from(delta.delta, "base64").length, 800);
+  });
+});
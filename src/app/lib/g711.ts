@@ -0,0 +1,112 @@
+/**
+ * G.711 Companding
+ *
+ * ITU-T G.711 μ-law (PCMU) and A-law (PCMA): 8-bit logarithmic samples at
+ * 8 kHz, what a call sounds like on a traditional phone line. The realtime API
+ * accepts them as `audio/pcmu` / `audio/pcma` (beta: `g711_ulaw` /
+ * `g711_alaw`), so the WebSocket transport can stream narrow-band audio
+ * instead of PCM16 at 24 kHz.
+ */
+
+export type G711Law = "ulaw" | "alaw";
+
+export const G711_SAMPLE_RATE = 8000;
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+/** Upper bound of each A-law segment, on 13-bit magnitudes. */
+const ALAW_SEGMENT_ENDS = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+
+const G711_FORMATS: Record<string, G711Law> = {
+  "audio/pcmu": "ulaw",
+  "audio/pcma": "alaw",
+  g711_ulaw: "ulaw",
+  g711_alaw: "alaw",
+};
+
+/**
+ * The law for a codec selector value: "pcmu" -> "ulaw", "pcma" -> "alaw",
+ * anything else (e.g. "opus") -> null.
+ */
+export function getG711LawForCodec(codec: string | null | undefined): G711Law | null {
+  const normalized = codec?.toLowerCase();
+  if (normalized === "pcmu") return "ulaw";
+  if (normalized === "pcma") return "alaw";
+  return null;
+}
+
+/**
+ * The law for a session audio format in either dialect (`{ type: "audio/pcmu" }`
+ * or `"g711_ulaw"`), or null for PCM16.
+ */
+export function getG711LawForFormat(format: unknown): G711Law | null {
+  const type = typeof format === "string" ? format : (format as { type?: unknown } | null)?.type;
+  return typeof type === "string" ? (G711_FORMATS[type] ?? null) : null;
+}
+
+export function encodeMuLawSample(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  const magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+export function decodeMuLawSample(byte: number): number {
+  const value = ~byte & 0xff;
+  const exponent = (value >> 4) & 0x07;
+  const magnitude = ((((value & 0x0f) << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+  return value & 0x80 ? -magnitude : magnitude;
+}
+
+export function encodeALawSample(sample: number): number {
+  // A-law works on 13-bit samples; negative values are coded as -x - 1
+  let value = sample >> 3;
+  let mask = 0xd5;
+  if (value < 0) {
+    mask = 0x55;
+    value = -value - 1;
+  }
+
+  const segment = ALAW_SEGMENT_ENDS.findIndex((end) => value <= end);
+  if (segment === -1) return 0x7f ^ mask;
+  const mantissa = (value >> (segment < 2 ? 1 : segment)) & 0x0f;
+  return ((segment << 4) | mantissa) ^ mask;
+}
+
+export function decodeALawSample(byte: number): number {
+  const value = byte ^ 0x55;
+  const segment = (value & 0x70) >> 4;
+  let magnitude = (value & 0x0f) << 4;
+  if (segment === 0) {
+    magnitude += 8;
+  } else {
+    magnitude = (magnitude + 0x108) << (segment - 1);
+  }
+  return value & 0x80 ? magnitude : -magnitude;
+}
+
+/**
+ * Compress PCM16 samples to one G.711 byte each. The sample rate is kept;
+ * resample to 8 kHz first.
+ */
+export function encodeG711(pcm16: Int16Array, law: G711Law): Uint8Array<ArrayBuffer> {
+  const encode = law === "ulaw" ? encodeMuLawSample : encodeALawSample;
+  const encoded = new Uint8Array(pcm16.length);
+  for (let i = 0; i < pcm16.length; i++) {
+    encoded[i] = encode(pcm16[i]);
+  }
+  return encoded;
+}
+
+export function decodeG711(bytes: Uint8Array, law: G711Law): Int16Array<ArrayBuffer> {
+  const decode = law === "ulaw" ? decodeMuLawSample : decodeALawSample;
+  const decoded = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    decoded[i] = decode(bytes[i]);
+  }
+  return decoded;
+}
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RealtimeAgent, tool } from "@openai/agents/realtime";
+import { buildHandoffGraph, getEdgeKey, getPathEdgeKeys } from "./handoffGraph";
+
+const lookup = tool({
+  name: "lookupOrder",
+  description: "Look up an order",
+  parameters: { type: "object", properties: {}, required: [], additionalProperties: false },
+  execute: async () => "found",
+});
+
+function createAgents() {
+  const returns = new RealtimeAgent({ name: "returns", instructions: "", tools: [lookup] });
+  const sales = new RealtimeAgent({ name: "sales", instructions: "" });
+  const human = new RealtimeAgent({ name: "human", instructions: "" });
+  const auth = new RealtimeAgent({ name: "auth", instructions: "", handoffs: [returns, sales] });
+  (returns.handoffs as any).push(auth, human);
+  return { auth, returns, sales, human };
+}
+
+describe("handoff graph", () => {
+  it("has a node per agent, including ones only reached by a handoff", () => {
+    const { auth, returns, sales } = createAgents();
+
+    const graph = buildHandoffGraph([auth, returns, sales]);
+
+    assert.deepEqual(
+      graph.nodes.map((node) => [node.name, node.tools]),
+      [
+        ["auth", []],
+        ["returns", ["lookupOrder"]],
+        ["sales", []],
+        ["human", []],
+      ]
+    );
+    assert.ok(graph.nodes[1].height > graph.nodes[0].height);
+    assert.deepEqual(
+      graph.edges.map((edge) => getEdgeKey(edge.from, edge.to)),
+      ["auth→returns", "auth→sales", "returns→auth", "returns→human"]
+    );
+  });
+
+  it("puts the root agent at the top and keeps nodes inside the drawing", () => {
+    const { auth, returns, sales, human } = createAgents();
+
+    const graph = buildHandoffGraph([auth, returns, sales, human]);
+
+    const [root, ...others] = graph.nodes;
+    assert.ok(others.every((node) => node.y > root.y));
+    for (const node of graph.nodes) {
+      assert.ok(node.x - node.width / 2 >= 0 && node.x + node.width / 2 <= graph.width);
+      assert.ok(node.y - node.height / 2 >= 0 && node.y + node.height / 2 <= graph.height);
+    }
+  });
+
+  it("bends edges that go both ways so they don't overlap", () => {
+    const { auth, returns } = createAgents();
+
+    const graph = buildHandoffGraph([auth, returns]);
+    const path = (from: string, to: string) =>
+      graph.edges.find((edge) => edge.from === from && edge.to === to)!.path;
+
+    assert.match(path("auth", "returns"), /^M [\d.]+ [\d.]+ Q [\d.]+ [\d.]+ [\d.]+ [\d.]+$/);
+    assert.notEqual(path("auth", "returns").split(" Q ")[1], path("returns", "auth").split(" Q ")[1]);
+  });
+
+  it("lists the handoffs taken along a path", () => {
+    assert.deepEqual([...getPathEdgeKeys(["auth", "returns", "auth"])], ["auth→returns", "returns→auth"]);
+    assert.deepEqual([...getPathEdgeKeys(["auth"])], []);
+  });
+});
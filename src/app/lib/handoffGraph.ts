@@ -0,0 +1,147 @@
+import type { RealtimeAgent } from "@openai/agents/realtime";
+import { getHandoffTargets } from "./realtimeHandoffs";
+
+/**
+ * Handoff Graph
+ *
+ * Lays out a scenario's agents as a directed graph of their handoffs for
+ * components/HandoffGraph.tsx. Scenarios tend to be densely connected (every
+ * customerServiceRetail agent can reach every other), so agents sit on a
+ * circle with the root agent at the top rather than in layers.
+ */
+
+const NODE_WIDTH = 220;
+const NODE_HEADER_HEIGHT = 30;
+const NODE_TOOL_HEIGHT = 16;
+const NODE_PADDING = 8;
+const MARGIN = 24;
+/** How far the two directions of a handoff pair bow apart. */
+const EDGE_CURVE = 18;
+
+export interface HandoffGraphNode {
+  name: string;
+  tools: string[];
+  /** Center of the node. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface HandoffGraphEdge {
+  from: string;
+  to: string;
+  /** SVG path from the edge of `from` to the edge of `to`. */
+  path: string;
+}
+
+export interface HandoffGraph {
+  nodes: HandoffGraphNode[];
+  edges: HandoffGraphEdge[];
+  width: number;
+  height: number;
+}
+
+export function getEdgeKey(from: string, to: string): string {
+  return `${from}→${to}`;
+}
+
+/** The handoffs taken along a path of agent names, as edge keys. */
+export function getPathEdgeKeys(path: string[]): Set<string> {
+  const keys = new Set<string>();
+  for (let i = 1; i < path.length; i++) keys.add(getEdgeKey(path[i - 1], path[i]));
+  return keys;
+}
+
+/** Where the line from the node's center towards (dx, dy) leaves the node. */
+function pointOnBorder(node: HandoffGraphNode, dx: number, dy: number) {
+  const scale = Math.min(
+    dx === 0 ? Infinity : node.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : node.height / 2 / Math.abs(dy)
+  );
+  return { x: node.x + dx * scale, y: node.y + dy * scale };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function getEdgePath(from: HandoffGraphNode, to: HandoffGraphNode, curved: boolean): string {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy) || 1;
+  // Bow to the right of the direction of travel so A→B and B→A don't overlap
+  const offset = curved ? EDGE_CURVE : 0;
+  const control = {
+    x: (from.x + to.x) / 2 - (dy / length) * offset,
+    y: (from.y + to.y) / 2 + (dx / length) * offset,
+  };
+  const start = pointOnBorder(from, control.x - from.x, control.y - from.y);
+  const end = pointOnBorder(to, control.x - to.x, control.y - to.y);
+  return `M ${round(start.x)} ${round(start.y)} Q ${round(control.x)} ${round(control.y)} ${round(end.x)} ${round(end.y)}`;
+}
+
+/**
+ * Nodes for the agents (and any agent they hand off to that isn't in the
+ * list), with the first agent at the top, and an edge per handoff.
+ */
+export function buildHandoffGraph(agents: RealtimeAgent[]): HandoffGraph {
+  const byName = new Map<string, RealtimeAgent>();
+  const queue = [...agents];
+  while (queue.length > 0) {
+    const agent = queue.shift()!;
+    if (byName.has(agent.name)) continue;
+    byName.set(agent.name, agent);
+    queue.push(...getHandoffTargets(agent));
+  }
+
+  const sized = [...byName.values()].map((agent) => {
+    const tools = agent.tools.map((tool) => tool.name);
+    return {
+      name: agent.name,
+      tools,
+      width: NODE_WIDTH,
+      height: NODE_HEADER_HEIGHT + tools.length * NODE_TOOL_HEIGHT + (tools.length ? NODE_PADDING : 0),
+    };
+  });
+
+  const tallest = Math.max(0, ...sized.map((node) => node.height));
+  // Far enough apart that neighbours on the circle don't overlap
+  const radius =
+    sized.length < 2
+      ? 0
+      : Math.max(NODE_WIDTH, tallest) / (2 * Math.sin(Math.PI / sized.length)) + MARGIN;
+  const center = { x: radius + NODE_WIDTH / 2 + MARGIN, y: radius + tallest / 2 + MARGIN };
+
+  const nodes: HandoffGraphNode[] = sized.map((node, index) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * index) / sized.length;
+    return {
+      ...node,
+      x: round(center.x + radius * Math.cos(angle)),
+      y: round(center.y + radius * Math.sin(angle)),
+    };
+  });
+  const nodeByName = new Map(nodes.map((node) => [node.name, node]));
+
+  const pairs = new Set<string>();
+  for (const agent of byName.values()) {
+    for (const target of getHandoffTargets(agent)) pairs.add(getEdgeKey(agent.name, target.name));
+  }
+  const edges: HandoffGraphEdge[] = [];
+  const drawn = new Set<string>();
+  for (const agent of byName.values()) {
+    for (const target of getHandoffTargets(agent)) {
+      const key = getEdgeKey(agent.name, target.name);
+      if (target.name === agent.name || drawn.has(key)) continue;
+      drawn.add(key);
+      const curved = pairs.has(getEdgeKey(target.name, agent.name));
+      edges.push({
+        from: agent.name,
+        to: target.name,
+        path: getEdgePath(nodeByName.get(agent.name)!, nodeByName.get(target.name)!, curved),
+      });
+    }
+  }
+
+  return { nodes, edges, width: center.x * 2, height: center.y * 2 };
+}
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { RealtimeAgent, tool } from "@openai/agents/realtime";
+import NodeWebSocket from "ws";
+import { z } from "zod";
+import { MockRealtimeScript, startMockRealtimeServer } from "../api/realtime/mockServer";
+import { decodeWAV } from "./audioUtils";
+import { HeadlessRealtimeSession } from "./headlessSession";
+import { closeServers, listen } from "./testServers";
+
+let sessions: HeadlessRealtimeSession[] = [];
+
+function createAgents(lookups: string[]): RealtimeAgent[] {
+  const concierge = new RealtimeAgent({ name: "concierge", instructions: "Book tables." });
+  const frontDesk = new RealtimeAgent({
+    name: "frontDesk",
+    instructions: "Greet the guest.",
+    handoffs: [concierge],
+    tools: [
+      tool({
+        name: "lookupBooking",
+        description: "Find a booking",
+        parameters: z.object({ id: z.string() }),
+        execute: async ({ id }) => {
+          lookups.push(id);
+          return { id, room: 12 };
+        },
+      }),
+    ],
+  });
+  return [frontDesk, concierge];
+}
+
+async function startSession(
+  script: MockRealtimeScript,
+  options: Partial<ConstructorParameters<typeof HeadlessRealtimeSession>[0]> = {}
+): Promise<HeadlessRealtimeSession> {
+  const url = await listen(
+    startMockRealtimeServer({ port: 0, protocol: "beta", realtime: false, script })
+  );
+  const session = new HeadlessRealtimeSession({
+    apiKey: "sk-test",
+    url,
+    createSocket: (url, protocols) => new NodeWebSocket(url, protocols),
+    agents: createAgents([]),
+    scenario: "hotel",
+    ...options,
+  });
+  sessions.push(session);
+  await session.connect();
+  return session;
+}
+
+beforeEach(() => {
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+});
+
+afterEach(async () => {
+  sessions.forEach((session) => session.close());
+  await closeServers();
+  sessions = [];
+  mock.restoreAll();
+});
+
+describe("HeadlessRealtimeSession", () => {
+  it("waits for tool calls and handoffs before finishing a turn", async () => {
+    const lookups: string[] = [];
+    const session = await startSession(
+      {
+        turns: [
+          { match: "booking", functionCall: { name: "lookupBooking", arguments: { id: "42" } }, reply: "Room 12." },
+          { match: "dinner", functionCall: { name: "transfer_to_concierge" }, reply: "Concierge here." },
+        ],
+      },
+      { agents: createAgents(lookups) }
+    );
+
+    await session.sendText("Where is my booking?");
+    assert.deepEqual(lookups, ["42"]);
+    await session.sendText("I'd like dinner");
+    assert.equal(session.agentName, "concierge");
+
+    const transcript = session.getTranscript();
+    const entries = transcript.entries.map((entry) => {
+      if (entry.type === "message") return `${entry.role} (${entry.agent ?? "-"}): ${entry.text}`;
+      if (entry.type === "agent") return `agent: ${entry.agent}`;
+      if (entry.type === "tool_call") return `call ${entry.name} ${JSON.stringify(entry.arguments)}`;
+      if (entry.type === "tool_result") return `result ${entry.name} ${JSON.stringify(entry.result)}`;
+      return entry.type;
+    });
+    assert.deepEqual(entries, [
+      "agent: frontDesk",
+      "user (-): Where is my booking?",
+      'call lookupBooking {"id":"42"}',
+      'result lookupBooking {"id":"42","room":12}',
+      "assistant (frontDesk): Room 12.",
+      "user (-): I'd like dinner",
+      "agent: concierge",
+      "assistant (concierge): Concierge here.",
+    ]);
+    assert.equal(transcript.scenario, "hotel");
+  });
+
+  it("sends audio turns and keeps the agent's audio", async () => {
+    const session = await startSession({ turns: [{ userTranscript: "Hello there", reply: "Welcome." }] });
+
+    await session.sendAudio(new Int16Array(4800).fill(8000));
+
+    const [user] = session.getTranscript().entries.filter((entry) => entry.type === "message");
+    assert.deepEqual(user.type === "message" && [user.role, user.text], ["user", "Hello there"]);
+    const { samples, sampleRate } = decodeWAV(session.getAgentAudioWav());
+    assert.equal(sampleRate, 24000);
+    assert.ok(samples.length > 0);
+    assert.ok(samples.some((sample) => sample !== 0));
+  });
+
+  it("asks for a new response when an output guardrail trips", async () => {
+    const session = await startSession(
+      { turns: [{ reply: "Our competitor is awful." }, { reply: "How else can I help?" }] },
+      {
+        outputGuardrails: [
+          {
+            name: "no_competitors",
+            execute: async ({ agentOutput }) => ({
+              tripwireTriggered: agentOutput.includes("competitor"),
+              outputInfo: {
+                moderationCategory: agentOutput.includes("competitor") ? "OFF_BRAND" : "NONE",
+                moderationRationale: "",
+              },
+            }),
+          },
+        ],
+      }
+    );
+
+    await session.sendText("What do you think of the other shop?");
+
+    const replies = session
+      .getTranscript()
+      .entries.flatMap((entry) => (entry.type === "message" && entry.role === "assistant" ? [entry.text] : []));
+    assert.equal(replies.at(-1), "How else can I help?");
+  });
+});
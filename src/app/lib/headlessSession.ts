@@ -0,0 +1,416 @@
+import { randomUUID } from "crypto";
+import type { RealtimeAgent } from "@openai/agents/realtime";
+import type { GuardrailResultType, TranscriptItem } from "@/app/types";
+import { PLAYBACK_SAMPLE_RATE, PlaybackPosition } from "./audioPlayback";
+import { encodeWAV, pcm16ToFloat32 } from "./audioUtils";
+import { RealtimeAudioOutput, RealtimeClient, RealtimeClientOptions } from "./realtimeClient";
+import type { RealtimeEvent, RealtimeEventOf, RealtimeEventType } from "./realtimeEvents";
+import { RealtimeGuardrailRunner, RealtimeOutputGuardrail } from "./realtimeGuardrails";
+import { RealtimeConversationHistory } from "./realtimeHistory";
+import { createRealtimeSessionUpdate, getAgentSessionConfig } from "./realtimeSessionConfig";
+import { RealtimeToolRuntime } from "./realtimeToolRuntime";
+import { ExportedTranscript, toExportedTranscript } from "./transcriptExport";
+
+/**
+ * Headless Realtime Session
+ *
+ * A scenario's agents on a realtime session with no browser: what
+ * useRealtimeSession does for the app (tools, handoffs, output guardrails,
+ * the transcript), driven turn by turn from code. Used by the
+ * `realtime-agents` CLI (src/cli/realtimeAgents.ts).
+ * - Turns are explicit: there's no server VAD, so text is sent as a message
+ *   and audio is appended and committed, each followed by response.create
+ * - `sendText` / `sendAudio` resolve once the agents are done with the turn:
+ *   no response in progress, no tool or guardrail still running and no
+ *   follow-up response (after a tool call or a tripped guardrail) pending
+ * - Audio is PCM16 at 24 kHz both ways; the assistant's is kept for `getAgentAudioWav`
+ * - The transcript has the shape of the app's JSON export (see transcriptExport.ts)
+ */
+
+export interface HeadlessSessionOptions
+  extends Pick<RealtimeClientOptions, "apiKey" | "model" | "url" | "createSocket" | "protocol" | "verbose"> {
+  /** The scenario's agents; the first one answers. */
+  agents: RealtimeAgent[];
+  /** Scenario key, recorded in the transcript. */
+  scenario?: string;
+  outputGuardrails?: RealtimeOutputGuardrail[];
+  /** Extra context for tools, like the app's `extraContext`. */
+  context?: Record<string, any>;
+  /** Called for breadcrumbs tools add themselves (e.g. the supervisor's progress). */
+  onBreadcrumb?: (title: string, data?: any) => void;
+}
+
+// Breadcrumb titles the transcript export understands (see transcriptExport.ts)
+const AGENT_PREFIX = "Agent: ";
+const TOOL_CALL_PREFIX = "function call: ";
+const TOOL_RESULT_PREFIX = "function call result: ";
+const TRANSCRIBING_PLACEHOLDER = "[Transcribing...]";
+/** Samples per input_audio_buffer.append: 100 ms at 24 kHz. */
+const AUDIO_APPEND_SAMPLES = 2400;
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { value: text };
+  }
+}
+
+function newTimestampPretty(): string {
+  const now = new Date();
+  const time = now.toLocaleTimeString([], {
+    hour12: false,
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  return `${time}.${now.getMilliseconds().toString().padStart(3, "0")}`;
+}
+
+/**
+ * Keeps the assistant's audio instead of playing it. Nothing is ever
+ * playing, so interrupting reports no position and nothing is truncated.
+ */
+class CollectedAudioOutput implements RealtimeAudioOutput {
+  chunks: Uint8Array[] = [];
+
+  play(itemId: string, contentIndex: number, audio: ArrayBuffer): void {
+    this.chunks.push(new Uint8Array(audio));
+  }
+
+  interrupt(): PlaybackPosition | null {
+    return null;
+  }
+
+  setMuted(): void {}
+
+  close(): void {}
+}
+
+export class HeadlessRealtimeSession {
+  readonly client: RealtimeClient;
+  private options: HeadlessSessionOptions;
+  private agent: RealtimeAgent | null;
+  private history = new RealtimeConversationHistory();
+  private toolRuntime: RealtimeToolRuntime;
+  private guardrailRunner: RealtimeGuardrailRunner;
+  private output = new CollectedAudioOutput();
+  private transcriptItems: TranscriptItem[] = [];
+  private startedAtMs = Date.now();
+  /** Tool and guardrail runs still going. */
+  private pendingWork = new Set<Promise<void>>();
+  private responsesInProgress = 0;
+  /** A response.create was sent (by us, a tool or a guardrail) and hasn't started yet. */
+  private responseExpected = false;
+  private turnWaiters: (() => void)[] = [];
+  private closed = false;
+
+  constructor(options: HeadlessSessionOptions) {
+    this.options = options;
+    this.agent = options.agents[0] ?? null;
+    this.client = new RealtimeClient({
+      apiKey: options.apiKey,
+      model: options.model,
+      url: options.url,
+      createSocket: options.createSocket,
+      protocol: options.protocol,
+      verbose: options.verbose ?? false,
+      audioOutput: this.output,
+    });
+
+    const getContext = () => this.getContext();
+    this.toolRuntime = new RealtimeToolRuntime({
+      transport: this.client,
+      getAgent: () => this.agent,
+      getContext,
+      getHistory: () => this.history.items,
+      onHandoff: async (agent) => {
+        this.agent = agent;
+        await this.sendSessionUpdate();
+      },
+    });
+    this.guardrailRunner = new RealtimeGuardrailRunner({
+      transport: this.client,
+      guardrails: options.outputGuardrails ?? [],
+      getAgent: () => this.agent,
+      getContext,
+      getHistory: () => this.history.items,
+    });
+    this.client.on("*", (event) => this.handleEvent(event));
+  }
+
+  /** The agent currently answering. */
+  get agentName(): string | null {
+    return this.agent?.name ?? null;
+  }
+
+  /**
+   * Connect and configure the root agent. Resolves once the session has
+   * acknowledged the agent's session.update.
+   */
+  async connect(): Promise<void> {
+    if (!this.agent) throw new Error("The scenario has no agents");
+    const updated = this.nextEvent("session.updated");
+    // Rejected as well when connect() fails; that error is the one to report
+    updated.catch(() => {});
+    this.startedAtMs = Date.now();
+    this.addBreadcrumb(`${AGENT_PREFIX}${this.agent.name}`);
+    await this.client.connect();
+    await updated;
+  }
+
+  /**
+   * Send a user message and wait until the agents are done answering it.
+   */
+  sendText(text: string): Promise<void> {
+    this.addTranscriptItem({ type: "MESSAGE", role: "user", title: text, status: "DONE" });
+    this.client.sendEvent({
+      type: "conversation.item.create",
+      item: {
+        type: "message",
+        role: "user",
+        content: [{ type: "input_text", text }],
+      },
+    });
+    return this.requestResponse();
+  }
+
+  /**
+   * Send a user turn as PCM16 at 24 kHz and wait until the agents are done
+   * answering it.
+   */
+  sendAudio(pcm16: Int16Array): Promise<void> {
+    for (let start = 0; start < pcm16.length; start += AUDIO_APPEND_SAMPLES) {
+      const chunk = pcm16.subarray(start, start + AUDIO_APPEND_SAMPLES);
+      this.client.sendAudio(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength));
+    }
+    this.client.sendEvent({ type: "input_audio_buffer.commit" });
+    return this.requestResponse();
+  }
+
+  /**
+   * Everything said so far, in the format of the app's JSON transcript export.
+   */
+  getTranscript(): ExportedTranscript {
+    return toExportedTranscript(this.transcriptItems, {
+      scenario: this.options.scenario,
+      startedAtMs: this.startedAtMs,
+    });
+  }
+
+  /**
+   * The assistant's audio so far as a WAV file, responses back to back.
+   */
+  getAgentAudioWav(): ArrayBuffer {
+    const length = this.output.chunks.reduce((total, chunk) => total + chunk.length, 0);
+    const bytes = new Uint8Array(length - (length % 2));
+    let offset = 0;
+    for (const chunk of this.output.chunks) {
+      bytes.set(chunk.subarray(0, bytes.length - offset), offset);
+      offset += chunk.length;
+    }
+    return encodeWAV(pcm16ToFloat32(new Int16Array(bytes.buffer)), PLAYBACK_SAMPLE_RATE);
+  }
+
+  close(): void {
+    this.closed = true;
+    this.client.close();
+    this.finishTurn();
+  }
+
+  private getContext(): Record<string, any> {
+    return {
+      ...this.options.context,
+      addTranscriptBreadcrumb: (title: string, data?: any) => {
+        this.options.onBreadcrumb?.(title, data);
+        return this.addBreadcrumb(title, data);
+      },
+    };
+  }
+
+  private async sendSessionUpdate(): Promise<void> {
+    if (!this.agent) return;
+    const agentConfig = await getAgentSessionConfig(this.agent, this.options.context);
+    // No turn detection: turns start and end when we say so
+    this.client.sendEvent(createRealtimeSessionUpdate(null, agentConfig));
+  }
+
+  private requestResponse(): Promise<void> {
+    this.responseExpected = true;
+    this.client.sendEvent({ type: "response.create" });
+    return new Promise((resolve) => {
+      this.turnWaiters.push(resolve);
+      this.checkTurnDone();
+    });
+  }
+
+  private nextEvent<T extends RealtimeEventType>(type: T): Promise<RealtimeEventOf<T>> {
+    return new Promise((resolve, reject) => {
+      const handler = (event: RealtimeEvent) => {
+        if (event.type !== type && event.type !== "close") return;
+        this.client.off("*", handler);
+        if (event.type === "close") {
+          reject(new Error(`Realtime session closed (${event.code}): ${event.reason}`));
+        } else {
+          resolve(event as RealtimeEventOf<T>);
+        }
+      };
+      this.client.on("*", handler);
+    });
+  }
+
+  private track(work: Promise<void>, description: string): void {
+    const tracked = work
+      .catch((error) => {
+        console.error(`[HeadlessRealtimeSession] ${description} failed:`, error);
+      })
+      .finally(() => {
+        this.pendingWork.delete(tracked);
+        this.checkTurnDone();
+      });
+    this.pendingWork.add(tracked);
+  }
+
+  private handleEvent(event: RealtimeEvent): void {
+    this.history.handleServerEvent(event);
+
+    switch (event.type) {
+      case "session.created":
+        this.track(this.sendSessionUpdate(), "Configuring the session");
+        break;
+
+      case "input_audio_buffer.committed":
+        this.addTranscriptItem({
+          itemId: event.item_id,
+          type: "MESSAGE",
+          role: "user",
+          title: TRANSCRIBING_PLACEHOLDER,
+          status: "IN_PROGRESS",
+        });
+        break;
+
+      case "conversation.item.input_audio_transcription.completed":
+        this.updateTranscriptItem(event.item_id, { title: event.transcript, status: "DONE" });
+        break;
+
+      case "response.output_audio_transcript.delta": {
+        const item = this.findTranscriptItem(event.item_id);
+        if (item) {
+          item.title = (item.title ?? "") + event.delta;
+        } else {
+          this.addTranscriptItem({
+            itemId: event.item_id,
+            type: "MESSAGE",
+            role: "assistant",
+            title: event.delta,
+            status: "IN_PROGRESS",
+          });
+        }
+        break;
+      }
+
+      case "response.output_audio_transcript.done":
+        if (!this.findTranscriptItem(event.item_id)) {
+          this.addTranscriptItem({ itemId: event.item_id, type: "MESSAGE", role: "assistant" });
+        }
+        this.updateTranscriptItem(event.item_id, {
+          ...(event.transcript !== undefined ? { title: event.transcript } : {}),
+          status: "DONE",
+        });
+        break;
+
+      case "response.created":
+        this.responsesInProgress++;
+        this.responseExpected = false;
+        break;
+
+      case "response.done":
+        this.responsesInProgress = Math.max(0, this.responsesInProgress - 1);
+        break;
+
+      case "agent_tool_start":
+        this.addBreadcrumb(
+          `${TOOL_CALL_PREFIX}${event.functionCall.name}`,
+          parseJson(event.functionCall.arguments)
+        );
+        break;
+
+      case "agent_tool_end":
+        this.addBreadcrumb(`${TOOL_RESULT_PREFIX}${event.functionCall.name}`, parseJson(event.result));
+        break;
+
+      case "agent_handoff":
+        this.addBreadcrumb(`${AGENT_PREFIX}${event.toAgent}`);
+        break;
+
+      case "guardrail_tripped":
+        // The runner cancels the response and asks for a new one
+        this.responseExpected = true;
+        break;
+
+      case "guardrail_result":
+        this.updateTranscriptItem(event.item_id, { guardrailResult: event.guardrailResult });
+        break;
+
+      case "close":
+        this.closed = true;
+        break;
+    }
+
+    if (RealtimeToolRuntime.getFunctionCall(event, this.history.items)) {
+      // The tool's output comes with a response.create
+      this.responseExpected = true;
+    }
+    this.track(this.toolRuntime.handleServerEvent(event), "Tool call");
+    if (this.guardrailRunner.isEnabled) {
+      this.track(this.guardrailRunner.handleServerEvent(event), "Output guardrail");
+    }
+    this.checkTurnDone();
+  }
+
+  private checkTurnDone(): void {
+    const idle =
+      this.responsesInProgress === 0 && !this.responseExpected && this.pendingWork.size === 0;
+    if (idle || this.closed) this.finishTurn();
+  }
+
+  private finishTurn(): void {
+    const waiters = this.turnWaiters;
+    this.turnWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  private findTranscriptItem(itemId: string): TranscriptItem | undefined {
+    return this.transcriptItems.find((item) => item.itemId === itemId);
+  }
+
+  private addTranscriptItem(
+    item: Partial<TranscriptItem> & Pick<TranscriptItem, "type">
+  ): TranscriptItem {
+    const added: TranscriptItem = {
+      itemId: randomUUID(),
+      expanded: false,
+      timestamp: newTimestampPretty(),
+      createdAtMs: Date.now(),
+      status: "DONE",
+      isHidden: false,
+      ...item,
+    };
+    this.transcriptItems.push(added);
+    return added;
+  }
+
+  private updateTranscriptItem(
+    itemId: string,
+    properties: Partial<Omit<TranscriptItem, "guardrailResult">> & {
+      guardrailResult?: GuardrailResultType;
+    }
+  ): void {
+    const item = this.findTranscriptItem(itemId);
+    if (item) Object.assign(item, properties);
+  }
+
+  private addBreadcrumb(title: string, data?: any): string {
+    return this.addTranscriptItem({ type: "BREADCRUMB", title, data }).itemId;
+  }
+}
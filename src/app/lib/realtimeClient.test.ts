@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import NodeWebSocket, { WebSocketServer } from "ws";
+import { startMockRealtimeServer } from "../api/realtime/mockServer";
+import type { PlaybackPosition } from "./audioPlayback";
+import { RealtimeAudioOutput, RealtimeClient } from "./realtimeClient";
+import { REALTIME_RELAY_PATH } from "./realtimeServerConfig";
+import { closeServers, listen, waitUntil } from "./testServers";
+
+/** Collects what it is asked to play; interrupting reports a fixed position. */
+class RecordingOutput implements RealtimeAudioOutput {
+  chunks: { itemId: string; contentIndex: number; bytes: number }[] = [];
+  position: PlaybackPosition | null = null;
+
+  play(itemId: string, contentIndex: number, audio: ArrayBuffer): void {
+    this.chunks.push({ itemId, contentIndex, bytes: audio.byteLength });
+  }
+
+  interrupt(): PlaybackPosition | null {
+    return this.position;
+  }
+
+  setMuted(): void {}
+
+  close(): void {}
+}
+
+let clients: RealtimeClient[] = [];
+
+function createClient(url: string, output: RealtimeAudioOutput): RealtimeClient {
+  const client = new RealtimeClient({
+    apiKey: "sk-test",
+    url,
+    createSocket: (socketUrl, protocols) => new NodeWebSocket(socketUrl, protocols),
+    audioOutput: output,
+  });
+  clients.push(client);
+  return client;
+}
+
+beforeEach(() => {
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+});
+
+afterEach(async () => {
+  clients.forEach((client) => client.close());
+  await closeServers();
+  clients = [];
+  mock.restoreAll();
+});
+
+describe("RealtimeClient in Node", () => {
+  it("runs a session over ws without a global WebSocket", async () => {
+    assert.equal(typeof (globalThis as any).WebSocket, "undefined");
+    const url = await listen(startMockRealtimeServer({ port: 0, protocol: "beta", realtime: false }));
+    const output = new RecordingOutput();
+    const client = createClient(url, output);
+    const events: string[] = [];
+    client.on("*", (event) => events.push(event.type));
+
+    await client.connect();
+    await waitUntil(() => events.includes("session.created"), "session.created");
+    client.sendEvent({ type: "response.create" });
+    await waitUntil(() => events.includes("response.done"), "response.done");
+
+    assert.equal(client.protocol, "beta");
+    assert.ok(events.includes("response.output_audio.delta"));
+    assert.ok(output.chunks.length > 0);
+    // PCM16 at 24 kHz, 100 ms chunks
+    assert.equal(output.chunks[0].bytes, 4800);
+  });
+
+  it("appends audio and truncates to what the output played on barge-in", async () => {
+    const received: any[] = [];
+    const server = new WebSocketServer({
+      port: 0,
+      path: REALTIME_RELAY_PATH,
+      handleProtocols: () => "realtime",
+    });
+    server.on("connection", (socket) => {
+      socket.on("message", (data) => {
+        const event = JSON.parse(data.toString());
+        received.push(event);
+        if (event.type === "input_audio_buffer.append") {
+          socket.send(
+            JSON.stringify({ type: "input_audio_buffer.speech_started", item_id: "item_2", audio_start_ms: 0 })
+          );
+        }
+      });
+    });
+    const output = new RecordingOutput();
+    output.position = { itemId: "item_1", contentIndex: 0, audioEndMs: 150 };
+    const client = createClient(await listen(server), output);
+
+    await client.connect();
+    client.sendAudio(new Uint8Array([1, 2]));
+    await waitUntil(
+      () => received.some((event) => event.type === "conversation.item.truncate"),
+      "conversation.item.truncate"
+    );
+
+    assert.deepEqual(received[0], { type: "input_audio_buffer.append", audio: "AQI=" });
+    assert.deepEqual(received[1], {
+      type: "conversation.item.truncate",
+      event_id: received[1].event_id,
+      item_id: "item_1",
+      content_index: 0,
+      audio_end_ms: 150,
+    });
+  });
+});
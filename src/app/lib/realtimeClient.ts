@@ -0,0 +1,854 @@
+/**
+ * Realtime Protocol Client
+ *
+ * The WebSocket side of a realtime session, without any audio device:
+ * - Works with the browser's WebSocket or the `ws` package (`createSocket`),
+ *   so server code, tests and CLIs can drive sessions headlessly
+ * - API key authentication via WebSocket subprotocol
+ * - Event-based message handling, validated against the typed event model
+ *   (see realtimeEvents.ts)
+ * - Speaks both the beta and GA protocol dialects (see realtimeProtocol.ts)
+ * - Optional auto-reconnect with exponential backoff
+ * - Session recording and offline replay (see realtimeRecorder.ts)
+ *
+ * Audio goes through pluggable adapters, in the session's formats (PCM16 at
+ * 24 kHz, or G.711 bytes): an input that produces frames to append and an
+ * output that plays deltas and knows how much was heard when interrupted.
+ * Without them, `sendAudio` appends audio and deltas only reach the handlers.
+ * See browserAudio.ts for the microphone and speakers, and cometapiWebSocket.ts
+ * for the browser transport built from both.
+ */
+
+import type { PlaybackPosition } from "./audioPlayback";
+import { G711Law, getG711LawForFormat } from "./g711";
+import {
+  parseServerEvent,
+  RealtimeClientEvent,
+  RealtimeClientEventSchema,
+  RealtimeConnectionContext,
+  RealtimeEvent,
+  RealtimeEventOf,
+  RealtimeEventType,
+  RealtimeNormalizedServerEvent,
+  RealtimeServerEventOf,
+} from "./realtimeEvents";
+import {
+  detectProtocol,
+  normalizeServerEvent,
+  RealtimeProtocol,
+  translateClientEvent,
+} from "./realtimeProtocol";
+import {
+  RealtimeEventRecorder,
+  RealtimeRecording,
+  toRecordableLocalEvent,
+} from "./realtimeRecorder";
+import type { RealtimeEventHandler, RealtimeTransport } from "./realtimeTransport";
+
+/** WebSocket ready states; the same numbers in the browser and in `ws`. */
+const SOCKET_OPEN = 1;
+const SOCKET_CLOSED = 3;
+
+export interface RealtimeSocketEventMap {
+  open: unknown;
+  message: { data: unknown };
+  close: { code: number; reason: string; wasClean: boolean };
+  error: { type: string };
+}
+
+/**
+ * The part of a WebSocket the client uses. Both the browser's WebSocket and
+ * the `ws` package's fit.
+ */
+export interface RealtimeSocket {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener<K extends keyof RealtimeSocketEventMap>(
+    type: K,
+    listener: (event: RealtimeSocketEventMap[K]) => void
+  ): void;
+}
+
+export type RealtimeSocketFactory = (url: string, protocols: string[]) => RealtimeSocket;
+
+/**
+ * Produces audio for input_audio_buffer.append, already in the session's
+ * input format.
+ */
+export interface RealtimeAudioInput {
+  /** Resolves once frames are flowing. Started once, kept across reconnects. */
+  start(sendFrame: (audio: ArrayBuffer) => void): Promise<void>;
+  stop(): void;
+}
+
+/**
+ * Plays assistant audio, in the session's output format.
+ */
+export interface RealtimeAudioOutput {
+  play(itemId: string, contentIndex: number, audio: ArrayBuffer): void;
+  /** Stops playback; where it stopped, or null if nothing was playing. */
+  interrupt(): PlaybackPosition | null;
+  setMuted(muted: boolean): void;
+  /** The session switched output format (G.711 law, null for PCM16). */
+  setFormat?(law: G711Law | null): void;
+  close(): void;
+}
+
+export interface RealtimeReconnectOptions {
+  /** Give up (and emit `close`) after this many failed attempts. Default 5. */
+  maxAttempts?: number;
+  /** Delay before the first attempt; doubles after every failure. Default 1000. */
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface RealtimeClientOptions {
+  apiKey: string;
+  model?: string;
+  url?: string;
+  /** Sent as `?scenario=`; the relay checks it against the session token. */
+  scenario?: string;
+  /** Opens the socket. Default: the global WebSocket (browsers, Node 22+). */
+  createSocket?: RealtimeSocketFactory;
+  audioInput?: RealtimeAudioInput;
+  audioOutput?: RealtimeAudioOutput;
+  /**
+   * Reconnect automatically when the socket drops (any close code but 1000).
+   * Emits `reconnecting` before every attempt and `reconnected` once open again.
+   */
+  reconnect?: boolean | RealtimeReconnectOptions;
+  /** Fetches a fresh key for reconnect attempts; defaults to reusing `apiKey`. */
+  getApiKey?: () => Promise<string>;
+  /**
+   * Protocol dialect of the server. "auto" (default) detects it from
+   * session.created; until then outgoing events are sent as GA.
+   */
+  protocol?: RealtimeProtocol | "auto";
+  /** Receives every client, server and local event, e.g. a RealtimeRecorder. */
+  recorder?: RealtimeEventRecorder;
+  /** Log every event to the console. Default true; warnings are always logged. */
+  verbose?: boolean;
+}
+
+export interface RealtimeReplayOptions {
+  /** Playback speed; Infinity replays everything at once. Default 1. */
+  speed?: number;
+  /** Called with recorded client events, which replay doesn't send anywhere. */
+  onClientEvent?: (event: { type: string }) => void;
+}
+
+const DEFAULT_RECONNECT_OPTIONS: Required<RealtimeReconnectOptions> = {
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+const createGlobalWebSocket: RealtimeSocketFactory = (url, protocols) =>
+  new WebSocket(url, protocols);
+
+export function arrayBufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+export class RealtimeClient implements RealtimeTransport {
+  private ws: RealtimeSocket | null = null;
+  private eventHandlers: Map<string, Set<RealtimeEventHandler>> = new Map();
+  private audioInput: RealtimeAudioInput | null;
+  private audioOutput: RealtimeAudioOutput | null;
+  private inputStarted = false;
+  private activeResponseId: string | null = null;
+  private audioPacketsSent: number = 0; // Track audio packets for debugging
+  private lastServerError: RealtimeServerEventOf<"error"> | null = null;
+
+  private apiKey: string;
+  private model: string;
+  private url: string;
+  private scenario?: string;
+  private createSocket: RealtimeSocketFactory;
+  private reconnectOptions: Required<RealtimeReconnectOptions> | null;
+  private getApiKey?: () => Promise<string>;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closedByClient = false;
+  private configuredProtocol: RealtimeProtocol | null;
+  private detectedProtocol: RealtimeProtocol | null = null;
+  private recorder: RealtimeEventRecorder | null;
+  private verbose: boolean;
+  private replayTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopReplay: (() => void) | null = null;
+
+  constructor(options: RealtimeClientOptions) {
+    this.apiKey = options.apiKey;
+    this.model = options.model || "gpt-4o-realtime-preview-2025-06-03";
+    this.url = options.url || "wss://api.cometapi.com/v1/realtime";
+    this.scenario = options.scenario;
+    this.createSocket = options.createSocket ?? createGlobalWebSocket;
+    this.audioInput = options.audioInput ?? null;
+    this.audioOutput = options.audioOutput ?? null;
+    this.reconnectOptions = options.reconnect
+      ? {
+          ...DEFAULT_RECONNECT_OPTIONS,
+          ...(typeof options.reconnect === "object" ? options.reconnect : {}),
+        }
+      : null;
+    this.getApiKey = options.getApiKey;
+    this.configuredProtocol =
+      options.protocol && options.protocol !== "auto" ? options.protocol : null;
+    this.recorder = options.recorder ?? null;
+    this.verbose = options.verbose ?? true;
+  }
+
+  /**
+   * Dialect used for outgoing events; null while auto-detection is pending.
+   */
+  get protocol(): RealtimeProtocol | null {
+    return this.configuredProtocol ?? this.detectedProtocol;
+  }
+
+  /**
+   * Log information without triggering Next.js error overlay
+   * Use this for expected conditions like connection close, not actual errors
+   */
+  private logInfo(message: string, ...args: any[]): void {
+    if (this.verbose) console.log(`ℹ️ ${message}`, ...args);
+  }
+
+  private logDebug(...args: any[]): void {
+    if (this.verbose) console.log(...args);
+  }
+
+  private getConnectionContext(): RealtimeConnectionContext {
+    return {
+      model: this.model,
+      url: this.url,
+      readyState: this.readyState,
+      lastServerError: this.lastServerError,
+    };
+  }
+
+  private getServerErrorMessage(event: RealtimeServerEventOf<"error"> | null): string | null {
+    const error = event?.error;
+    if (!error) return null;
+    return error.message || error.code || error.type || null;
+  }
+
+  private createWebSocketErrorEvent(error: { type: string }): RealtimeServerEventOf<"error"> {
+    const message =
+      this.getServerErrorMessage(this.lastServerError) ||
+      "WebSocket connection to CometAPI Realtime failed.";
+
+    return {
+      type: "error",
+      error: {
+        type: "websocket_error",
+        code: "websocket_error",
+        message,
+        browser_event_type: error.type,
+      },
+      ...this.getConnectionContext(),
+    };
+  }
+
+  /**
+   * Connect to CometAPI Realtime WebSocket
+   */
+  async connect(): Promise<void> {
+    this.closedByClient = false;
+    this.reconnectAttempt = 0;
+    return this.openSocket();
+  }
+
+  private openSocket(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      try {
+        let isSettled = false;
+        let wasOpened = false;
+        const wsUrl =
+          `${this.url}?model=${this.model}` +
+          (this.scenario ? `&scenario=${encodeURIComponent(this.scenario)}` : "");
+        this.lastServerError = null;
+        this.detectedProtocol = null;
+        this.logDebug("[RealtimeClient] Connecting to:", wsUrl);
+
+        const resolveOnce = () => {
+          if (isSettled) return;
+          isSettled = true;
+          resolve();
+        };
+
+        const rejectOnce = (message: string) => {
+          if (isSettled) return;
+          isSettled = true;
+          reject(new Error(message));
+        };
+
+        // Create WebSocket with API key authentication via subprotocol
+        this.ws = this.createSocket(wsUrl, [
+          "realtime",
+          `openai-insecure-api-key.${this.apiKey}`,
+        ]);
+
+        this.ws.addEventListener("open", () => {
+          this.logDebug("[RealtimeClient] Connection established");
+          wasOpened = true;
+
+          // Emitted here, before the new session's first message is handled
+          if (this.reconnectAttempt > 0) {
+            const attempt = this.reconnectAttempt;
+            this.reconnectAttempt = 0;
+            this.emit({ type: "reconnected", attempt });
+          }
+
+          // CRITICAL: Start audio capture as soon as the socket opens (console pattern)
+          // Not awaited: frames start flowing once the input is ready
+          // On reconnect the input is still running and is reused
+          if (this.audioInput && !this.inputStarted) {
+            this.inputStarted = true;
+            this.audioInput.start((audio) => this.sendAudio(audio)).catch((error) => {
+              console.error("[RealtimeClient] Error starting audio input:", error);
+            });
+          }
+
+          resolveOnce();
+        });
+
+        this.ws.addEventListener("message", (event) => {
+          try {
+            const message = JSON.parse(String(event.data));
+            this.recorder?.record("server", message);
+            this.handleMessage(message);
+          } catch (error) {
+            console.error("[RealtimeClient] Error parsing message:", error);
+            console.error("[RealtimeClient] Raw message that failed:", event.data);
+          }
+        });
+
+        this.ws.addEventListener("close", (event) => {
+          console.warn("[RealtimeClient] ⚠️ Connection closed");
+          console.warn("[RealtimeClient] Close code:", event.code);
+          console.warn(
+            "[RealtimeClient] Close reason:",
+            event.reason || "(no reason provided)"
+          );
+          console.warn("[RealtimeClient] Was clean close:", event.wasClean);
+
+          // Provide actionable debugging guidance based on close code
+          if (event.code === 1008) {
+            console.warn(
+              "[RealtimeClient] 🔒 Policy Violation (1008) - Likely authentication failure"
+            );
+            console.warn("[RealtimeClient] Common causes:");
+            console.warn("  - Invalid or expired API key");
+            console.warn("  - API key format mismatch (must start with 'sk-')");
+            console.warn("  - Incorrect authentication subprotocol");
+            console.warn(
+              "[RealtimeClient] 💡 Action: Verify COMETAPI_KEY in your .env file"
+            );
+          } else if (event.code === 1006) {
+            console.warn(
+              "[RealtimeClient] 🔌 Abnormal Closure (1006) - Connection failed to establish"
+            );
+            console.warn("[RealtimeClient] Common causes:");
+            console.warn("  - Network connectivity issues");
+            console.warn("  - Invalid WebSocket URL");
+            console.warn(
+              "  - Firewall or proxy blocking WebSocket connections"
+            );
+            console.warn(
+              "[RealtimeClient] 💡 Action: Check COMETAPI_REALTIME_URL and network settings"
+            );
+          } else if (event.code === 1002) {
+            console.warn(
+              "[RealtimeClient] 🔧 Protocol Error (1002) - Server rejected the connection"
+            );
+            console.warn("[RealtimeClient] Common causes:");
+            console.warn("  - Unsupported model parameter");
+            console.warn("  - Invalid WebSocket subprotocol format");
+            console.warn(
+              "[RealtimeClient] 💡 Action: Verify COMETAPI_MODEL is supported"
+            );
+          }
+
+          console.warn(
+            "[RealtimeClient] 📝 Check CometAPI dashboard for quota/auth issues: https://platform.cometapi.com"
+          );
+
+          const closeEvent: RealtimeEventOf<"close"> = {
+            type: "close",
+            code: event.code,
+            reason: event.reason,
+            wasClean: event.wasClean,
+            ...this.getConnectionContext(),
+          };
+
+          const rejectClosed = () => {
+            const serverError = this.getServerErrorMessage(this.lastServerError);
+            const reason = event.reason || serverError || "WebSocket closed before the session was ready.";
+            rejectOnce(`CometAPI Realtime closed (${event.code}): ${reason}`);
+          };
+
+          // A failed reconnect attempt: reconnect() schedules the next one
+          if (!wasOpened && this.reconnectAttempt > 0) {
+            rejectClosed();
+            return;
+          }
+
+          if (wasOpened && this.shouldReconnect(event.code)) {
+            this.handleConnectionLost(closeEvent);
+            return;
+          }
+
+          this.emit(closeEvent);
+          this.cleanup();
+
+          if (!isSettled && event.code !== 1000) {
+            rejectClosed();
+          }
+        });
+
+        this.ws.addEventListener("error", (error) => {
+          const errorEvent = this.createWebSocketErrorEvent(error);
+          console.error("[RealtimeClient] WebSocket error:", errorEvent);
+          this.emit(errorEvent);
+          rejectOnce(errorEvent.error.message!);
+        });
+      } catch (error) {
+        console.error("[RealtimeClient] Connection failed:", error);
+        reject(error);
+      }
+    });
+  }
+
+  private shouldReconnect(code: number): boolean {
+    return Boolean(this.reconnectOptions) && !this.closedByClient && code !== 1000;
+  }
+
+  /**
+   * The socket dropped mid-session. Keep handlers and the audio pipeline,
+   * drop what was being played and start reconnecting.
+   */
+  private handleConnectionLost(closeEvent: RealtimeEventOf<"close">): void {
+    this.audioOutput?.interrupt();
+    this.activeResponseId = null;
+    this.scheduleReconnect(closeEvent);
+  }
+
+  private scheduleReconnect(closeEvent: RealtimeEventOf<"close">): void {
+    const { maxAttempts, initialDelayMs, maxDelayMs } = this.reconnectOptions!;
+    if (this.closedByClient) return;
+
+    if (this.reconnectAttempt >= maxAttempts) {
+      console.warn(
+        `[RealtimeClient] Giving up after ${this.reconnectAttempt} reconnect attempts`
+      );
+      this.reconnectAttempt = 0;
+      this.emit(closeEvent);
+      this.cleanup();
+      return;
+    }
+
+    this.reconnectAttempt++;
+    const delayMs = Math.min(
+      initialDelayMs * 2 ** (this.reconnectAttempt - 1),
+      maxDelayMs
+    );
+    this.logInfo(
+      `[RealtimeClient] Reconnecting in ${delayMs}ms (attempt ${this.reconnectAttempt}/${maxAttempts})`
+    );
+    this.emit({
+      type: "reconnecting",
+      attempt: this.reconnectAttempt,
+      maxAttempts,
+      delayMs,
+      code: closeEvent.code,
+    });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect(closeEvent);
+    }, delayMs);
+  }
+
+  private async reconnect(closeEvent: RealtimeEventOf<"close">): Promise<void> {
+    if (this.closedByClient) return;
+
+    try {
+      if (this.getApiKey) {
+        this.apiKey = await this.getApiKey();
+      }
+      await this.openSocket();
+    } catch (error) {
+      this.logInfo("[RealtimeClient] Reconnect attempt failed:", error);
+      this.scheduleReconnect(closeEvent);
+    }
+  }
+
+  /**
+   * Validate a server message, detect the dialect and hand it on normalized.
+   * Live messages and replayed ones both come through here.
+   */
+  private handleMessage(data: unknown): void {
+    const message = parseServerEvent(data);
+
+    if (message.type === "invalid_server_event") {
+      console.warn(
+        "[RealtimeClient] Ignoring invalid server event:",
+        message.event,
+        message.issues
+      );
+      this.dispatch(message);
+      return;
+    }
+
+    // Only log non-audio events to reduce console spam
+    if (
+      !message.type.includes("audio") &&
+      !message.type.includes("rate_limits")
+    ) {
+      this.logDebug("[RealtimeClient] 📨 Message:", message.type);
+    }
+
+    if (!this.protocol) {
+      this.detectedProtocol = detectProtocol(message);
+      if (this.detectedProtocol) {
+        this.logDebug(
+          `[RealtimeClient] Server speaks the ${this.detectedProtocol} protocol`
+        );
+      }
+    }
+
+    this.handleServerEvent(normalizeServerEvent(message));
+  }
+
+  /**
+   * Handle incoming server events
+   */
+  private handleServerEvent(event: RealtimeNormalizedServerEvent): void {
+    this.logDebug("[RealtimeClient] Received event:", event.type, event);
+
+    // Add timestamp if not present
+    if (!event.timestamp) {
+      event.timestamp = new Date().toISOString();
+    }
+
+    // Handle error events
+    if (event.type === "error") {
+      this.lastServerError = event;
+      console.warn("[RealtimeClient] Server error event:", event);
+    }
+
+    // Handle audio delta events
+    if (event.type === "response.output_audio.delta") {
+      this.playAudio(event);
+    } else if (event.type === "response.output_audio.done") {
+      this.logDebug("[RealtimeClient] Audio response completed");
+    } else if (event.type === "input_audio_buffer.speech_started") {
+      // Barge-in: the server cancels the response itself, we just stop playback
+      this.truncatePlayback();
+    }
+
+    if (event.type === "response.created") {
+      this.activeResponseId = event.response?.id ?? "pending";
+    } else if (event.type === "response.done") {
+      this.activeResponseId = null;
+    }
+
+    // Emit event to all registered handlers
+    this.dispatch(event);
+  }
+
+  /**
+   * Send event to server
+   */
+  sendEvent(event: RealtimeClientEvent): void {
+    if (!this.ws || this.ws.readyState !== SOCKET_OPEN) {
+      this.logInfo(
+        "[RealtimeClient] Cannot send event - WebSocket not open (this is expected during connection/disconnection)"
+      );
+      return;
+    }
+
+    // Types catch most mistakes; this catches the ones that come through `any`
+    const validation = RealtimeClientEventSchema.safeParse(event);
+    if (!validation.success) {
+      console.warn(
+        `[RealtimeClient] Sending ${event.type} that doesn't match the event schema:`,
+        validation.error.issues
+      );
+    }
+
+    if (!event.event_id) {
+      event.event_id = crypto.randomUUID();
+    }
+
+    const translated = translateClientEvent(event, this.protocol ?? "ga");
+    this.logDebug("[RealtimeClient] Sending event:", event.type, event);
+    this.recorder?.record("client", translated);
+    this.ws.send(JSON.stringify(translated));
+  }
+
+  /**
+   * Append audio in the session's input format to the input buffer. The
+   * audio input calls this for every frame; headless callers can too.
+   */
+  sendAudio(audio: ArrayBuffer | Uint8Array): void {
+    if (!this.ws || this.ws.readyState !== SOCKET_OPEN) return;
+
+    this.audioPacketsSent++;
+    if (this.audioPacketsSent <= 3) {
+      this.logDebug("[RealtimeClient] 📤 Sending audio packet, bytes:", audio.byteLength);
+    }
+
+    // Sent directly: sendEvent logs every event, which is too noisy at 50 frames/s
+    const event = {
+      type: "input_audio_buffer.append",
+      audio: arrayBufferToBase64(audio),
+    };
+    this.recorder?.record("client", event);
+    this.ws.send(JSON.stringify(event));
+  }
+
+  /**
+   * Register event handler
+   */
+  on<T extends RealtimeEventType | "*">(eventType: T, handler: RealtimeEventHandler<T>): void {
+    if (!this.eventHandlers.has(eventType)) {
+      this.eventHandlers.set(eventType, new Set());
+    }
+    // Safe: emit() only calls it with events of `eventType`
+    this.eventHandlers.get(eventType)!.add(handler as unknown as RealtimeEventHandler);
+  }
+
+  /**
+   * Unregister event handler
+   */
+  off<T extends RealtimeEventType | "*">(eventType: T, handler: RealtimeEventHandler<T>): void {
+    const handlers = this.eventHandlers.get(eventType);
+    if (handlers) {
+      handlers.delete(handler as unknown as RealtimeEventHandler);
+    }
+  }
+
+  /**
+   * Emit event to registered handlers
+   * Also used to surface client-side session events (e.g. agent_tool_start)
+   */
+  emit(event: RealtimeEvent): void {
+    this.recorder?.record("local", toRecordableLocalEvent(event));
+    this.dispatch(event);
+  }
+
+  private dispatch(event: RealtimeEvent): void {
+    // Emit to specific event type handlers
+    const handlers = this.eventHandlers.get(event.type);
+    if (handlers) {
+      handlers.forEach((handler) => handler(event));
+    }
+
+    // Emit to wildcard handlers
+    const wildcardHandlers = this.eventHandlers.get("*");
+    if (wildcardHandlers) {
+      wildcardHandlers.forEach((handler) => handler(event));
+    }
+  }
+
+  /**
+   * Hand an audio delta to the output
+   */
+  private playAudio(event: RealtimeServerEventOf<"response.output_audio.delta">): void {
+    if (!this.audioOutput) return;
+    try {
+      this.audioOutput.play(
+        event.item_id,
+        event.content_index ?? 0,
+        base64ToArrayBuffer(event.delta)
+      );
+    } catch (error) {
+      console.error("[RealtimeClient] Error playing audio:", error);
+    }
+  }
+
+  /**
+   * Stop playback immediately and tell the server how much of the
+   * assistant's audio was actually heard.
+   */
+  private truncatePlayback(): void {
+    const position = this.audioOutput?.interrupt();
+    if (!position) return;
+
+    this.logDebug(
+      `[RealtimeClient] Playback interrupted at ${position.audioEndMs}ms of ${position.itemId}`
+    );
+    this.sendEvent({
+      type: "conversation.item.truncate",
+      item_id: position.itemId,
+      content_index: position.contentIndex,
+      audio_end_ms: position.audioEndMs,
+    });
+  }
+
+  /**
+   * Interrupt the assistant: cancel the in-flight response (if any) and cut playback.
+   */
+  interrupt(): void {
+    if (this.activeResponseId) {
+      this.sendEvent({ type: "response.cancel" });
+      this.activeResponseId = null;
+    }
+    this.truncatePlayback();
+  }
+
+  /**
+   * Mute assistant audio locally; the stream keeps flowing so transcripts stay in sync.
+   */
+  setOutputMuted(muted: boolean): void {
+    this.audioOutput?.setMuted(muted);
+  }
+
+  /**
+   * Play a recording back without a connection: server messages take the
+   * same path live ones do (validation, dialect detection, audio playback,
+   * handlers), at their recorded times. Recorded local events are dispatched
+   * as they are, with agents and run contexts reduced to plain JSON (see
+   * toRecordableLocalEvent). Ends with a `close` event; `close()` stops it.
+   */
+  replay(
+    recording: RealtimeRecording,
+    { speed = 1, onClientEvent }: RealtimeReplayOptions = {}
+  ): Promise<void> {
+    this.closedByClient = false;
+    this.lastServerError = null;
+    this.detectedProtocol = null;
+    const { entries } = recording;
+    this.logDebug(
+      `[RealtimeClient] Replaying ${entries.length} recorded events at ${speed}x`
+    );
+
+    return new Promise((resolve) => {
+      const startedAt = performance.now();
+      let index = 0;
+      let closed = false;
+
+      const finish = () => {
+        this.stopReplay = null;
+        if (!closed) {
+          this.dispatch({
+            type: "close",
+            code: 1000,
+            reason: "Replay finished",
+            wasClean: true,
+            ...this.getConnectionContext(),
+          });
+        }
+        this.cleanup();
+        resolve();
+      };
+
+      const play = (entry: RealtimeRecording["entries"][number]) => {
+        if (entry.direction === "server") {
+          this.handleMessage(entry.event);
+        } else if (entry.direction === "client") {
+          this.applyRecordedSessionUpdate(entry.event);
+          onClientEvent?.(entry.event);
+        } else {
+          closed = entry.event.type === "close";
+          this.dispatch(entry.event as unknown as RealtimeEvent);
+        }
+      };
+
+      const step = () => {
+        this.replayTimer = null;
+        const elapsed =
+          speed === Infinity ? Infinity : (performance.now() - startedAt) * speed;
+        while (index < entries.length && entries[index].t <= elapsed && !closed) {
+          play(entries[index++]);
+        }
+        if (index >= entries.length || closed) {
+          finish();
+          return;
+        }
+        this.replayTimer = setTimeout(step, (entries[index].t - elapsed) / speed);
+      };
+
+      this.stopReplay = () => {
+        if (this.replayTimer) clearTimeout(this.replayTimer);
+        this.replayTimer = null;
+        this.stopReplay = null;
+        resolve();
+      };
+      step();
+    });
+  }
+
+  /**
+   * Play recorded audio in the format the recorded session asked for, which
+   * needn't be the output's current one.
+   */
+  private applyRecordedSessionUpdate(event: { type: string; session?: any }): void {
+    if (event.type !== "session.update" || !event.session) return;
+    const format = event.session.audio?.output?.format ?? event.session.output_audio_format;
+    if (!format) return;
+
+    this.audioOutput?.setFormat?.(getG711LawForFormat(format));
+  }
+
+  /**
+   * Close WebSocket connection and cleanup resources
+   */
+  close(): void {
+    this.closedByClient = true;
+    this.stopReplay?.();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.cleanup();
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  /**
+   * Cleanup all resources: stops the audio input and output and drops the
+   * handlers. Subclasses release what the adapters share after calling it.
+   */
+  protected cleanup(): void {
+    this.audioOutput?.close();
+    this.activeResponseId = null;
+    // Also when the socket never opened: the input may hold a microphone
+    // stream handed in before connecting
+    this.audioInput?.stop();
+    this.inputStarted = false;
+    this.eventHandlers.clear();
+  }
+
+  /**
+   * Get current WebSocket ready state
+   */
+  get readyState(): number {
+    return this.ws?.readyState ?? SOCKET_CLOSED;
+  }
+
+  /**
+   * Check if WebSocket is connected
+   */
+  get isConnected(): boolean {
+    return this.ws?.readyState === SOCKET_OPEN;
+  }
+}
@@ -0,0 +1,463 @@
+import { z } from "zod";
+import type { RunContext } from "@openai/agents";
+import type { RealtimeAgent } from "@openai/agents/realtime";
+import type { RealtimeOutputGuardrailResult } from "@/app/agentConfigs/guardrails";
+import type { GuardrailResultType } from "@/app/types";
+import type { RealtimeOutputGuardrail } from "./realtimeGuardrails";
+import type { RealtimeFunctionCall } from "./realtimeToolRuntime";
+
+/**
+ * Realtime Event Model
+ *
+ * Typed schemas for the Realtime API events exchanged over the socket. Both
+ * naming dialects are modelled: the beta names CometAPI currently sends
+ * (`response.audio.delta`, `conversation.item.created`, ...) and their GA
+ * counterparts (`response.output_audio.delta`, `conversation.item.added`, ...).
+ *
+ * - `RealtimeServerEvent` / `RealtimeClientEvent` are discriminated unions on `type`
+ * - Incoming messages are validated against `RealtimeServerEventSchema` in
+ *   RealtimeClient; unknown or malformed ones surface as `invalid_server_event`
+ * - Handlers only see `RealtimeNormalizedServerEvent`: beta events are renamed
+ *   to their GA equivalents first (see realtimeProtocol.ts)
+ * - `RealtimeLocalEvent` covers the events the client emits itself (tool calls,
+ *   handoffs, guardrails, reconnects)
+ *
+ * Objects are `passthrough`: fields we don't model are kept, not stripped.
+ */
+
+/* ----------------------- shared objects ------------------------- */
+
+export const RealtimeErrorSchema = z
+  .object({
+    type: z.string(),
+    code: z.string().nullish(),
+    message: z.string().nullish(),
+    param: z.string().nullish(),
+    event_id: z.string().nullish(),
+  })
+  .passthrough();
+
+export const RealtimeContentPartSchema = z
+  .object({
+    type: z.string(),
+    text: z.string().nullish(),
+    transcript: z.string().nullish(),
+    audio: z.string().nullish(),
+  })
+  .passthrough();
+
+const itemStatus = z.enum(["completed", "incomplete", "in_progress"]);
+
+const itemFields = {
+  id: z.string().optional(),
+  object: z.literal("realtime.item").optional(),
+  status: itemStatus.optional(),
+};
+
+export const RealtimeConversationItemSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      ...itemFields,
+      type: z.literal("message"),
+      role: z.enum(["user", "assistant", "system"]),
+      content: z.array(RealtimeContentPartSchema),
+    })
+    .passthrough(),
+  z
+    .object({
+      ...itemFields,
+      type: z.literal("function_call"),
+      call_id: z.string(),
+      name: z.string(),
+      arguments: z.string().optional(),
+    })
+    .passthrough(),
+  z
+    .object({
+      ...itemFields,
+      type: z.literal("function_call_output"),
+      call_id: z.string(),
+      output: z.string(),
+    })
+    .passthrough(),
+  z
+    .object({
+      ...itemFields,
+      type: z.enum([
+        "mcp_call",
+        "mcp_list_tools",
+        "mcp_approval_request",
+        "mcp_approval_response",
+      ]),
+    })
+    .passthrough(),
+]);
+
+export const RealtimeResponseSchema = z
+  .object({
+    id: z.string().optional(),
+    object: z.literal("realtime.response").optional(),
+    status: z.string().optional(),
+    status_details: z.record(z.unknown()).nullish(),
+    output: z.array(RealtimeConversationItemSchema).optional(),
+    usage: z.record(z.unknown()).nullish(),
+    metadata: z.record(z.unknown()).nullish(),
+  })
+  .passthrough();
+
+/** The server's view of the session; only identifying fields are checked. */
+export const RealtimeSessionSchema = z
+  .object({
+    id: z.string().optional(),
+    object: z.string().optional(),
+    type: z.string().optional(),
+    model: z.string().optional(),
+  })
+  .passthrough();
+
+const modality = z.enum(["text", "audio"]);
+
+export const RealtimeToolDefinitionSchema = z
+  .object({
+    type: z.string(),
+    name: z.string().optional(),
+    description: z.string().optional(),
+    parameters: z.record(z.unknown()).optional(),
+  })
+  .passthrough();
+
+const audioConfigFields = {
+  format: z.record(z.unknown()).optional(),
+  turn_detection: z.record(z.unknown()).nullish(),
+  transcription: z.record(z.unknown()).nullish(),
+  noise_reduction: z.record(z.unknown()).nullish(),
+  voice: z.string().optional(),
+  speed: z.number().optional(),
+};
+
+/**
+ * Session config sent in `session.update`. GA nests audio settings under
+ * `audio.input` / `audio.output`; beta keeps them at the top level.
+ */
+export const RealtimeSessionConfigSchema = z
+  .object({
+    type: z.enum(["realtime", "transcription"]).optional(),
+    model: z.string().optional(),
+    instructions: z.string().optional(),
+    output_modalities: z.array(modality).optional(),
+    tools: z.array(RealtimeToolDefinitionSchema).optional(),
+    tool_choice: z
+      .union([z.enum(["auto", "none", "required"]), z.record(z.unknown())])
+      .optional(),
+    temperature: z.number().optional(),
+    max_output_tokens: z.union([z.number(), z.literal("inf")]).optional(),
+    audio: z
+      .object({
+        input: z.object(audioConfigFields).passthrough().optional(),
+        output: z.object(audioConfigFields).passthrough().optional(),
+      })
+      .passthrough()
+      .optional(),
+    // Beta
+    modalities: z.array(modality).optional(),
+    voice: z.string().optional(),
+    input_audio_format: z.string().optional(),
+    output_audio_format: z.string().optional(),
+    input_audio_transcription: z.record(z.unknown()).nullish(),
+    turn_detection: z.record(z.unknown()).nullish(),
+    max_response_output_tokens: z.union([z.number(), z.literal("inf")]).optional(),
+  })
+  .passthrough();
+
+/* ----------------------- server events ------------------------- */
+
+function event<T extends string, S extends z.ZodRawShape>(type: T, shape: S) {
+  return z
+    .object({ type: z.literal(type), event_id: z.string().optional(), ...shape })
+    .passthrough();
+}
+
+const itemEventFields = {
+  previous_item_id: z.string().nullish(),
+  item: RealtimeConversationItemSchema,
+};
+
+const outputItemFields = {
+  response_id: z.string().optional(),
+  output_index: z.number().optional(),
+  item: RealtimeConversationItemSchema,
+};
+
+const contentFields = {
+  response_id: z.string().optional(),
+  item_id: z.string(),
+  output_index: z.number().optional(),
+  content_index: z.number().optional(),
+};
+
+const inputTranscriptionFields = {
+  item_id: z.string(),
+  content_index: z.number().optional(),
+};
+
+export const RealtimeServerEventSchema = z.discriminatedUnion("type", [
+  event("error", { error: RealtimeErrorSchema }),
+
+  event("session.created", { session: RealtimeSessionSchema }),
+  event("session.updated", { session: RealtimeSessionSchema }),
+  event("transcription_session.updated", { session: RealtimeSessionSchema }),
+  event("conversation.created", {
+    conversation: z.object({ id: z.string().optional() }).passthrough(),
+  }),
+
+  event("conversation.item.created", itemEventFields),
+  event("conversation.item.added", itemEventFields),
+  event("conversation.item.done", itemEventFields),
+  event("conversation.item.retrieved", { item: RealtimeConversationItemSchema }),
+  event("conversation.item.truncated", {
+    item_id: z.string(),
+    content_index: z.number(),
+    audio_end_ms: z.number(),
+  }),
+  event("conversation.item.deleted", { item_id: z.string() }),
+
+  event("conversation.item.input_audio_transcription.delta", {
+    ...inputTranscriptionFields,
+    delta: z.string(),
+  }),
+  event("conversation.item.input_audio_transcription.completed", {
+    ...inputTranscriptionFields,
+    transcript: z.string(),
+  }),
+  event("conversation.item.input_audio_transcription.segment", {
+    ...inputTranscriptionFields,
+    text: z.string(),
+  }),
+  event("conversation.item.input_audio_transcription.failed", {
+    ...inputTranscriptionFields,
+    error: RealtimeErrorSchema,
+  }),
+
+  event("input_audio_buffer.committed", {
+    previous_item_id: z.string().nullish(),
+    item_id: z.string(),
+  }),
+  event("input_audio_buffer.cleared", {}),
+  event("input_audio_buffer.speech_started", {
+    item_id: z.string(),
+    audio_start_ms: z.number().optional(),
+  }),
+  event("input_audio_buffer.speech_stopped", {
+    item_id: z.string(),
+    audio_end_ms: z.number().optional(),
+  }),
+  event("input_audio_buffer.timeout_triggered", {
+    item_id: z.string(),
+    audio_start_ms: z.number().optional(),
+    audio_end_ms: z.number().optional(),
+  }),
+  event("output_audio_buffer.started", { response_id: z.string().optional() }),
+  event("output_audio_buffer.stopped", { response_id: z.string().optional() }),
+  event("output_audio_buffer.cleared", { response_id: z.string().optional() }),
+
+  event("response.created", { response: RealtimeResponseSchema }),
+  event("response.done", { response: RealtimeResponseSchema }),
+  event("response.output_item.added", outputItemFields),
+  event("response.output_item.done", outputItemFields),
+  event("response.content_part.added", { ...contentFields, part: RealtimeContentPartSchema }),
+  event("response.content_part.done", { ...contentFields, part: RealtimeContentPartSchema }),
+
+  // Beta names
+  event("response.text.delta", { ...contentFields, delta: z.string() }),
+  event("response.text.done", { ...contentFields, text: z.string() }),
+  event("response.audio_transcript.delta", { ...contentFields, delta: z.string() }),
+  event("response.audio_transcript.done", { ...contentFields, transcript: z.string() }),
+  event("response.audio.delta", { ...contentFields, delta: z.string() }),
+  event("response.audio.done", contentFields),
+
+  // GA names
+  event("response.output_text.delta", { ...contentFields, delta: z.string() }),
+  event("response.output_text.done", { ...contentFields, text: z.string() }),
+  event("response.output_audio_transcript.delta", { ...contentFields, delta: z.string() }),
+  event("response.output_audio_transcript.done", { ...contentFields, transcript: z.string() }),
+  event("response.output_audio.delta", { ...contentFields, delta: z.string() }),
+  event("response.output_audio.done", contentFields),
+
+  event("response.function_call_arguments.delta", {
+    response_id: z.string().optional(),
+    item_id: z.string(),
+    output_index: z.number().optional(),
+    call_id: z.string(),
+    delta: z.string(),
+  }),
+  event("response.function_call_arguments.done", {
+    response_id: z.string().optional(),
+    item_id: z.string(),
+    output_index: z.number().optional(),
+    call_id: z.string(),
+    // GA only; beta callers look the name up from the output item
+    name: z.string().optional(),
+    arguments: z.string(),
+  }),
+
+  event("rate_limits.updated", {
+    rate_limits: z.array(
+      z
+        .object({
+          name: z.string(),
+          limit: z.number(),
+          remaining: z.number(),
+          reset_seconds: z.number(),
+        })
+        .passthrough()
+    ),
+  }),
+]);
+
+/* ----------------------- client events ------------------------- */
+
+export const RealtimeClientEventSchema = z.discriminatedUnion("type", [
+  event("session.update", { session: RealtimeSessionConfigSchema }),
+  event("transcription_session.update", { session: RealtimeSessionConfigSchema }),
+
+  event("input_audio_buffer.append", { audio: z.string() }),
+  event("input_audio_buffer.commit", {}),
+  event("input_audio_buffer.clear", {}),
+  event("output_audio_buffer.clear", {}),
+
+  event("conversation.item.create", {
+    previous_item_id: z.string().nullish(),
+    item: RealtimeConversationItemSchema,
+  }),
+  event("conversation.item.retrieve", { item_id: z.string() }),
+  event("conversation.item.truncate", {
+    item_id: z.string(),
+    content_index: z.number(),
+    audio_end_ms: z.number(),
+  }),
+  event("conversation.item.delete", { item_id: z.string() }),
+
+  event("response.create", {
+    response: RealtimeSessionConfigSchema.extend({
+      conversation: z.string().optional(),
+      metadata: z.record(z.unknown()).nullish(),
+      input: z.array(RealtimeConversationItemSchema).optional(),
+    })
+      .passthrough()
+      .optional(),
+  }),
+  event("response.cancel", { response_id: z.string().optional() }),
+]);
+
+/* ----------------------- local events ------------------------- */
+
+export type RealtimeConnectionContext = {
+  model: string;
+  url: string;
+  readyState: number;
+  lastServerError: RealtimeServerEventOf<"error"> | null;
+};
+
+/**
+ * Events RealtimeClient and its helpers emit themselves; never sent by the server.
+ */
+export type RealtimeLocalEvent =
+  | ({ type: "close"; code: number; reason: string; wasClean: boolean } & RealtimeConnectionContext)
+  | { type: "reconnecting"; attempt: number; maxAttempts: number; delayMs: number; code: number }
+  | { type: "reconnected"; attempt: number }
+  | {
+      type: "invalid_server_event";
+      /** The message as received. */
+      event: unknown;
+      issues: z.ZodIssue[];
+    }
+  | {
+      type: "agent_tool_start";
+      details: RunContext<any>;
+      agent: RealtimeAgent;
+      functionCall: RealtimeFunctionCall;
+    }
+  | {
+      type: "agent_tool_end";
+      details: RunContext<any>;
+      agent: RealtimeAgent;
+      functionCall: RealtimeFunctionCall;
+      result: string;
+    }
+  | {
+      type: "agent_handoff";
+      item: RunContext<any>;
+      fromAgent: string;
+      toAgent: string;
+      functionCall: RealtimeFunctionCall;
+    }
+  | {
+      type: "guardrail_tripped";
+      details: RunContext<any>;
+      agent: RealtimeAgent | null;
+      guardrail: {
+        name: string;
+        result: { guardrail: RealtimeOutputGuardrail; output: RealtimeOutputGuardrailResult };
+      };
+    }
+  | { type: "guardrail_result"; item_id: string; guardrailResult: GuardrailResultType };
+
+/* ----------------------- types ------------------------- */
+
+export type RealtimeServerEvent = z.infer<typeof RealtimeServerEventSchema>;
+
+/** Server events that only exist in the beta dialect and are renamed on the way in. */
+export type RealtimeBetaServerEventType =
+  | "conversation.item.created"
+  | "transcription_session.updated"
+  | "response.text.delta"
+  | "response.text.done"
+  | "response.audio_transcript.delta"
+  | "response.audio_transcript.done"
+  | "response.audio.delta"
+  | "response.audio.done";
+
+export type RealtimeNormalizedServerEvent = Exclude<
+  RealtimeServerEvent,
+  { type: RealtimeBetaServerEventType }
+>;
+export type RealtimeClientEvent = z.input<typeof RealtimeClientEventSchema>;
+export type RealtimeConversationItem = z.infer<typeof RealtimeConversationItemSchema>;
+export type RealtimeContentPart = z.infer<typeof RealtimeContentPartSchema>;
+export type RealtimeSessionConfig = z.input<typeof RealtimeSessionConfigSchema>;
+
+/** Everything a `RealtimeClient` handler can receive. */
+export type RealtimeEvent = RealtimeNormalizedServerEvent | RealtimeLocalEvent;
+export type RealtimeEventType = RealtimeEvent["type"];
+
+export type RealtimeServerEventOf<T extends RealtimeNormalizedServerEvent["type"]> = Extract<
+  RealtimeNormalizedServerEvent,
+  { type: T }
+>;
+export type RealtimeClientEventOf<T extends RealtimeClientEvent["type"]> = Extract<
+  RealtimeClientEvent,
+  { type: T }
+>;
+export type RealtimeEventOf<T extends RealtimeEventType> = Extract<RealtimeEvent, { type: T }>;
+
+export type RealtimeTranscriptDeltaEvent = RealtimeServerEventOf<
+  | "conversation.item.input_audio_transcription.delta"
+  | "response.output_audio_transcript.delta"
+>;
+
+export type RealtimeTranscriptDoneEvent = RealtimeServerEventOf<
+  | "conversation.item.input_audio_transcription.completed"
+  | "response.output_audio_transcript.done"
+>;
+
+/**
+ * Validate a decoded server message. Unknown event types and payloads that
+ * don't match their schema come back as an `invalid_server_event`.
+ */
+export function parseServerEvent(
+  message: unknown
+): RealtimeServerEvent | RealtimeEventOf<"invalid_server_event"> {
+  const result = RealtimeServerEventSchema.safeParse(message);
+  if (result.success) return result.data;
+  return { type: "invalid_server_event", event: message, issues: result.error.issues };
+}
@@ -0,0 +1,196 @@
+import { RunContext } from "@openai/agents";
+import type { RealtimeAgent, RealtimeItem } from "@openai/agents/realtime";
+import type {
+  RealtimeOutputGuardrailArgs,
+  RealtimeOutputGuardrailResult,
+} from "@/app/agentConfigs/guardrails";
+import type { GuardrailResultType } from "@/app/types";
+import type { RealtimeTransport } from "./realtimeTransport";
+import type { RealtimeEvent } from "./realtimeEvents";
+
+/**
+ * Realtime Output Guardrails
+ *
+ * Runs output guardrails (e.g. `createModerationGuardrail`) against the
+ * assistant's audio transcript while it streams, the way `RealtimeSession`
+ * does in the OpenAI Agents SDK:
+ * - Guardrails run every `debounceTextLength` characters and on the final transcript
+ * - Results are surfaced as `guardrail_result` events for the transcript chip
+ * - A tripped guardrail emits `guardrail_tripped`, cancels the response and
+ *   injects a corrective system message so the model redirects the conversation
+ */
+
+export interface RealtimeOutputGuardrail {
+  name: string;
+  policyHint?: string;
+  execute: (args: RealtimeOutputGuardrailArgs) => Promise<RealtimeOutputGuardrailResult>;
+}
+
+export interface RealtimeGuardrailRunnerOptions {
+  transport: RealtimeTransport;
+  guardrails: RealtimeOutputGuardrail[];
+  getAgent: () => RealtimeAgent | null;
+  getContext: () => Record<string, any>;
+  getHistory: () => RealtimeItem[];
+  debounceTextLength?: number;
+}
+
+type GuardrailRun = {
+  guardrail: RealtimeOutputGuardrail;
+  output: RealtimeOutputGuardrailResult;
+};
+
+const DEFAULT_DEBOUNCE_TEXT_LENGTH = 100;
+
+/**
+ * Same wording as the SDK, so `useHandleSessionHistory` can recognise the
+ * message via its "Failure Details" marker and render it as a breadcrumb.
+ */
+export function getGuardrailFeedbackMessage(run: GuardrailRun): string {
+  return `
+⚠️ Your last answer was blocked.
+Failed Guardrail Reason: ${run.guardrail.policyHint ?? run.guardrail.name}.
+Failure Details: ${JSON.stringify(run.output.outputInfo ?? {})}.
+Please respond again following policy. Apologize for not being able to answer the question (while avoiding the specific reason) and divert discussion back to an approved topic immediately and not invite more discussion.
+`.trim();
+}
+
+function toGuardrailResult(runs: GuardrailRun[], text: string): GuardrailResultType {
+  const moderation = runs
+    .map((run) => run.output.outputInfo)
+    .find((info) => info && "moderationCategory" in info);
+
+  return {
+    status: "DONE",
+    category: moderation?.moderationCategory ?? "NONE",
+    rationale: moderation?.moderationRationale ?? "",
+    testText: moderation?.testText ?? text,
+  };
+}
+
+export class RealtimeGuardrailRunner {
+  private options: RealtimeGuardrailRunnerOptions;
+  private transcripts: Record<string, string> = {};
+  private lastRunIndex: Record<string, number> = {};
+  private trippedItemIds = new Set<string>();
+
+  constructor(options: RealtimeGuardrailRunnerOptions) {
+    this.options = options;
+  }
+
+  get isEnabled(): boolean {
+    return this.options.guardrails.length > 0;
+  }
+
+  async handleServerEvent(event: RealtimeEvent): Promise<void> {
+    if (!this.isEnabled) return;
+
+    if (event.type === "response.output_audio_transcript.delta") {
+      await this.handleTranscriptDelta(event.item_id, event.delta);
+    } else if (event.type === "response.output_audio_transcript.done") {
+      await this.handleTranscriptDone(event.item_id, event.transcript);
+    }
+  }
+
+  private async handleTranscriptDelta(itemId: string, delta: string): Promise<void> {
+    const isFirstDelta = !(itemId in this.transcripts);
+    const text = (this.transcripts[itemId] ?? "") + delta;
+    this.transcripts[itemId] = text;
+
+    if (isFirstDelta) {
+      this.emitResult(itemId, { status: "IN_PROGRESS" });
+    }
+
+    const debounceTextLength =
+      this.options.debounceTextLength ?? DEFAULT_DEBOUNCE_TEXT_LENGTH;
+    if (debounceTextLength <= 0) return;
+
+    // Don't cancel in-flight runs; the first one to trip wins
+    const runIndex = Math.floor(text.length / debounceTextLength);
+    if (runIndex > (this.lastRunIndex[itemId] ?? 0)) {
+      this.lastRunIndex[itemId] = runIndex;
+      await this.run(itemId, text);
+    }
+  }
+
+  private async handleTranscriptDone(itemId: string, transcript?: string): Promise<void> {
+    const text = transcript ?? this.transcripts[itemId] ?? "";
+    delete this.transcripts[itemId];
+    delete this.lastRunIndex[itemId];
+    if (!text.trim()) return;
+
+    const runs = await this.run(itemId, text);
+    if (runs && !this.trippedItemIds.has(itemId)) {
+      this.emitResult(itemId, toGuardrailResult(runs, text));
+    }
+  }
+
+  /**
+   * Run all guardrails on `text`. Returns the runs, or null if the item was tripped.
+   */
+  private async run(itemId: string, text: string): Promise<GuardrailRun[] | null> {
+    if (this.trippedItemIds.has(itemId)) return null;
+
+    const { guardrails, getAgent, getContext, getHistory } = this.options;
+    const history = JSON.parse(JSON.stringify(getHistory()));
+    const runContext = new RunContext<any>({ ...getContext(), history });
+    const agent = getAgent();
+
+    const runs: GuardrailRun[] = await Promise.all(
+      guardrails.map(async (guardrail) => ({
+        guardrail,
+        output: await guardrail.execute({
+          agentOutput: text,
+          agent,
+          context: runContext,
+        }),
+      }))
+    );
+
+    const tripped = runs.find((run) => run.output.tripwireTriggered);
+    if (!tripped) return runs;
+
+    // Another run for the same item may have tripped while we were waiting
+    if (this.trippedItemIds.has(itemId)) return null;
+    this.trippedItemIds.add(itemId);
+    this.trip(tripped, runContext, agent);
+    return null;
+  }
+
+  private trip(run: GuardrailRun, runContext: RunContext<any>, agent: RealtimeAgent | null) {
+    const { transport } = this.options;
+    console.warn(
+      `[RealtimeGuardrailRunner] Guardrail ${run.guardrail.name} tripped:`,
+      run.output.outputInfo
+    );
+
+    transport.emit({
+      type: "guardrail_tripped",
+      details: runContext,
+      agent,
+      guardrail: {
+        name: run.guardrail.name,
+        result: { guardrail: run.guardrail, output: run.output },
+      },
+    });
+
+    transport.sendEvent({ type: "response.cancel" });
+    transport.sendEvent({
+      type: "conversation.item.create",
+      item: {
+        type: "message",
+        role: "system",
+        content: [{ type: "input_text", text: getGuardrailFeedbackMessage(run) }],
+      },
+    });
+    transport.sendEvent({ type: "response.create" });
+  }
+
+  private emitResult(itemId: string, guardrailResult: GuardrailResultType) {
+    this.options.transport.emit({
+      type: "guardrail_result",
+      item_id: itemId,
+      guardrailResult,
+    });
+  }
+}
@@ -0,0 +1,86 @@
+import type { RealtimeAgent } from "@openai/agents/realtime";
+import type { RealtimeFunctionToolDefinition } from "./realtimeSessionConfig";
+
+/**
+ * Realtime Agent Handoffs
+ *
+ * Synthesizes a `transfer_to_<agent>` function tool for every entry in an
+ * agent's `handoffs`, mirroring what `RealtimeSession` does in the OpenAI
+ * Agents SDK. When the model calls one of these tools, the tool runtime
+ * switches the session to the target agent (see RealtimeToolRuntime).
+ */
+
+const TRANSFER_TOOL_PREFIX = "transfer_to_";
+
+/**
+ * Resolve the agents reachable from `agent`. Entries may be RealtimeAgents or
+ * SDK `Handoff` objects wrapping one.
+ */
+export function getHandoffTargets(agent: RealtimeAgent): RealtimeAgent[] {
+  return agent.handoffs
+    .map((handoff: any) => (handoff?.agent ?? handoff) as RealtimeAgent)
+    .filter((target) => Boolean(target?.name));
+}
+
+/**
+ * Tool name used to transfer to `agent`, e.g. `transfer_to_haikuWriter`.
+ * Non-alphanumeric characters are replaced the same way the SDK does.
+ */
+export function getTransferToolName(agent: RealtimeAgent): string {
+  return `${TRANSFER_TOOL_PREFIX}${agent.name.replace(/[^a-zA-Z0-9]/g, "_")}`;
+}
+
+/**
+ * Extract the target agent name from a transfer tool name.
+ */
+export function parseTransferToolName(toolName: string | undefined): string | null {
+  if (!toolName?.startsWith(TRANSFER_TOOL_PREFIX)) return null;
+  return toolName.slice(TRANSFER_TOOL_PREFIX.length) || null;
+}
+
+export function createTransferTools(agent: RealtimeAgent): RealtimeFunctionToolDefinition[] {
+  return getHandoffTargets(agent).map((target) => ({
+    type: "function",
+    name: getTransferToolName(target),
+    description: `Handoff to the ${target.name} agent to handle the request. ${
+      target.handoffDescription ?? ""
+    }`.trim(),
+    parameters: {
+      type: "object",
+      properties: {
+        rationale_for_transfer: {
+          type: "string",
+          description: "The reasoning why this transfer is needed.",
+        },
+        conversation_context: {
+          type: "string",
+          description:
+            "Relevant context from the conversation that will help the recipient perform the correct action.",
+        },
+      },
+      required: ["rationale_for_transfer", "conversation_context"],
+      additionalProperties: false,
+    },
+  }));
+}
+
+/**
+ * Find the handoff target addressed by a transfer tool call, if any.
+ */
+export function findHandoffTarget(
+  agent: RealtimeAgent,
+  toolName: string
+): RealtimeAgent | null {
+  return (
+    getHandoffTargets(agent).find(
+      (target) => getTransferToolName(target) === toolName
+    ) ?? null
+  );
+}
+
+/**
+ * Function call output returned to the model after a transfer.
+ */
+export function getTransferMessage(agent: RealtimeAgent): string {
+  return JSON.stringify({ assistant: agent.name });
+}
@@ -0,0 +1,244 @@
+import type { RealtimeItem } from "@openai/agents/realtime";
+import type {
+  RealtimeClientEventOf,
+  RealtimeConversationItem,
+  RealtimeEvent,
+} from "./realtimeEvents";
+
+/**
+ * Realtime Conversation History
+ *
+ * Mirrors the server-side conversation as `RealtimeItem`s (the same shape the
+ * OpenAI Agents SDK keeps in `RealtimeSession.history`), so tools that read
+ * `details.context.history` behave the same over the native WebSocket path.
+ */
+
+function toContentPart(part: any): any {
+  switch (part?.type) {
+    case "input_text":
+      return { type: "input_text", text: part.text ?? "" };
+    case "input_audio":
+      return { type: "input_audio", transcript: part.transcript ?? null };
+    case "audio":
+    case "output_audio":
+      return { type: "audio", transcript: part.transcript ?? null };
+    case "text":
+    case "output_text":
+      return { type: "text", text: part.text ?? "" };
+    default:
+      return null;
+  }
+}
+
+function toRealtimeItem(
+  item: RealtimeConversationItem,
+  previousItemId?: string | null
+): RealtimeItem | null {
+  if (!item?.id) return null;
+
+  if (item.type === "message") {
+    return {
+      itemId: item.id,
+      previousItemId,
+      type: "message",
+      role: item.role,
+      status: item.status === "completed" ? "completed" : "in_progress",
+      content: (item.content ?? []).map(toContentPart).filter(Boolean),
+    } as RealtimeItem;
+  }
+
+  if (item.type === "function_call") {
+    return {
+      itemId: item.id,
+      previousItemId,
+      type: "function_call",
+      name: item.name ?? "",
+      arguments: item.arguments ?? "",
+      callId: item.call_id,
+      status: item.status === "completed" ? "completed" : "in_progress",
+      output: null,
+    } as RealtimeItem;
+  }
+
+  return null;
+}
+
+/**
+ * Plain text of a message item, from typed text or audio transcripts.
+ */
+export function getMessageText(item: RealtimeItem): string {
+  if (item.type !== "message") return "";
+  return (item.content as any[])
+    .map((part) => part.text ?? part.transcript ?? "")
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * `conversation.item.create` events that rebuild `items` as text in a fresh
+ * session (e.g. after a reconnect). Audio becomes its transcript; items keep
+ * their ids so the transcript UI doesn't duplicate them. Function calls and
+ * system messages (guardrail feedback) are skipped; the assistant turns that
+ * followed them already carry their outcome.
+ */
+export function createHistoryReplayEvents(
+  items: RealtimeItem[]
+): RealtimeClientEventOf<"conversation.item.create">[] {
+  return items.flatMap((item): RealtimeClientEventOf<"conversation.item.create">[] => {
+    if (item.type !== "message" || item.role === "system") return [];
+    const text = getMessageText(item);
+    if (!text) return [];
+
+    return [
+      {
+        type: "conversation.item.create",
+        item: {
+          id: item.itemId,
+          type: "message",
+          role: item.role,
+          content: [
+            {
+              type: item.role === "assistant" ? "output_text" : "input_text",
+              text,
+            },
+          ],
+        },
+      },
+    ];
+  });
+}
+
+export class RealtimeConversationHistory {
+  private history: RealtimeItem[] = [];
+
+  get items(): RealtimeItem[] {
+    return this.history;
+  }
+
+  clear(): void {
+    this.history = [];
+  }
+
+  /**
+   * Apply a server event to the history.
+   * Returns the item if the event added a new one, so callers can surface it.
+   */
+  handleServerEvent(event: RealtimeEvent): RealtimeItem | null {
+    switch (event.type) {
+      case "conversation.item.added":
+      case "conversation.item.done":
+        return this.handleItem(event.item, event.previous_item_id);
+
+      case "response.output_item.added":
+      case "response.output_item.done":
+        return this.handleItem(event.item);
+
+      case "conversation.item.input_audio_transcription.completed":
+        this.updateContent(event.item_id, "input_audio", event.transcript);
+        break;
+
+      case "response.output_audio_transcript.done":
+        this.updateContent(event.item_id, "audio", event.transcript);
+        break;
+
+      case "response.function_call_arguments.done":
+        this.updateItem(event.item_id, (item: any) => ({
+          ...item,
+          arguments: event.arguments,
+        }));
+        break;
+
+      case "conversation.item.deleted":
+        this.history = this.history.filter((item) => item.itemId !== event.item_id);
+        break;
+    }
+    return null;
+  }
+
+  private handleItem(
+    item: RealtimeConversationItem,
+    previousItemId?: string | null
+  ): RealtimeItem | null {
+    if (item.type === "function_call_output") {
+      this.history = this.history.map((existing: any) =>
+        existing.type === "function_call" && existing.callId === item.call_id
+          ? { ...existing, output: item.output, status: "completed" }
+          : existing
+      );
+      return null;
+    }
+
+    const realtimeItem = toRealtimeItem(item, previousItemId);
+    if (!realtimeItem) return null;
+
+    const existingIndex = this.history.findIndex(
+      (existing) => existing.itemId === realtimeItem.itemId
+    );
+    if (existingIndex !== -1) {
+      const existing: any = this.history[existingIndex];
+      this.history = this.history.map((entry, idx) =>
+        idx === existingIndex
+          ? ({
+              ...existing,
+              ...realtimeItem,
+              // Server items often arrive without transcripts that we already have
+              content: mergeContent(existing.content, (realtimeItem as any).content),
+              output: existing.output ?? (realtimeItem as any).output,
+            } as RealtimeItem)
+          : entry
+      );
+      return null;
+    }
+
+    const prevIndex = previousItemId
+      ? this.history.findIndex((existing) => existing.itemId === previousItemId)
+      : -1;
+    if (prevIndex !== -1) {
+      this.history = [
+        ...this.history.slice(0, prevIndex + 1),
+        realtimeItem,
+        ...this.history.slice(prevIndex + 1),
+      ];
+    } else {
+      this.history = [...this.history, realtimeItem];
+    }
+    return realtimeItem;
+  }
+
+  private updateContent(
+    itemId: string | undefined,
+    partType: "input_audio" | "audio",
+    transcript: string | undefined
+  ): void {
+    this.updateItem(itemId, (item: any) => {
+      if (item.type !== "message") return item;
+      const content = [...(item.content ?? [])];
+      const index = content.findIndex((part: any) => part.type === partType);
+      if (index === -1) {
+        content.push({ type: partType, transcript: transcript ?? null });
+      } else {
+        content[index] = { ...content[index], transcript: transcript ?? null };
+      }
+      return { ...item, content, status: "completed" };
+    });
+  }
+
+  private updateItem(itemId: string | undefined, update: (item: any) => any): void {
+    if (!itemId) return;
+    this.history = this.history.map((item) =>
+      item.itemId === itemId ? (update(item) as RealtimeItem) : item
+    );
+  }
+}
+
+function mergeContent(existing: any[] | undefined, incoming: any[] | undefined): any[] | undefined {
+  if (!incoming) return existing;
+  if (!existing) return incoming;
+  return incoming.map((part, idx) => {
+    const previous = existing[idx];
+    if (previous?.type === part.type && part.transcript == null && previous.transcript != null) {
+      return { ...part, transcript: previous.transcript };
+    }
+    return part;
+  });
+}
@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { Socket } from "node:net";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { WebSocketServer } from "ws";
+import { startMockRealtimeServer } from "../api/realtime/mockServer";
+import { preflightRealtimeSession } from "./realtimePreflight";
+import { REALTIME_RELAY_PATH } from "./realtimeServerConfig";
+import { closeServers, listen } from "./testServers";
+
+const MODEL = "gpt-realtime";
+
+let sockets: Socket[] = [];
+
+/**
+ * HTTP server that answers the upgrade request itself, for handshake failures.
+ */
+function startUpgradeServer(onUpgrade: (socket: Socket) => void): Promise<string> {
+  const server = createServer();
+  server.on("upgrade", (_request, socket: Socket) => {
+    sockets.push(socket);
+    onUpgrade(socket);
+  });
+  return listen(server);
+}
+
+beforeEach(() => {
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+});
+
+afterEach(async () => {
+  sockets.forEach((socket) => socket.destroy());
+  await closeServers();
+  sockets = [];
+  mock.restoreAll();
+});
+
+describe("preflightRealtimeSession", () => {
+  it("succeeds once the server sends a session event", async () => {
+    const url = await listen(startMockRealtimeServer({ port: 0, realtime: false }));
+
+    const result = await preflightRealtimeSession("sk-test", MODEL, url);
+
+    assert.equal(result.ok, true);
+    assert.equal(result.opened, true);
+    assert.equal(result.code, "session.created");
+    assert.equal(result.endpoint, `${url}?model=${MODEL}`);
+  });
+
+  it("reports the code and message of a server error event", async () => {
+    const url = await listen(
+      startMockRealtimeServer({ port: 0, apiKey: "sk-other", realtime: false })
+    );
+
+    const result = await preflightRealtimeSession("sk-test", MODEL, url);
+
+    assert.equal(result.ok, false);
+    assert.equal(result.code, "invalid_api_key");
+    assert.equal(result.message, "Incorrect API key provided.");
+    assert.match(result.requestId ?? "", /^event_/);
+    assert.equal(JSON.parse(result.rawText ?? "").type, "error");
+  });
+
+  it("passes through the body and request id of a refused handshake", async () => {
+    const body = JSON.stringify({ error: { message: "Invalid token", type: "auth_error" } });
+    const url = await startUpgradeServer((socket) => {
+      socket.end(
+        [
+          "HTTP/1.1 401 Unauthorized",
+          "Content-Type: application/json",
+          "x-cometapi-request-id: req_123",
+          `Content-Length: ${Buffer.byteLength(body)}`,
+          "",
+          body,
+        ].join("\r\n")
+      );
+    });
+
+    const result = await preflightRealtimeSession("sk-test", MODEL, url);
+
+    assert.equal(result.ok, false);
+    assert.equal(result.opened, false);
+    assert.equal(result.statusCode, 401);
+    assert.equal(result.requestId, "req_123");
+    assert.equal(result.contentType, "application/json");
+    assert.equal(result.rawText, body);
+  });
+
+  it("times out when the handshake never completes", async () => {
+    const url = await startUpgradeServer(() => {});
+
+    const result = await preflightRealtimeSession("sk-test", MODEL, url, 100);
+
+    assert.equal(result.ok, false);
+    assert.equal(result.opened, false);
+    assert.equal(result.code, "preflight_timeout");
+  });
+
+  it("proceeds with a warning when the socket opens but stays silent", async () => {
+    const server = new WebSocketServer({ port: 0, path: REALTIME_RELAY_PATH });
+    const url = await listen(server);
+
+    const result = await preflightRealtimeSession("sk-test", MODEL, url, 100);
+
+    assert.equal(result.ok, true);
+    assert.equal(result.opened, true);
+    assert.equal(result.code, "preflight_timeout_no_session_event");
+    assert.ok(result.warning);
+  });
+
+  it("reports the close code and reason when the server closes first", async () => {
+    const server = new WebSocketServer({ port: 0, path: REALTIME_RELAY_PATH });
+    server.on("connection", (socket) => socket.close(1011, "boom"));
+    const url = await listen(server);
+
+    const result = await preflightRealtimeSession("sk-test", MODEL, url);
+
+    assert.equal(result.ok, false);
+    assert.equal(result.code, "websocket_closed");
+    assert.equal(result.message, "boom");
+    assert.deepEqual(result.close, { code: 1011, reason: "boom", wasClean: false });
+  });
+});
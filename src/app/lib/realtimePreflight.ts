@@ -0,0 +1,198 @@
+import NodeWebSocket from "ws";
+import { createRealtimeSessionUpdate } from "./realtimeSessionConfig";
+
+/**
+ * Realtime Preflight (server-only)
+ */
+
+export type RealtimePreflightResult = {
+  ok: boolean;
+  model: string;
+  endpoint: string;
+  opened: boolean;
+  rawText?: string;
+  contentType?: string;
+  statusCode?: number;
+  statusMessage?: string;
+  code?: string;
+  message?: string;
+  requestId?: string;
+  close?: {
+    code: number;
+    reason: string;
+    wasClean: boolean;
+  };
+  warning?: string;
+};
+
+export const PREFLIGHT_TIMEOUT_MS = 4500;
+
+function parseRealtimeMessage(data: unknown): any {
+  if (typeof data !== "string") return null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+function getRealtimeErrorMessage(message: any): string {
+  const error = message?.error;
+  if (typeof error === "string") return error;
+  return (
+    error?.message ||
+    error?.code ||
+    error?.type ||
+    "CometAPI Realtime returned an error without a message."
+  );
+}
+
+/**
+ * Open a realtime socket with the server key and wait for the first session
+ * or error event, so /api/session can report auth and model problems with the
+ * upstream's own response instead of the browser seeing a bare close code.
+ */
+export async function preflightRealtimeSession(
+  apiKey: string,
+  model: string,
+  realtimeUrl: string,
+  timeoutMs = PREFLIGHT_TIMEOUT_MS
+): Promise<RealtimePreflightResult> {
+  return new Promise((resolve) => {
+    const endpoint = `${realtimeUrl}?model=${encodeURIComponent(model)}`;
+    let opened = false;
+    let isSettled = false;
+    let ws: NodeWebSocket | null = null;
+
+    const finish = (result: Omit<RealtimePreflightResult, "model" | "endpoint" | "opened">) => {
+      if (isSettled) return;
+      isSettled = true;
+      clearTimeout(timeout);
+      if (ws && (ws.readyState === NodeWebSocket.OPEN || ws.readyState === NodeWebSocket.CONNECTING)) {
+        ws.terminate();
+      }
+      resolve({
+        model,
+        endpoint,
+        opened,
+        ...result,
+      });
+    };
+
+    const timeout = setTimeout(() => {
+      finish({
+        ok: opened,
+        code: opened ? "preflight_timeout_no_session_event" : "preflight_timeout",
+        message: opened
+          ? "Realtime WebSocket opened but did not return a session or error event before the preflight timeout."
+          : "Realtime WebSocket did not open before the preflight timeout.",
+        rawText: opened
+          ? "Realtime WebSocket opened but did not return a session or error event before the preflight timeout."
+          : "Realtime WebSocket did not open before the preflight timeout.",
+        warning: opened ? "Proceeding because the socket opened and no server error was observed." : undefined,
+      });
+    }, timeoutMs);
+
+    try {
+      ws = new NodeWebSocket(endpoint, [
+        "realtime",
+        `openai-insecure-api-key.${apiKey}`,
+      ]);
+
+      ws.on("open", () => {
+        opened = true;
+        ws?.send(
+          JSON.stringify(
+            createRealtimeSessionUpdate({
+              type: "server_vad",
+              threshold: 0.5,
+              prefix_padding_ms: 300,
+              silence_duration_ms: 500,
+              create_response: true,
+            })
+          )
+        );
+      });
+
+      ws.on("message", (data) => {
+        const rawText = data.toString();
+        const message = parseRealtimeMessage(rawText);
+        if (!message) return;
+
+        if (message.type === "error") {
+          finish({
+            ok: false,
+            code: message.error?.code || message.error?.type || "realtime_error",
+            message: getRealtimeErrorMessage(message),
+            requestId: message.event_id || message.error?.event_id,
+            rawText,
+            contentType: "application/json; charset=utf-8",
+          });
+          return;
+        }
+
+        if (message.type === "session.created" || message.type === "session.updated") {
+          finish({
+            ok: true,
+            code: message.type,
+            message: "Realtime preflight session event received.",
+          });
+        }
+      });
+
+      ws.on("unexpected-response", (_request, response) => {
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk) => {
+          chunks.push(Buffer.from(chunk));
+        });
+        response.on("end", () => {
+          const rawText = Buffer.concat(chunks).toString("utf8");
+          finish({
+            ok: false,
+            statusCode: response.statusCode,
+            statusMessage: response.statusMessage,
+            requestId: response.headers["x-cometapi-request-id"] as string | undefined,
+            contentType: response.headers["content-type"] as string | undefined,
+            rawText: rawText || response.statusMessage || "WebSocket handshake failed.",
+            message: rawText || response.statusMessage || "WebSocket handshake failed.",
+          });
+        });
+      });
+
+      ws.on("close", (code, reason) => {
+        const rawText = reason.toString();
+        finish({
+          ok: false,
+          code: "websocket_closed",
+          message:
+            rawText ||
+            `Realtime WebSocket closed before a session event was received (code ${code}).`,
+          rawText:
+            rawText ||
+            `Realtime WebSocket closed before a session event was received (code ${code}).`,
+          close: {
+            code,
+            reason: rawText,
+            wasClean: code === 1000,
+          },
+        });
+      });
+
+      ws.on("error", (error) => {
+        finish({
+          ok: false,
+          code: "websocket_error",
+          message: error.message || "Realtime WebSocket failed during preflight.",
+          rawText: error.message || "Realtime WebSocket failed during preflight.",
+        });
+      });
+    } catch (error) {
+      finish({
+        ok: false,
+        code: "preflight_exception",
+        message: error instanceof Error ? error.message : String(error),
+        rawText: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+}
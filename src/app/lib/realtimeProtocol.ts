@@ -0,0 +1,236 @@
+import type {
+  RealtimeBetaServerEventType,
+  RealtimeClientEvent,
+  RealtimeConversationItem,
+  RealtimeNormalizedServerEvent,
+  RealtimeServerEvent,
+  RealtimeSessionConfig,
+} from "./realtimeEvents";
+
+/**
+ * Realtime Protocol Dialects
+ *
+ * CometAPI backends speak either the beta Realtime protocol
+ * (`response.audio.delta`, `modalities`, `input_audio_format: "pcm16"`) or the
+ * GA one (`response.output_audio.delta`, `session.type: "realtime"`,
+ * `audio.input.format`). The app works in GA terms throughout:
+ * - Incoming beta events are renamed to GA, and beta content parts
+ *   (`text` / `audio`) become `output_text` / `output_audio`
+ * - Outgoing payloads are built in GA shape and translated to beta when the
+ *   server turned out to speak beta
+ *
+ * The dialect is detected from the shape of `session.created`, or from the
+ * first dialect-specific event name if the session object is ambiguous.
+ * `toDialectServerEvent` goes the other way, for code that plays the server.
+ */
+
+export type RealtimeProtocol = "beta" | "ga";
+
+const BETA_TO_GA_EVENT_TYPES: Record<
+  RealtimeBetaServerEventType,
+  RealtimeNormalizedServerEvent["type"]
+> = {
+  "conversation.item.created": "conversation.item.added",
+  "transcription_session.updated": "session.updated",
+  "response.text.delta": "response.output_text.delta",
+  "response.text.done": "response.output_text.done",
+  "response.audio_transcript.delta": "response.output_audio_transcript.delta",
+  "response.audio_transcript.done": "response.output_audio_transcript.done",
+  "response.audio.delta": "response.output_audio.delta",
+  "response.audio.done": "response.output_audio.done",
+};
+
+const GA_TO_BETA_EVENT_TYPES: Partial<Record<string, RealtimeBetaServerEventType>> =
+  Object.fromEntries(
+    Object.entries(BETA_TO_GA_EVENT_TYPES)
+      // session.updated is shared by both dialects
+      .filter(([betaType]) => betaType !== "transcription_session.updated")
+      .map(([betaType, gaType]) => [gaType, betaType as RealtimeBetaServerEventType])
+  );
+
+const GA_ONLY_EVENT_TYPES = new Set<string>([
+  "conversation.item.added",
+  "conversation.item.done",
+  "conversation.item.input_audio_transcription.segment",
+  "input_audio_buffer.timeout_triggered",
+  "response.output_text.delta",
+  "response.output_text.done",
+  "response.output_audio_transcript.delta",
+  "response.output_audio_transcript.done",
+  "response.output_audio.delta",
+  "response.output_audio.done",
+]);
+
+const BETA_TO_GA_PART_TYPES: Record<string, string> = {
+  text: "output_text",
+  audio: "output_audio",
+};
+
+const GA_TO_BETA_PART_TYPES: Record<string, string> = {
+  output_text: "text",
+  output_audio: "audio",
+};
+
+const GA_TO_BETA_AUDIO_FORMATS: Record<string, string> = {
+  "audio/pcm": "pcm16",
+  "audio/pcmu": "g711_ulaw",
+  "audio/pcma": "g711_alaw",
+};
+
+function isBetaEventType(type: string): type is RealtimeBetaServerEventType {
+  return type in BETA_TO_GA_EVENT_TYPES;
+}
+
+/**
+ * The dialect an event gives away, or null if it looks the same in both.
+ */
+export function detectProtocol(event: RealtimeServerEvent): RealtimeProtocol | null {
+  if (isBetaEventType(event.type)) return "beta";
+  if (GA_ONLY_EVENT_TYPES.has(event.type)) return "ga";
+
+  if (event.type === "session.created" || event.type === "session.updated") {
+    const { session } = event;
+    if (session.type === "realtime" || session.type === "transcription") return "ga";
+    if ("output_modalities" in session || "audio" in session) return "ga";
+    if ("modalities" in session || "input_audio_format" in session) return "beta";
+  }
+  return null;
+}
+
+function mapContentTypes<T extends RealtimeConversationItem>(
+  item: T,
+  partTypes: Record<string, string>
+): T {
+  if (item.type !== "message") return item;
+  return {
+    ...item,
+    content: item.content.map((part) =>
+      part.type in partTypes ? { ...part, type: partTypes[part.type] } : part
+    ),
+  };
+}
+
+/**
+ * Rename content part types in the item, part or response output an event carries.
+ */
+function mapEventContentTypes(
+  event: Record<string, any>,
+  partTypes: Record<string, string>
+): Record<string, any> {
+  const mapped = { ...event };
+  if (mapped.item) {
+    mapped.item = mapContentTypes(mapped.item, partTypes);
+  }
+  if (mapped.part?.type in partTypes) {
+    mapped.part = { ...mapped.part, type: partTypes[mapped.part.type] };
+  }
+  if (Array.isArray(mapped.response?.output)) {
+    mapped.response = {
+      ...mapped.response,
+      output: mapped.response.output.map((item: RealtimeConversationItem) =>
+        mapContentTypes(item, partTypes)
+      ),
+    };
+  }
+  return mapped;
+}
+
+/**
+ * Rename a server event (and the items it carries) to the GA dialect.
+ * GA events pass through unchanged.
+ */
+export function normalizeServerEvent(event: RealtimeServerEvent): RealtimeNormalizedServerEvent {
+  const normalized = mapEventContentTypes(event, BETA_TO_GA_PART_TYPES);
+  if (isBetaEventType(event.type)) {
+    normalized.type = BETA_TO_GA_EVENT_TYPES[event.type];
+  }
+  return normalized as RealtimeNormalizedServerEvent;
+}
+
+/**
+ * The reverse of `normalizeServerEvent`: express a GA server event in
+ * `protocol`. Returns null for GA events beta has no equivalent of.
+ */
+export function toDialectServerEvent(
+  event: RealtimeNormalizedServerEvent,
+  protocol: RealtimeProtocol
+): RealtimeServerEvent | null {
+  if (protocol === "ga") return event;
+  if (event.type === "conversation.item.done") return null;
+
+  const beta = mapEventContentTypes(event, GA_TO_BETA_PART_TYPES);
+  beta.type = GA_TO_BETA_EVENT_TYPES[event.type] ?? event.type;
+  // Beta only carries the function name on the output item
+  if (event.type === "response.function_call_arguments.done") {
+    delete beta.name;
+  }
+  return beta as RealtimeServerEvent;
+}
+
+function toBetaAudioFormat(format: unknown): string | undefined {
+  if (typeof format === "string") return format;
+  const type = (format as { type?: string } | undefined)?.type;
+  return type ? GA_TO_BETA_AUDIO_FORMATS[type] : undefined;
+}
+
+/**
+ * GA session config -> beta: flatten `audio.input` / `audio.output` and
+ * rename `output_modalities` (beta needs "text" alongside "audio").
+ */
+function toBetaSessionConfig<T extends RealtimeSessionConfig>(session: T): T {
+  const { output_modalities, audio, max_output_tokens, ...rest } = session;
+  const beta: Record<string, unknown> = { ...rest };
+  delete beta.type;
+
+  if (output_modalities) {
+    beta.modalities = output_modalities.includes("audio") ? ["text", "audio"] : ["text"];
+  }
+  if (max_output_tokens !== undefined) {
+    beta.max_response_output_tokens = max_output_tokens;
+  }
+
+  const input = audio?.input;
+  if (input) {
+    const inputFormat = toBetaAudioFormat(input.format);
+    if (inputFormat) beta.input_audio_format = inputFormat;
+    if (input.turn_detection !== undefined) beta.turn_detection = input.turn_detection;
+    if (input.transcription !== undefined) beta.input_audio_transcription = input.transcription;
+    if (input.noise_reduction !== undefined) {
+      beta.input_audio_noise_reduction = input.noise_reduction;
+    }
+  }
+
+  const output = audio?.output;
+  if (output) {
+    const outputFormat = toBetaAudioFormat(output.format);
+    if (outputFormat) beta.output_audio_format = outputFormat;
+    if (output.voice) beta.voice = output.voice;
+    if (output.speed !== undefined) beta.speed = output.speed;
+  }
+
+  return beta as T;
+}
+
+/**
+ * Translate a GA-shaped client event for a server speaking `protocol`.
+ */
+export function translateClientEvent(
+  event: RealtimeClientEvent,
+  protocol: RealtimeProtocol
+): RealtimeClientEvent {
+  if (protocol === "ga") return event;
+
+  switch (event.type) {
+    case "session.update":
+    case "transcription_session.update":
+      return { ...event, session: toBetaSessionConfig(event.session) };
+    case "response.create":
+      return event.response
+        ? { ...event, response: toBetaSessionConfig(event.response) }
+        : event;
+    case "conversation.item.create":
+      return { ...event, item: mapContentTypes(event.item, GA_TO_BETA_PART_TYPES) };
+    default:
+      return event;
+  }
+}
@@ -0,0 +1,180 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import NodeWebSocket, { WebSocketServer } from "ws";
+import { startMockRealtimeServer } from "../api/realtime/mockServer";
+import { CometAPIWebSocket } from "./cometapiWebSocket";
+import type { RealtimeEvent } from "./realtimeEvents";
+import {
+  createRecordingArchive,
+  parseRecording,
+  readRecording,
+  RealtimeRecorder,
+  RealtimeRecording,
+  serializeRecording,
+  toRecordableLocalEvent,
+} from "./realtimeRecorder";
+import { REALTIME_RELAY_PATH } from "./realtimeServerConfig";
+import { createZipArchive, readZipArchive } from "./zipArchive";
+
+let server: WebSocketServer | null = null;
+
+const ignoredEventTypes = new Set(["close", "input_audio_buffer.append"]);
+
+/**
+ * Run a text turn against the mock server and return the recording together
+ * with the event types the handlers saw.
+ */
+async function recordTextTurn(): Promise<{ recording: RealtimeRecording; seen: string[] }> {
+  server = startMockRealtimeServer({ port: 0, realtime: false });
+  await once(server, "listening");
+  const { port } = server.address() as AddressInfo;
+
+  const recorder = new RealtimeRecorder({ model: "gpt-realtime" });
+  let socket: NodeWebSocket | null = null;
+  const client = new CometAPIWebSocket({
+    apiKey: "sk-test",
+    url: `ws://127.0.0.1:${port}${REALTIME_RELAY_PATH}`,
+    createSocket: (socketUrl, protocols) => (socket = new NodeWebSocket(socketUrl, protocols)),
+    recorder,
+  });
+  const seen: string[] = [];
+  client.on("*", (event) => seen.push(event.type));
+  const done = new Promise<void>((resolve) => client.on("response.done", () => resolve()));
+
+  await client.connect();
+  client.sendEvent({
+    type: "conversation.item.create",
+    item: { type: "message", role: "user", content: [{ type: "input_text", text: "Hello" }] },
+  });
+  client.sendEvent({ type: "response.create" });
+  await done;
+  client.emit({ type: "guardrail_result", item_id: "item_1", guardrailResult: { status: "DONE" } });
+  // Let the socket finish closing before the test's console mocks go away
+  client.close();
+  await once(socket!, "close");
+
+  return { recording: recorder.recording, seen };
+}
+
+beforeEach(() => {
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+  mock.method(console, "error", () => {});
+});
+
+afterEach(async () => {
+  if (server) {
+    server.clients.forEach((socket) => socket.terminate());
+    await new Promise((resolve) => server!.close(resolve));
+    server = null;
+  }
+  mock.restoreAll();
+});
+
+describe("RealtimeRecorder", () => {
+  it("records server, client and local events in order", async () => {
+    const { recording } = await recordTextTurn();
+
+    assert.equal(recording.header.model, "gpt-realtime");
+    const directions = new Set(recording.entries.map((entry) => entry.direction));
+    assert.deepEqual([...directions].sort(), ["client", "local", "server"]);
+
+    // Server messages are kept in the dialect they arrived in
+    const types = recording.entries.map((entry) => entry.event.type);
+    assert.ok(types.includes("conversation.item.created"));
+    assert.ok(types.includes("response.audio.delta"));
+
+    const times = recording.entries.map((entry) => entry.t);
+    assert.deepEqual(times, [...times].sort((a, b) => a - b));
+  });
+
+  it("round-trips through JSONL and ZIP", async () => {
+    const { recording } = await recordTextTurn();
+
+    assert.deepEqual(parseRecording(serializeRecording(recording)), recording);
+    assert.deepEqual(readRecording(createRecordingArchive(recording)), recording);
+    assert.deepEqual(
+      readRecording(new TextEncoder().encode(serializeRecording(recording))),
+      recording
+    );
+  });
+
+  it("rejects files that aren't recordings", () => {
+    assert.throws(() => parseRecording('{"type":"session.created"}\n'), /Not a realtime recording/);
+    assert.throws(() => parseRecording(""), /empty/);
+  });
+
+  it("reduces agents and run contexts in local events to plain JSON", () => {
+    const agent: any = { name: "greeter", handoffs: [] };
+    agent.handoffs.push(agent);
+    const event = toRecordableLocalEvent({
+      type: "agent_tool_start",
+      agent,
+      details: { context: { history: [{ type: "message" }], addTranscriptBreadcrumb: () => "" } },
+      functionCall: { name: "lookupOrders", callId: "call_1", arguments: "{}" },
+    } as unknown as RealtimeEvent);
+
+    assert.deepEqual(JSON.parse(JSON.stringify(event)), {
+      type: "agent_tool_start",
+      agent: { name: "greeter" },
+      details: { context: { history: [{ type: "message" }] } },
+      functionCall: { name: "lookupOrders", callId: "call_1", arguments: "{}" },
+    });
+  });
+});
+
+describe("CometAPIWebSocket.replay", () => {
+  it("replays the session to handlers without a connection", async () => {
+    const { recording, seen } = await recordTextTurn();
+    const replayer = new CometAPIWebSocket({ apiKey: "" });
+    const replayed: string[] = [];
+    const clientEvents: string[] = [];
+    replayer.on("*", (event) => replayed.push(event.type));
+
+    await replayer.replay(recording, {
+      speed: Infinity,
+      onClientEvent: (event) => clientEvents.push(event.type),
+    });
+
+    assert.ok(seen.includes("guardrail_result"));
+    assert.deepEqual(
+      replayed.filter((type) => !ignoredEventTypes.has(type)),
+      seen.filter((type) => !ignoredEventTypes.has(type))
+    );
+    assert.equal(replayer.protocol, "beta"); // detected from the recorded messages
+    assert.ok(clientEvents.includes("response.create"));
+    assert.equal(replayed.at(-1), "close");
+  });
+
+  it("stops when closed", async () => {
+    const recording: RealtimeRecording = {
+      header: { type: "realtime.recording", version: 1, startedAt: new Date().toISOString() },
+      entries: [
+        { t: 0, direction: "local", event: { type: "reconnected", attempt: 1 } },
+        { t: 60_000, direction: "local", event: { type: "reconnected", attempt: 2 } },
+      ],
+    };
+    const replayer = new CometAPIWebSocket({ apiKey: "" });
+    const attempts: number[] = [];
+    replayer.on("reconnected", (event) => attempts.push(event.attempt));
+
+    const replaying = replayer.replay(recording);
+    replayer.close();
+    await replaying;
+
+    assert.deepEqual(attempts, [1]);
+  });
+});
+
+describe("zipArchive", () => {
+  it("reads back the files it writes", () => {
+    const files = [
+      { name: "a.txt", data: new TextEncoder().encode("hello") },
+      { name: "dir/b.bin", data: new Uint8Array([0, 1, 2, 255]) },
+    ];
+
+    assert.deepEqual(readZipArchive(createZipArchive(files)), files);
+  });
+});
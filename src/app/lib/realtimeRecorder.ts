@@ -0,0 +1,189 @@
+import { z } from "zod";
+import type { RealtimeEvent } from "./realtimeEvents";
+import { createZipArchive, isZipArchive, readZipArchive } from "./zipArchive";
+
+/**
+ * Realtime Session Recordings
+ *
+ * A recording is everything a RealtimeClient saw during a session, with the
+ * time since the recording started:
+ * - `server`: messages exactly as received (before dialect normalization),
+ *   audio deltas included
+ * - `client`: events exactly as sent, microphone frames included
+ * - `local`: events the client emitted itself (tool calls, handoffs,
+ *   guardrails, reconnects, close), reduced to plain JSON
+ *
+ * Recordings are stored as JSONL: a header line, then one entry per line.
+ * `createRecordingArchive` wraps that file in a ZIP for download.
+ * `RealtimeClient.replay` (so also `CometAPIWebSocket.replay`) plays a
+ * recording back without a connection.
+ */
+
+export const RECORDING_VERSION = 1;
+export const RECORDING_ARCHIVE_ENTRY = "session.jsonl";
+
+export const RealtimeRecordingHeaderSchema = z
+  .object({
+    type: z.literal("realtime.recording"),
+    version: z.literal(RECORDING_VERSION),
+    startedAt: z.string(),
+    model: z.string().optional(),
+    url: z.string().optional(),
+  })
+  .passthrough();
+
+export const RealtimeRecordingEntrySchema = z.object({
+  /** Milliseconds since the recording started. */
+  t: z.number().nonnegative(),
+  direction: z.enum(["client", "server", "local"]),
+  event: z.object({ type: z.string() }).passthrough(),
+});
+
+export type RealtimeRecordingHeader = z.infer<typeof RealtimeRecordingHeaderSchema>;
+export type RealtimeRecordingEntry = z.infer<typeof RealtimeRecordingEntrySchema>;
+export type RealtimeRecordingDirection = RealtimeRecordingEntry["direction"];
+
+export interface RealtimeRecording {
+  header: RealtimeRecordingHeader;
+  entries: RealtimeRecordingEntry[];
+}
+
+/**
+ * What RealtimeClient needs from a recorder.
+ */
+export interface RealtimeEventRecorder {
+  record(direction: RealtimeRecordingDirection, event: { type: string }): void;
+}
+
+/**
+ * Only `context.history` of a RunContext is kept: the extra context holds
+ * callbacks, and that's all the transcript handlers read.
+ */
+function toRecordableRunContext(runContext: { context?: any } | null | undefined) {
+  return { context: { history: runContext?.context?.history ?? [] } };
+}
+
+/**
+ * Local events carry agents and run contexts (with tools, callbacks and
+ * handoff cycles) that don't survive JSON; keep the parts the UI uses.
+ */
+export function toRecordableLocalEvent(event: RealtimeEvent): RealtimeRecordingEntry["event"] {
+  switch (event.type) {
+    case "agent_tool_start":
+    case "agent_tool_end":
+      return {
+        ...event,
+        details: toRecordableRunContext(event.details),
+        agent: { name: event.agent.name },
+      };
+    case "agent_handoff":
+      return { ...event, item: toRecordableRunContext(event.item) };
+    case "guardrail_tripped":
+      return {
+        ...event,
+        details: toRecordableRunContext(event.details),
+        agent: event.agent ? { name: event.agent.name } : null,
+        guardrail: {
+          name: event.guardrail.name,
+          result: { output: event.guardrail.result.output },
+        },
+      };
+    default:
+      return event;
+  }
+}
+
+export class RealtimeRecorder implements RealtimeEventRecorder {
+  private header: RealtimeRecordingHeader;
+  private entries: RealtimeRecordingEntry[] = [];
+  private startedAt = performance.now();
+
+  constructor(metadata: { model?: string; url?: string } = {}) {
+    this.header = {
+      type: "realtime.recording",
+      version: RECORDING_VERSION,
+      startedAt: new Date().toISOString(),
+      ...metadata,
+    };
+  }
+
+  record(direction: RealtimeRecordingDirection, event: { type: string }): void {
+    this.entries.push({
+      t: Math.round((performance.now() - this.startedAt) * 10) / 10,
+      direction,
+      // Copied so later mutations (event_id, timestamp) don't leak in
+      event: JSON.parse(JSON.stringify(event)),
+    });
+  }
+
+  get recording(): RealtimeRecording {
+    return { header: this.header, entries: [...this.entries] };
+  }
+}
+
+export function serializeRecording(recording: RealtimeRecording): string {
+  return [recording.header, ...recording.entries]
+    .map((line) => JSON.stringify(line))
+    .join("\n")
+    .concat("\n");
+}
+
+export function parseRecording(jsonl: string): RealtimeRecording {
+  const lines = jsonl.split("\n").filter((line) => line.trim());
+  if (lines.length === 0) {
+    throw new Error("The recording is empty.");
+  }
+
+  const parseLine = (line: string, index: number) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new Error(`Recording line ${index + 1} is not valid JSON.`);
+    }
+  };
+
+  const header = RealtimeRecordingHeaderSchema.safeParse(parseLine(lines[0], 0));
+  if (!header.success) {
+    throw new Error(
+      `Not a realtime recording (version ${RECORDING_VERSION}): ${header.error.issues[0]?.message}`
+    );
+  }
+
+  const entries = lines.slice(1).map((line, index) => {
+    const entry = RealtimeRecordingEntrySchema.safeParse(parseLine(line, index + 1));
+    if (!entry.success) {
+      throw new Error(
+        `Recording line ${index + 2} is not a valid entry: ${entry.error.issues[0]?.message}`
+      );
+    }
+    return entry.data;
+  });
+
+  return { header: header.data, entries };
+}
+
+export function createRecordingArchive(recording: RealtimeRecording): Uint8Array<ArrayBuffer> {
+  return createZipArchive([
+    {
+      name: RECORDING_ARCHIVE_ENTRY,
+      data: new TextEncoder().encode(serializeRecording(recording)),
+    },
+  ]);
+}
+
+/**
+ * Read a recording from a ZIP bundle or a bare JSONL file.
+ */
+export function readRecording(data: Uint8Array): RealtimeRecording {
+  if (!isZipArchive(data)) {
+    return parseRecording(new TextDecoder().decode(data));
+  }
+
+  const entry = readZipArchive(data).find(
+    (file) => file.name === RECORDING_ARCHIVE_ENTRY || file.name.endsWith(".jsonl")
+  );
+  if (!entry) {
+    throw new Error(`The archive has no ${RECORDING_ARCHIVE_ENTRY}.`);
+  }
+  return parseRecording(new TextDecoder().decode(entry.data));
+}
@@ -0,0 +1,83 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { parse } from "dotenv";
+import type { RealtimeProtocol } from "./realtimeProtocol";
+import { toWebRtcUrl } from "./realtimeTransport";
+
+/**
+ * Server-side CometAPI Realtime configuration, shared by /api/session and the
+ * realtime relay. `.env` wins over process.env so edits apply without a restart.
+ */
+
+export const DEFAULT_REALTIME_URL = "wss://api.cometapi.com/v1/realtime";
+export const DEFAULT_REALTIME_MODEL = "gpt-4o-realtime-preview-2025-06-03";
+export const DEFAULT_RELAY_PORT = 3001;
+export const REALTIME_RELAY_PATH = "/v1/realtime";
+export const DEFAULT_RELAY_MAX_SESSIONS_PER_CLIENT = 3;
+export const DEFAULT_MOCK_REALTIME_PORT = 3002;
+export const DEFAULT_TELEPHONY_PORT = 3003;
+
+function loadEnvFile() {
+  const envPath = join(process.cwd(), ".env");
+  if (!existsSync(envPath)) {
+    return {};
+  }
+  return parse(readFileSync(envPath));
+}
+
+function toPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getRuntimeConfig() {
+  const fileEnv = loadEnvFile();
+  const getValue = (key: string, fallback?: string) =>
+    fileEnv[key] ?? process.env[key] ?? fallback;
+
+  const realtimeUrl = getValue("COMETAPI_REALTIME_URL", DEFAULT_REALTIME_URL)!;
+
+  return {
+    apiKey: getValue("COMETAPI_KEY"),
+    model: getValue("COMETAPI_MODEL", DEFAULT_REALTIME_MODEL)!,
+    realtimeUrl,
+    // Where WebRTC SDP offers go; defaults to the https:// form of realtimeUrl
+    webrtcUrl: getValue("COMETAPI_REALTIME_WEBRTC_URL", toWebRtcUrl(realtimeUrl))!,
+    proxyUrl: getValue("https_proxy") ?? getValue("HTTPS_PROXY"),
+    // WebSocket endpoint that accepts session tokens and holds the real key.
+    // Defaults to the built-in relay on relayPort.
+    relayUrl: getValue("COMETAPI_RELAY_URL"),
+    relayEnabled: getValue("COMETAPI_RELAY_ENABLED") !== "false",
+    relayPort: toPositiveInt(getValue("COMETAPI_RELAY_PORT"), DEFAULT_RELAY_PORT),
+    relayMaxSessionsPerClient: toPositiveInt(
+      getValue("COMETAPI_RELAY_MAX_SESSIONS"),
+      DEFAULT_RELAY_MAX_SESSIONS_PER_CLIENT
+    ),
+    relayLogEvents: getValue("COMETAPI_RELAY_LOG_EVENTS") === "true",
+    // Legacy: hand COMETAPI_KEY to the browser and connect to CometAPI directly
+    exposeKeyToBrowser: getValue("COMETAPI_EXPOSE_KEY_TO_BROWSER") === "true",
+    keySource: fileEnv.COMETAPI_KEY ? ".env" : "process.env",
+    // Offline stand-in for the realtime service (see app/api/realtime/mockServer.ts)
+    mockRealtimeEnabled: getValue("COMETAPI_MOCK_REALTIME") === "true",
+    mockRealtimePort: toPositiveInt(
+      getValue("COMETAPI_MOCK_REALTIME_PORT"),
+      DEFAULT_MOCK_REALTIME_PORT
+    ),
+    mockRealtimeProtocol: (getValue("COMETAPI_MOCK_REALTIME_PROTOCOL") === "ga"
+      ? "ga"
+      : "beta") as RealtimeProtocol,
+    mockRealtimeScript: getValue("COMETAPI_MOCK_REALTIME_SCRIPT"),
+    // Phone calls over media streams (see app/api/realtime/telephonyBridge.ts)
+    telephonyEnabled: getValue("COMETAPI_TELEPHONY_ENABLED") === "true",
+    telephonyPort: toPositiveInt(getValue("COMETAPI_TELEPHONY_PORT"), DEFAULT_TELEPHONY_PORT),
+    telephonyScenario: getValue("COMETAPI_TELEPHONY_SCENARIO"),
+    // Callers must send it as the `secret` parameter when set
+    telephonySecret: getValue("COMETAPI_TELEPHONY_SECRET"),
+    // JSON/YAML scenario definitions merged into the scenario dropdown (relative to the cwd)
+    scenariosDir: getValue("COMETAPI_SCENARIOS_DIR", "scenarios")!,
+    // Directory for /api/sessions; unset keeps past sessions in the browser (IndexedDB)
+    sessionStoreDir: getValue("COMETAPI_SESSION_STORE_DIR"),
+  };
+}
+
+export type RealtimeRuntimeConfig = ReturnType<typeof getRuntimeConfig>;
@@ -1,3 +1,9 @@
+import { RunContext } from "@openai/agents";
+import type { RealtimeAgent } from "@openai/agents/realtime";
+import { getG711LawForCodec } from "./g711";
+import { createTransferTools, getHandoffTargets } from "./realtimeHandoffs";
+import type { RealtimeClientEventOf } from "./realtimeEvents";
+
 export type RealtimeTurnDetection = {
   type: "server_vad";
   threshold: number;
@@ -11,22 +17,114 @@ export const pcm24kAudioFormat = {
   rate: 24000,
 } as const;
 
+export const pcmuAudioFormat = { type: "audio/pcmu" } as const;
+export const pcmaAudioFormat = { type: "audio/pcma" } as const;
+
+export type RealtimeAudioFormat =
+  | typeof pcm24kAudioFormat
+  | typeof pcmuAudioFormat
+  | typeof pcmaAudioFormat;
+
+/**
+ * The session audio format for a codec selector value: G.711 at 8 kHz for
+ * "pcmu" / "pcma", PCM16 at 24 kHz otherwise.
+ */
+export function getAudioFormatForCodec(codec: string | null | undefined): RealtimeAudioFormat {
+  const law = getG711LawForCodec(codec);
+  if (law === "ulaw") return pcmuAudioFormat;
+  if (law === "alaw") return pcmaAudioFormat;
+  return pcm24kAudioFormat;
+}
+
+export const DEFAULT_REALTIME_VOICE = "alloy";
+
+export type RealtimeFunctionToolDefinition = {
+  type: "function";
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+};
+
+/**
+ * The agent-specific part of a session.update payload: what the model should
+ * say (instructions), what it can call (tools) and how it sounds (voice).
+ */
+export type RealtimeAgentSessionConfig = {
+  agentName: string;
+  instructions: string;
+  voice: string;
+  tools: RealtimeFunctionToolDefinition[];
+};
+
+/**
+ * Lists the agents the given agent can hand off to, using each target's
+ * handoffDescription so the model knows when a transfer is appropriate.
+ */
+function describeHandoffTargets(agent: RealtimeAgent): string {
+  const targets = getHandoffTargets(agent);
+  if (targets.length === 0) return "";
+
+  const lines = targets.map(
+    (target) =>
+      `- ${target.name}: ${target.handoffDescription || "No description provided."}`
+  );
+  return `\n\n# Available Agents\n${lines.join("\n")}`;
+}
+
+/**
+ * Resolves a RealtimeAgent into the instructions, tool JSON schemas and voice
+ * that the native WebSocket transport sends in session.update. Handoffs are
+ * exposed as synthesized transfer_to_<agent> tools.
+ */
+export async function getAgentSessionConfig(
+  agent: RealtimeAgent,
+  context: Record<string, any> = {}
+): Promise<RealtimeAgentSessionConfig> {
+  const runContext = new RunContext<any>(context);
+  const instructions = (await agent.getSystemPrompt(runContext)) ?? "";
+  const tools = (await agent.getAllTools())
+    .filter((tool) => tool.type === "function")
+    .map((tool: any) => ({
+      type: "function" as const,
+      name: tool.name,
+      description: tool.description ?? "",
+      parameters: tool.parameters,
+    }));
+  tools.push(...createTransferTools(agent));
+
+  return {
+    agentName: agent.name,
+    instructions: instructions + describeHandoffTargets(agent),
+    voice: agent.voice || DEFAULT_REALTIME_VOICE,
+    tools,
+  };
+}
+
 export function createRealtimeSessionUpdate(
-  turnDetection: RealtimeTurnDetection | null
-) {
+  turnDetection: RealtimeTurnDetection | null,
+  agentConfig?: RealtimeAgentSessionConfig,
+  audioFormat: RealtimeAudioFormat = pcm24kAudioFormat
+): RealtimeClientEventOf<"session.update"> {
   return {
     type: "session.update",
     session: {
       type: "realtime",
       output_modalities: ["audio"],
+      ...(agentConfig
+        ? {
+            instructions: agentConfig.instructions,
+            tools: agentConfig.tools,
+            tool_choice: "auto",
+          }
+        : {}),
       audio: {
         input: {
-          format: pcm24kAudioFormat,
+          format: audioFormat,
           turn_detection: turnDetection,
         },
         output: {
-          format: pcm24kAudioFormat,
-          voice: "alloy",
+          format: audioFormat,
+          voice: agentConfig?.voice ?? DEFAULT_REALTIME_VOICE,
         },
       },
     },
@@ -0,0 +1,218 @@
+import { RunContext } from "@openai/agents";
+import type { RealtimeAgent, RealtimeItem } from "@openai/agents/realtime";
+import type { RealtimeTransport } from "./realtimeTransport";
+import type { RealtimeEvent } from "./realtimeEvents";
+import { findHandoffTarget, getTransferMessage } from "./realtimeHandoffs";
+
+/**
+ * Realtime Tool Runtime
+ *
+ * Executes the function tools of the active RealtimeAgent when the model calls
+ * them over the realtime transport. This is the piece of
+ * `RealtimeSession` we lost when replacing the SDK: it runs `execute`, sends
+ * the `function_call_output` back and asks the model to continue.
+ *
+ * Emits `agent_tool_start` / `agent_tool_end` through the socket so the
+ * existing history handlers add the transcript breadcrumbs. Calls to the
+ * synthesized `transfer_to_<agent>` tools are treated as handoffs and emit
+ * `agent_handoff` instead.
+ */
+
+export type RealtimeFunctionCall = {
+  callId: string;
+  itemId?: string;
+  name: string;
+  arguments: string;
+};
+
+export interface RealtimeToolRuntimeOptions {
+  transport: RealtimeTransport;
+  getAgent: () => RealtimeAgent | null;
+  getContext: () => Record<string, any>;
+  getHistory: () => RealtimeItem[];
+  /**
+   * Called when the model transfers to another agent, before the transfer
+   * output is returned. Should make `agent` current and push its session config.
+   */
+  onHandoff?: (agent: RealtimeAgent, fromAgent: RealtimeAgent) => Promise<void> | void;
+}
+
+function toToolOutput(result: unknown): string {
+  if (typeof result === "string") return result;
+  try {
+    return JSON.stringify(result);
+  } catch {
+    return String(result);
+  }
+}
+
+export class RealtimeToolRuntime {
+  private handledCallIds = new Set<string>();
+  private options: RealtimeToolRuntimeOptions;
+
+  constructor(options: RealtimeToolRuntimeOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Extracts a completed function call from a server event, if it carries one.
+   * Both `response.function_call_arguments.done` and `response.output_item.done`
+   * describe the same call; whichever arrives first wins.
+   */
+  static getFunctionCall(
+    event: RealtimeEvent,
+    history: RealtimeItem[] = []
+  ): RealtimeFunctionCall | null {
+    if (event.type === "response.function_call_arguments.done") {
+      const historyItem = history.find((item) => item.itemId === event.item_id);
+      const name =
+        event.name ?? (historyItem?.type === "function_call" ? historyItem.name : undefined);
+      if (!name) return null;
+      return {
+        callId: event.call_id,
+        itemId: event.item_id,
+        name,
+        arguments: event.arguments || "{}",
+      };
+    }
+
+    if (event.type === "response.output_item.done" && event.item?.type === "function_call") {
+      return {
+        callId: event.item.call_id,
+        itemId: event.item.id,
+        name: event.item.name,
+        arguments: event.item.arguments ?? "{}",
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Handle a server event; runs the referenced tool if the event completes a function call.
+   */
+  async handleServerEvent(event: RealtimeEvent): Promise<void> {
+    const functionCall = RealtimeToolRuntime.getFunctionCall(
+      event,
+      this.options.getHistory()
+    );
+    if (!functionCall || !this.claimCall(functionCall.callId)) return;
+    await this.runFunctionCall(functionCall);
+  }
+
+  /**
+   * Marks a call as handled. Returns false if it was already handled.
+   */
+  private claimCall(callId: string): boolean {
+    if (this.handledCallIds.has(callId)) return false;
+    this.handledCallIds.add(callId);
+    return true;
+  }
+
+  /**
+   * Send the tool result back to the model and trigger the follow-up response.
+   */
+  sendFunctionCallOutput(functionCall: RealtimeFunctionCall, output: string): void {
+    const { transport } = this.options;
+    transport.sendEvent({
+      type: "conversation.item.create",
+      item: {
+        type: "function_call_output",
+        call_id: functionCall.callId,
+        output,
+      },
+    });
+    transport.sendEvent({ type: "response.create" });
+  }
+
+  private async runFunctionCall(functionCall: RealtimeFunctionCall): Promise<void> {
+    const { transport, getAgent, getContext, getHistory } = this.options;
+    const agent = getAgent();
+    const handoffTarget = agent ? findHandoffTarget(agent, functionCall.name) : null;
+    if (agent && handoffTarget) {
+      await this.runHandoff(functionCall, agent, handoffTarget);
+      return;
+    }
+
+    const tools = agent ? await agent.getAllTools() : [];
+    const tool: any = tools.find(
+      (candidate: any) => candidate.type === "function" && candidate.name === functionCall.name
+    );
+
+    if (!agent || !tool) {
+      console.warn(
+        `[RealtimeToolRuntime] Tool ${functionCall.name} not found on agent ${agent?.name ?? "(none)"}`
+      );
+      this.sendFunctionCallOutput(
+        functionCall,
+        JSON.stringify({ error: `Tool ${functionCall.name} not found` })
+      );
+      return;
+    }
+
+    const history = JSON.parse(JSON.stringify(getHistory()));
+    const runContext = new RunContext<any>({ ...getContext(), history });
+
+    console.log("[RealtimeToolRuntime] Running tool:", functionCall.name, functionCall.arguments);
+    transport.emit({
+      type: "agent_tool_start",
+      details: runContext,
+      agent,
+      functionCall,
+    });
+
+    let output: string;
+    try {
+      const result = await tool.invoke(runContext, functionCall.arguments);
+      output = toToolOutput(result);
+    } catch (error) {
+      console.error(`[RealtimeToolRuntime] Tool ${functionCall.name} failed:`, error);
+      output = JSON.stringify({
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    this.sendFunctionCallOutput(functionCall, output);
+    transport.emit({
+      type: "agent_tool_end",
+      details: runContext,
+      agent,
+      functionCall,
+      result: output,
+    });
+  }
+
+  private async runHandoff(
+    functionCall: RealtimeFunctionCall,
+    fromAgent: RealtimeAgent,
+    toAgent: RealtimeAgent
+  ): Promise<void> {
+    const { transport, getContext, getHistory, onHandoff } = this.options;
+    console.log(
+      `[RealtimeToolRuntime] Handoff: ${fromAgent.name} -> ${toAgent.name}`
+    );
+
+    try {
+      await onHandoff?.(toAgent, fromAgent);
+    } catch (error) {
+      console.error("[RealtimeToolRuntime] Handoff failed:", error);
+      this.sendFunctionCallOutput(
+        functionCall,
+        JSON.stringify({
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      return;
+    }
+
+    const history = JSON.parse(JSON.stringify(getHistory()));
+    transport.emit({
+      type: "agent_handoff",
+      item: new RunContext<any>({ ...getContext(), history }),
+      fromAgent: fromAgent.name,
+      toAgent: toAgent.name,
+      functionCall,
+    });
+    this.sendFunctionCallOutput(functionCall, getTransferMessage(toAgent));
+  }
+}
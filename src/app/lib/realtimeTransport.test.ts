@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { createServer, IncomingHttpHeaders, Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { POST } from "../api/realtime/webrtc/route";
+import { isRealtimeTransportKind, toWebRtcUrl } from "./realtimeTransport";
+import { issueSessionToken } from "./sessionTokens";
+
+describe("realtime transports", () => {
+  it("derives the WebRTC endpoint from the WebSocket one", () => {
+    assert.equal(toWebRtcUrl("wss://api.cometapi.com/v1/realtime"), "https://api.cometapi.com/v1/realtime");
+    assert.equal(toWebRtcUrl("ws://localhost:3002/v1/realtime"), "http://localhost:3002/v1/realtime");
+    assert.equal(toWebRtcUrl("https://example.com/rtc"), "https://example.com/rtc");
+  });
+
+  it("recognizes transport names", () => {
+    assert.ok(isRealtimeTransportKind("webrtc"));
+    assert.ok(!isRealtimeTransportKind("carrier-pigeon"));
+    assert.ok(!isRealtimeTransportKind(null));
+  });
+});
+
+describe("/api/realtime/webrtc", () => {
+  const savedEnv = { ...process.env };
+  let server: Server | null = null;
+  let received: { url?: string; headers: IncomingHttpHeaders; body: string } | null = null;
+
+  beforeEach(async () => {
+    mock.method(console, "warn", () => {});
+    server = createServer(async (req, res) => {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      received = { url: req.url, headers: req.headers, body };
+      res.writeHead(201, { "Content-Type": "application/sdp" }).end("v=0 answer");
+    });
+    server.listen(0);
+    await once(server, "listening");
+    process.env.COMETAPI_KEY = "sk-server-key";
+    process.env.COMETAPI_REALTIME_WEBRTC_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/realtime`;
+  });
+
+  afterEach(async () => {
+    process.env = { ...savedEnv };
+    received = null;
+    mock.restoreAll();
+    await new Promise((resolve) => server!.close(resolve));
+  });
+
+  const postOffer = (token: string | null, model = "gpt-realtime", scenario = "default") =>
+    POST(
+      new Request(`http://localhost/api/realtime/webrtc?model=${model}&scenario=${scenario}`, {
+        method: "POST",
+        body: "v=0 offer",
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      })
+    );
+
+  it("swaps the session token for the server key", async () => {
+    const { token } = issueSessionToken({ model: "gpt-realtime", scenario: "default" });
+
+    const response = await postOffer(token);
+
+    assert.equal(response.status, 201);
+    assert.equal(await response.text(), "v=0 answer");
+    assert.equal(received!.url, "/v1/realtime?model=gpt-realtime");
+    assert.equal(received!.headers.authorization, "Bearer sk-server-key");
+    assert.equal(received!.headers["content-type"], "application/sdp");
+    assert.equal(received!.body, "v=0 offer");
+  });
+
+  it("rejects missing, reused and mismatched tokens", async () => {
+    assert.equal((await postOffer(null)).status, 401);
+
+    const { token } = issueSessionToken({ model: "gpt-realtime", scenario: "default" });
+    assert.equal((await postOffer(token)).status, 201);
+    const reused = await postOffer(token);
+    assert.equal(reused.status, 401);
+    assert.match((await reused.json()).message, /already used/);
+
+    const other = issueSessionToken({ model: "gpt-realtime", scenario: "default" }).token;
+    assert.equal((await postOffer(other, "other-model")).status, 401);
+    const otherScenario = issueSessionToken({ model: "gpt-realtime", scenario: "default" }).token;
+    assert.equal((await postOffer(otherScenario, "gpt-realtime", "chatSupervisor")).status, 401);
+  });
+});
@@ -0,0 +1,59 @@
+import type {
+  RealtimeClientEvent,
+  RealtimeEvent,
+  RealtimeEventOf,
+  RealtimeEventType,
+} from "./realtimeEvents";
+import type { RealtimeProtocol } from "./realtimeProtocol";
+
+/**
+ * Realtime Transports
+ *
+ * How the browser talks to the realtime service. Both transports exchange the
+ * same JSON events and emit them normalized to GA (see realtimeProtocol.ts);
+ * they differ in how audio travels:
+ * - `websocket` (CometAPIWebSocket): microphone frames and assistant audio
+ *   are base64 PCM inside the events, captured and played by the page
+ * - `webrtc` (CometAPIWebRTC): audio is a media track negotiated over SDP, so
+ *   the browser's codec preferences (Opus, PCMU, PCMA) apply; events go over
+ *   a data channel
+ */
+
+export type RealtimeTransportKind = "websocket" | "webrtc";
+
+export const REALTIME_TRANSPORTS: RealtimeTransportKind[] = ["websocket", "webrtc"];
+
+export type RealtimeEventHandler<T extends RealtimeEventType | "*" = "*"> = (
+  event: T extends RealtimeEventType ? RealtimeEventOf<T> : RealtimeEvent
+) => void;
+
+export interface RealtimeTransport {
+  /** Dialect used for outgoing events; null while auto-detection is pending. */
+  readonly protocol: RealtimeProtocol | null;
+  readonly isConnected: boolean;
+  /** Resolves once events can be sent. */
+  connect(): Promise<void>;
+  sendEvent(event: RealtimeClientEvent): void;
+  on<T extends RealtimeEventType | "*">(eventType: T, handler: RealtimeEventHandler<T>): void;
+  off<T extends RealtimeEventType | "*">(eventType: T, handler: RealtimeEventHandler<T>): void;
+  /** Hands a client-side event (e.g. agent_tool_start) to the handlers. */
+  emit(event: RealtimeEvent): void;
+  /** Cancels the active response and cuts off what the user hasn't heard yet. */
+  interrupt(): void;
+  /** Silences assistant audio locally; transcripts keep flowing. */
+  setOutputMuted(muted: boolean): void;
+  /** Disconnects and releases the microphone. Handlers get no `close` event. */
+  close(): void;
+}
+
+export function isRealtimeTransportKind(value: unknown): value is RealtimeTransportKind {
+  return REALTIME_TRANSPORTS.includes(value as RealtimeTransportKind);
+}
+
+/**
+ * The HTTP endpoint WebRTC offers are posted to, for a realtime WebSocket
+ * URL: `wss://api.cometapi.com/v1/realtime` -> `https://api.cometapi.com/v1/realtime`.
+ */
+export function toWebRtcUrl(realtimeUrl: string): string {
+  return realtimeUrl.replace(/^ws(s?):\/\//i, "http$1://");
+}
@@ -0,0 +1,214 @@
+import { z } from "zod";
+
+/**
+ * Declarative Scenarios
+ *
+ * Scenarios defined as data instead of TypeScript: one JSON or YAML file per
+ * scenario in the scenarios directory (see scenarioLoader.ts), served by
+ * /api/scenarios and turned into RealtimeAgents by
+ * agentConfigs/declarativeScenario.ts.
+ *
+ * Tool behaviour is a static fixture, answered in the browser; an HTTP
+ * endpoint; or `builtin`, the TypeScript tool of the same name in the
+ * scenario the definition `extends`. For scenario files the server calls HTTP
+ * endpoints (/api/scenarios/[scenario]/tools/[tool]) so headers and secrets
+ * stay there; scenarios edited or saved in the browser call them directly.
+ */
+
+export const SCENARIO_KEY_PATTERN = /^[\w-]{1,64}$/;
+const NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export const JsonSchemaObjectSchema = z
+  .object({
+    type: z.literal("object"),
+    properties: z.record(z.any()).default({}),
+    required: z.array(z.string()).optional(),
+    additionalProperties: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const FixtureToolBehaviorSchema = z.object({
+  type: z.literal("fixture"),
+  /** Returned when no case matches. */
+  result: z.any(),
+  /** First case whose `match` values all equal the call's arguments wins. */
+  cases: z
+    .array(z.object({ match: z.record(z.any()), result: z.any() }))
+    .optional(),
+});
+
+export const HttpToolBehaviorSchema = z.object({
+  type: z.literal("http"),
+  url: z.string().url(),
+  method: z.enum(["GET", "POST"]).default("POST"),
+  /** `${NAME}` in a value is replaced with the server's environment variable. */
+  headers: z.record(z.string()).optional(),
+  timeoutMs: z.number().int().positive().max(60_000).default(10_000),
+});
+
+/** The tool of the same name in the scenario named by `extends`. */
+export const BuiltinToolBehaviorSchema = z.object({
+  type: z.literal("builtin"),
+});
+
+export const ScenarioToolDefinitionSchema = z.object({
+  name: z.string().regex(NAME_PATTERN),
+  description: z.string(),
+  parameters: JsonSchemaObjectSchema.default({ type: "object", properties: {} }),
+  behavior: z.discriminatedUnion("type", [
+    FixtureToolBehaviorSchema,
+    HttpToolBehaviorSchema,
+    BuiltinToolBehaviorSchema,
+  ]),
+});
+
+export const ScenarioAgentDefinitionSchema = z.object({
+  name: z.string().regex(NAME_PATTERN),
+  voice: z.string().optional(),
+  instructions: z.string(),
+  handoffDescription: z.string().optional(),
+  /** Names of agents in the same scenario. */
+  handoffs: z.array(z.string()).default([]),
+  tools: z.array(ScenarioToolDefinitionSchema).default([]),
+});
+
+export const ScenarioDefinitionSchema = z
+  .object({
+    description: z.string().optional(),
+    /** Company the moderation guardrail checks the agents' brand against. */
+    companyName: z.string().optional(),
+    /** Built-in (TypeScript) scenario that `builtin` tools come from. */
+    extends: z.string().optional(),
+    /** The first agent is the default root agent. */
+    agents: z.array(ScenarioAgentDefinitionSchema).min(1),
+  })
+  .superRefine((scenario, ctx) => {
+    const names = scenario.agents.map((agent) => agent.name);
+    scenario.agents.forEach((agent, index) => {
+      if (names.indexOf(agent.name) !== index) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["agents", index, "name"],
+          message: `Duplicate agent name: ${agent.name}`,
+        });
+      }
+      agent.handoffs.forEach((target, handoffIndex) => {
+        if (!names.includes(target)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["agents", index, "handoffs", handoffIndex],
+            message: `Unknown handoff target: ${target}`,
+          });
+        }
+      });
+      const toolNames = agent.tools.map((tool) => tool.name);
+      agent.tools.forEach((tool, toolIndex) => {
+        if (toolNames.indexOf(tool.name) !== toolIndex) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["agents", index, "tools", toolIndex, "name"],
+            message: `Duplicate tool name: ${tool.name}`,
+          });
+        }
+        if (tool.behavior.type === "builtin" && !scenario.extends) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["agents", index, "tools", toolIndex, "behavior"],
+            message: "Builtin tools need the scenario's `extends`",
+          });
+        }
+      });
+    });
+  });
+
+export type FixtureToolBehavior = z.infer<typeof FixtureToolBehaviorSchema>;
+export type HttpToolBehavior = z.infer<typeof HttpToolBehaviorSchema>;
+export type ScenarioToolDefinition = z.infer<typeof ScenarioToolDefinitionSchema>;
+export type ScenarioAgentDefinition = z.infer<typeof ScenarioAgentDefinitionSchema>;
+export type ScenarioDefinition = z.infer<typeof ScenarioDefinitionSchema>;
+
+export interface ScenarioLoadError {
+  file: string;
+  message: string;
+}
+
+export function formatZodIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+export function resolveFixture(behavior: FixtureToolBehavior, args: Record<string, any>): any {
+  const match = behavior.cases?.find((fixtureCase) =>
+    Object.entries(fixtureCase.match).every(
+      ([key, value]) => JSON.stringify(args[key]) === JSON.stringify(value)
+    )
+  );
+  return match ? match.result : behavior.result;
+}
+
+/**
+ * What the browser gets: HTTP headers may carry secrets, so they stay on the
+ * server.
+ */
+export function toPublicScenarioDefinition(scenario: ScenarioDefinition): ScenarioDefinition {
+  return {
+    ...scenario,
+    agents: scenario.agents.map((agent) => ({
+      ...agent,
+      tools: agent.tools.map((tool) =>
+        tool.behavior.type === "http"
+          ? { ...tool, behavior: { ...tool.behavior, headers: undefined } }
+          : tool
+      ),
+    })),
+  };
+}
+
+function interpolateEnv(value: string, env: Record<string, string | undefined>): string {
+  return value.replace(/\$\{(\w+)\}/g, (_match, name: string) => env[name] ?? "");
+}
+
+/**
+ * Call a tool's HTTP endpoint: arguments go in the query string for GET and
+ * as the JSON body for POST. JSON responses are returned parsed, anything else
+ * as text. `${NAME}` in header values comes from `env` (the server passes
+ * process.env).
+ */
+export async function callHttpTool(
+  behavior: HttpToolBehavior,
+  args: Record<string, any>,
+  env: Record<string, string | undefined> = {}
+): Promise<unknown> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(behavior.headers ?? {})) {
+    headers[name] = interpolateEnv(value, env);
+  }
+
+  const url = new URL(behavior.url);
+  let body: string | undefined;
+  if (behavior.method === "GET") {
+    for (const [name, value] of Object.entries(args)) {
+      url.searchParams.set(name, typeof value === "string" ? value : JSON.stringify(value));
+    }
+  } else {
+    headers["Content-Type"] ??= "application/json";
+    body = JSON.stringify(args);
+  }
+
+  const response = await fetch(url, {
+    method: behavior.method,
+    headers,
+    body,
+    signal: AbortSignal.timeout(behavior.timeoutMs),
+  });
+  const rawText = await response.text();
+  if (!response.ok) {
+    throw new Error(`Tool endpoint returned ${response.status}: ${rawText.slice(0, 500)}`);
+  }
+  try {
+    return JSON.parse(rawText);
+  } catch {
+    return rawText;
+  }
+}
@@ -0,0 +1,197 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RealtimeAgent, tool } from "@openai/agents/realtime";
+import {
+  ScenarioDefinition,
+  ScenarioDefinitionSchema,
+  toPublicScenarioDefinition,
+} from "./scenarioDefinitions";
+import {
+  addAgent,
+  agentsToScenarioDefinition,
+  fromParameterFields,
+  isToolUnchangedFromFile,
+  removeAgent,
+  renameAgent,
+  serializeScenario,
+  setHandoff,
+  toParameterFields,
+} from "./scenarioEditing";
+import { parseScenarioFile } from "./scenarioLoader";
+
+const scenario: ScenarioDefinition = {
+  agents: [
+    { name: "greeter", instructions: "Greet.", handoffs: ["haiku", "weather"], tools: [] },
+    { name: "haiku", instructions: "Write haikus.", handoffs: ["greeter"], tools: [] },
+    { name: "weather", instructions: "Report weather.", handoffs: [], tools: [] },
+  ],
+};
+
+const handoffs = (definition: ScenarioDefinition) =>
+  Object.fromEntries(definition.agents.map((agent) => [agent.name, agent.handoffs]));
+
+describe("scenario editing", () => {
+  it("keeps handoffs pointing at renamed and removed agents consistent", () => {
+    const renamed = renameAgent(scenario, 1, "poet");
+    assert.deepEqual(handoffs(renamed), {
+      greeter: ["poet", "weather"],
+      poet: ["greeter"],
+      weather: [],
+    });
+
+    const removed = removeAgent(renamed, 2);
+    assert.deepEqual(handoffs(removed), { greeter: ["poet"], poet: ["greeter"] });
+    assert.ok(ScenarioDefinitionSchema.safeParse(removed).success);
+  });
+
+  it("adds and removes handoff edges and agents with unique names", () => {
+    const edited = setHandoff(setHandoff(scenario, "weather", "greeter", true), "greeter", "haiku", false);
+    assert.deepEqual(handoffs(edited), {
+      greeter: ["weather"],
+      haiku: ["greeter"],
+      weather: ["greeter"],
+    });
+
+    const added = addAgent(addAgent(scenario));
+    assert.deepEqual(
+      added.agents.map((agent) => agent.name),
+      ["greeter", "haiku", "weather", "agent4", "agent5"]
+    );
+  });
+
+  it("round-trips tool parameters through the form fields", () => {
+    const parameters = {
+      type: "object" as const,
+      properties: {
+        reference: { type: "string", description: "Booking reference", pattern: "^AL-" },
+        nights: { type: "integer" },
+      },
+      required: ["reference"],
+      additionalProperties: false,
+    };
+
+    const fields = toParameterFields(parameters);
+    assert.deepEqual(fields[0], {
+      name: "reference",
+      type: "string",
+      description: "Booking reference",
+      required: true,
+      rest: { pattern: "^AL-" },
+    });
+    assert.deepEqual(fromParameterFields(fields, parameters), parameters);
+
+    const [, nights] = fields;
+    assert.deepEqual(fromParameterFields([{ ...nights, name: "stay", required: true }], parameters), {
+      type: "object",
+      properties: { stay: { type: "integer" } },
+      required: ["stay"],
+      additionalProperties: false,
+    });
+  });
+
+  it("describes TypeScript agents with built-in tools", () => {
+    const writer = new RealtimeAgent({
+      name: "writer",
+      instructions: "Write.",
+      handoffDescription: "Writes things",
+      tools: [
+        tool({
+          name: "save",
+          description: "Save a draft",
+          parameters: {
+            type: "object",
+            properties: { text: { type: "string" } },
+            required: ["text"],
+            additionalProperties: false,
+          },
+          execute: async () => "saved",
+        }),
+      ],
+    });
+    const editor = new RealtimeAgent({ name: "editor", instructions: "Edit.", handoffs: [writer] });
+
+    const definition = agentsToScenarioDefinition("writing", [editor, writer]);
+
+    assert.equal(definition.extends, "writing");
+    assert.deepEqual(handoffs(definition), { editor: ["writer"], writer: [] });
+    assert.equal(definition.agents[1].handoffDescription, "Writes things");
+    assert.equal(definition.agents[1].tools[0].name, "save");
+    assert.deepEqual(definition.agents[1].tools[0].behavior, { type: "builtin" });
+    assert.ok(ScenarioDefinitionSchema.safeParse(definition).success);
+  });
+
+  it("rejects built-in tools without a scenario to extend", () => {
+    const result = ScenarioDefinitionSchema.safeParse({
+      agents: [
+        {
+          name: "writer",
+          instructions: "Write.",
+          tools: [{ name: "save", description: "Save", behavior: { type: "builtin" } }],
+        },
+      ],
+    });
+    assert.equal(result.success, false);
+  });
+
+  it("tells tools the edit left alone from added and changed ones", () => {
+    const file = ScenarioDefinitionSchema.parse({
+      agents: [
+        {
+          name: "support",
+          instructions: "Help.",
+          tools: [
+            {
+              name: "lookupOrder",
+              description: "Find an order",
+              behavior: {
+                type: "http",
+                url: "https://shop.example/orders",
+                headers: { Authorization: "Bearer ${SHOP_TOKEN}" },
+              },
+            },
+          ],
+        },
+      ],
+    });
+    // The editor starts from what /api/scenarios serves, without the headers
+    const edited = toPublicScenarioDefinition(file);
+    const [lookupOrder] = edited.agents[0].tools;
+    assert.equal(lookupOrder.behavior.type, "http");
+
+    assert.ok(isToolUnchangedFromFile(file, "support", { ...lookupOrder, description: "Orders" }));
+    assert.ok(
+      !isToolUnchangedFromFile(file, "support", {
+        ...lookupOrder,
+        behavior: { ...lookupOrder.behavior, url: "https://shop.example/v2/orders" } as any,
+      })
+    );
+    assert.ok(!isToolUnchangedFromFile(file, "support", { ...lookupOrder, name: "findOrder" }));
+    assert.ok(!isToolUnchangedFromFile(file, "sales", lookupOrder));
+  });
+
+  it("exports YAML and JSON that load back as the same scenario", () => {
+    const withTool = ScenarioDefinitionSchema.parse({
+      description: "Weather line",
+      agents: [
+        ...scenario.agents.slice(0, 2),
+        {
+          ...scenario.agents[2],
+          voice: "coral",
+          tools: [
+            {
+              name: "forecast",
+              description: "Forecast for a city",
+              behavior: { type: "fixture", result: { sky: "clear" } },
+            },
+          ],
+        },
+      ],
+    });
+
+    for (const format of ["yaml", "json"] as const) {
+      const content = serializeScenario(withTool, format);
+      assert.deepEqual(parseScenarioFile(`weather.${format}`, content), withTool);
+    }
+    assert.ok(!serializeScenario(withTool, "yaml").includes("handoffDescription"));
+  });
+});
@@ -0,0 +1,223 @@
+import yaml from "js-yaml";
+import type { RealtimeAgent } from "@openai/agents/realtime";
+import { getHandoffTargets } from "./realtimeHandoffs";
+import {
+  ScenarioAgentDefinition,
+  ScenarioDefinition,
+  ScenarioToolDefinition,
+} from "./scenarioDefinitions";
+
+/**
+ * Scenario Editing
+ *
+ * Pure helpers behind the scenario editor (components/ScenarioEditor.tsx):
+ * turning the TypeScript scenarios into editable definitions, keeping
+ * handoffs consistent as agents are renamed or removed, the JSON-schema
+ * parameter form and export.
+ */
+
+export const REALTIME_VOICES = [
+  "alloy",
+  "ash",
+  "ballad",
+  "coral",
+  "echo",
+  "sage",
+  "shimmer",
+  "verse",
+];
+
+export const PARAMETER_TYPES = ["string", "number", "integer", "boolean", "array", "object"];
+
+/**
+ * A definition of a TypeScript scenario. Its tools are `builtin`, so they keep
+ * running their TypeScript implementation.
+ */
+export function agentsToScenarioDefinition(
+  scenarioKey: string,
+  agents: RealtimeAgent[]
+): ScenarioDefinition {
+  return {
+    extends: scenarioKey,
+    agents: agents.map((agent) => ({
+      name: agent.name,
+      voice: agent.voice || undefined,
+      instructions: typeof agent.instructions === "string" ? agent.instructions : "",
+      handoffDescription: agent.handoffDescription || undefined,
+      handoffs: getHandoffTargets(agent).map((target) => target.name),
+      tools: agent.tools
+        .filter((tool) => tool.type === "function")
+        .map((tool: any) => ({
+          name: tool.name,
+          description: tool.description ?? "",
+          parameters: tool.parameters ?? { type: "object", properties: {} },
+          behavior: { type: "builtin" as const },
+        })),
+    })),
+  };
+}
+
+function updateAgents(
+  scenario: ScenarioDefinition,
+  update: (agents: ScenarioAgentDefinition[]) => ScenarioAgentDefinition[]
+): ScenarioDefinition {
+  return { ...scenario, agents: update(scenario.agents) };
+}
+
+export function updateAgent(
+  scenario: ScenarioDefinition,
+  index: number,
+  changes: Partial<ScenarioAgentDefinition>
+): ScenarioDefinition {
+  return updateAgents(scenario, (agents) =>
+    agents.map((agent, agentIndex) => (agentIndex === index ? { ...agent, ...changes } : agent))
+  );
+}
+
+/** Renames the agent and every handoff pointing at it. */
+export function renameAgent(
+  scenario: ScenarioDefinition,
+  index: number,
+  name: string
+): ScenarioDefinition {
+  const previous = scenario.agents[index].name;
+  return updateAgents(scenario, (agents) =>
+    agents.map((agent, agentIndex) => ({
+      ...agent,
+      name: agentIndex === index ? name : agent.name,
+      handoffs: agent.handoffs.map((target) => (target === previous ? name : target)),
+    }))
+  );
+}
+
+export function addAgent(scenario: ScenarioDefinition): ScenarioDefinition {
+  const names = new Set(scenario.agents.map((agent) => agent.name));
+  let suffix = scenario.agents.length + 1;
+  while (names.has(`agent${suffix}`)) suffix += 1;
+  return updateAgents(scenario, (agents) => [
+    ...agents,
+    { name: `agent${suffix}`, instructions: "", handoffs: [], tools: [] },
+  ]);
+}
+
+/** Removes the agent and every handoff pointing at it. */
+export function removeAgent(scenario: ScenarioDefinition, index: number): ScenarioDefinition {
+  const removed = scenario.agents[index].name;
+  return updateAgents(scenario, (agents) =>
+    agents
+      .filter((_agent, agentIndex) => agentIndex !== index)
+      .map((agent) => ({
+        ...agent,
+        handoffs: agent.handoffs.filter((target) => target !== removed),
+      }))
+  );
+}
+
+export function setHandoff(
+  scenario: ScenarioDefinition,
+  from: string,
+  to: string,
+  enabled: boolean
+): ScenarioDefinition {
+  return updateAgents(scenario, (agents) =>
+    agents.map((agent) => {
+      if (agent.name !== from) return agent;
+      const handoffs = agent.handoffs.filter((target) => target !== to);
+      return { ...agent, handoffs: enabled ? [...handoffs, to] : handoffs };
+    })
+  );
+}
+
+export function createTool(existing: ScenarioToolDefinition[]): ScenarioToolDefinition {
+  const names = new Set(existing.map((tool) => tool.name));
+  let suffix = existing.length + 1;
+  while (names.has(`tool${suffix}`)) suffix += 1;
+  return {
+    name: `tool${suffix}`,
+    description: "",
+    parameters: { type: "object", properties: {}, required: [], additionalProperties: false },
+    behavior: { type: "fixture", result: {} },
+  };
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== "object" || typeof b !== "object") return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((key) =>
+    isSameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * Whether an edited tool still does what the scenario file says. The server
+ * runs file tools by agent and tool name, with the file's behavior and
+ * headers, so only these can keep running there. Headers never reach the
+ * browser, so they aren't compared.
+ */
+export function isToolUnchangedFromFile(
+  fileScenario: ScenarioDefinition,
+  agentName: string,
+  tool: ScenarioToolDefinition
+): boolean {
+  const original = fileScenario.agents
+    .find((agent) => agent.name === agentName)
+    ?.tools.find((candidate) => candidate.name === tool.name);
+  const withoutHeaders = (behavior: ScenarioToolDefinition["behavior"]) =>
+    behavior.type === "http" ? { ...behavior, headers: undefined } : behavior;
+  return !!original && isSameValue(withoutHeaders(original.behavior), withoutHeaders(tool.behavior));
+}
+
+export interface ParameterField {
+  name: string;
+  type: string;
+  description: string;
+  required: boolean;
+  /** Anything else in the property's schema (enum, items, ...), kept as is. */
+  rest: Record<string, any>;
+}
+
+export function toParameterFields(parameters: ScenarioToolDefinition["parameters"]): ParameterField[] {
+  const required = new Set(parameters.required ?? []);
+  return Object.entries(parameters.properties).map(([name, schema]) => {
+    const { type, description, ...rest } = (schema ?? {}) as Record<string, any>;
+    return {
+      name,
+      type: typeof type === "string" ? type : "string",
+      description: description ?? "",
+      required: required.has(name),
+      rest,
+    };
+  });
+}
+
+export function fromParameterFields(
+  fields: ParameterField[],
+  parameters: ScenarioToolDefinition["parameters"]
+): ScenarioToolDefinition["parameters"] {
+  return {
+    ...parameters,
+    properties: Object.fromEntries(
+      fields.map((field) => [
+        field.name,
+        {
+          ...field.rest,
+          type: field.type,
+          ...(field.description ? { description: field.description } : {}),
+        },
+      ])
+    ),
+    required: fields.filter((field) => field.required).map((field) => field.name),
+  };
+}
+
+/**
+ * The file contents for the scenarios directory, without unset optional fields.
+ */
+export function serializeScenario(scenario: ScenarioDefinition, format: "yaml" | "json"): string {
+  const plain = JSON.parse(JSON.stringify(scenario));
+  return format === "json"
+    ? JSON.stringify(plain, null, 2) + "\n"
+    : yaml.dump(plain, { lineWidth: -1, noRefs: true });
+}
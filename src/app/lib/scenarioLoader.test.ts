@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { createServer, Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import {
+  callHttpTool,
+  resolveFixture,
+  ScenarioDefinitionSchema,
+  toPublicScenarioDefinition,
+} from "./scenarioDefinitions";
+import { loadScenarioDefinitions, parseScenarioFile } from "./scenarioLoader";
+
+const agent = (name: string, handoffs: string[] = []) => ({
+  name,
+  instructions: `You are ${name}.`,
+  handoffs,
+});
+
+describe("scenario definitions", () => {
+  it("loads the example scenarios", async () => {
+    const { scenarios, errors } = await loadScenarioDefinitions(join(process.cwd(), "scenarios"));
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(
+      scenarios.hotelConcierge.agents.map((definition) => definition.name),
+      ["frontDesk", "concierge"]
+    );
+  });
+
+  it("parses YAML and JSON and reports invalid definitions", () => {
+    const yamlScenario = parseScenarioFile(
+      "a.yaml",
+      "agents:\n  - name: greeter\n    instructions: Say hi.\n"
+    );
+    assert.deepEqual(yamlScenario.agents[0], {
+      name: "greeter",
+      instructions: "Say hi.",
+      handoffs: [],
+      tools: [],
+    });
+
+    assert.throws(
+      () =>
+        parseScenarioFile(
+          "b.json",
+          JSON.stringify({ agents: [agent("greeter", ["nobody"]), agent("greeter")] })
+        ),
+      /Invalid scenario b\.json: agents\.0\.handoffs\.0: Unknown handoff target: nobody; agents\.1\.name: Duplicate agent name: greeter/
+    );
+    assert.throws(() => parseScenarioFile("c.yaml", "agents: [\n"), /Could not parse c\.yaml/);
+  });
+
+  it("skips files that fail and keeps the rest", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "scenarios-"));
+    try {
+      await writeFile(join(dir, "good.json"), JSON.stringify({ agents: [agent("greeter")] }));
+      // Named like an Object.prototype key, which isn't a duplicate
+      await writeFile(join(dir, "constructor.json"), JSON.stringify({ agents: [agent("builder")] }));
+      await writeFile(join(dir, "bad.yml"), "agents: []\n");
+      await writeFile(join(dir, "notes.txt"), "ignored");
+
+      const { scenarios, errors } = await loadScenarioDefinitions(dir);
+
+      assert.deepEqual(Object.keys(scenarios), ["constructor", "good"]);
+      assert.equal(errors.length, 1);
+      assert.equal(errors[0].file, "bad.yml");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+    assert.deepEqual(await loadScenarioDefinitions(join(dir, "missing")), { scenarios: {}, errors: [] });
+  });
+
+  it("answers fixtures by the first matching case", () => {
+    const behavior = {
+      type: "fixture" as const,
+      result: { found: false },
+      cases: [
+        { match: { reference: "AL-1042" }, result: { found: true } },
+        { match: { reference: "AL-1042", nights: 2 }, result: "unreachable" },
+      ],
+    };
+
+    assert.deepEqual(resolveFixture(behavior, { reference: "AL-1042", nights: 2 }), { found: true });
+    assert.deepEqual(resolveFixture(behavior, { reference: "AL-9" }), { found: false });
+  });
+
+  it("keeps HTTP headers out of what the browser gets", () => {
+    const scenario = ScenarioDefinitionSchema.parse({
+      agents: [
+        {
+          ...agent("greeter"),
+          tools: [
+            {
+              name: "lookup",
+              description: "Look up",
+              behavior: {
+                type: "http",
+                url: "https://example.com/lookup",
+                headers: { Authorization: "Bearer ${LOOKUP_KEY}" },
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    const [tool] = toPublicScenarioDefinition(scenario).agents[0].tools;
+    assert.equal(tool.behavior.type, "http");
+    assert.equal("headers" in tool.behavior && tool.behavior.headers, undefined);
+  });
+});
+
+describe("callHttpTool", () => {
+  let server: Server | null = null;
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve));
+      server = null;
+    }
+  });
+
+  async function startEchoServer(): Promise<string> {
+    server = createServer(async (req, res) => {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      if (req.url?.includes("fail")) {
+        res.writeHead(500).end("broken");
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({ method: req.method, url: req.url, auth: req.headers.authorization, body })
+      );
+    });
+    server.listen(0);
+    await once(server, "listening");
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  it("posts arguments as JSON with interpolated headers", async () => {
+    const baseUrl = await startEchoServer();
+
+    const result = await callHttpTool(
+      {
+        type: "http",
+        url: `${baseUrl}/lookup`,
+        method: "POST",
+        headers: { Authorization: "Bearer ${LOOKUP_KEY}" },
+        timeoutMs: 5_000,
+      },
+      { reference: "AL-1042" },
+      { LOOKUP_KEY: "secret" }
+    );
+
+    assert.deepEqual(result, {
+      method: "POST",
+      url: "/lookup",
+      auth: "Bearer secret",
+      body: '{"reference":"AL-1042"}',
+    });
+  });
+
+  it("sends GET arguments in the query string and rejects errors", async () => {
+    const baseUrl = await startEchoServer();
+    const behavior = { type: "http" as const, method: "GET" as const, timeoutMs: 5_000 };
+
+    const result = await callHttpTool(
+      { ...behavior, url: `${baseUrl}/lookup?v=1` },
+      { reference: "AL 1042", nights: 2 }
+    );
+    assert.equal((result as { url: string }).url, "/lookup?v=1&reference=AL+1042&nights=2");
+
+    await assert.rejects(
+      () => callHttpTool({ ...behavior, url: `${baseUrl}/fail` }, {}),
+      /Tool endpoint returned 500: broken/
+    );
+  });
+});
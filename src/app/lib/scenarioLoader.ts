@@ -0,0 +1,74 @@
+import { readdir, readFile } from "fs/promises";
+import { basename, extname, join } from "path";
+import yaml from "js-yaml";
+import {
+  formatZodIssues,
+  SCENARIO_KEY_PATTERN,
+  ScenarioDefinition,
+  ScenarioDefinitionSchema,
+  ScenarioLoadError,
+} from "./scenarioDefinitions";
+
+/**
+ * Server side of declarative scenarios: reads the scenarios directory. The file name (without extension) is the scenario
+ * key shown in the dropdown.
+ */
+
+const SCENARIO_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+export interface LoadedScenarios {
+  scenarios: Record<string, ScenarioDefinition>;
+  errors: ScenarioLoadError[];
+}
+
+export function parseScenarioFile(file: string, text: string): ScenarioDefinition {
+  let raw: unknown;
+  try {
+    raw = extname(file) === ".json" ? JSON.parse(text) : yaml.load(text);
+  } catch (error) {
+    throw new Error(`Could not parse ${basename(file)}: ${(error as Error).message}`);
+  }
+
+  const parsed = ScenarioDefinitionSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid scenario ${basename(file)}: ${formatZodIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Every valid scenario in `dir`; files that fail to parse or validate are
+ * reported in `errors` instead of failing the rest.
+ */
+export async function loadScenarioDefinitions(dir: string): Promise<LoadedScenarios> {
+  let files: string[];
+  try {
+    files = (await readdir(dir)).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return { scenarios: {}, errors: [] };
+    throw error;
+  }
+
+  const loaded: LoadedScenarios = { scenarios: {}, errors: [] };
+  for (const file of files) {
+    const extension = extname(file);
+    if (!SCENARIO_EXTENSIONS.includes(extension)) continue;
+
+    const key = basename(file, extension);
+    if (!SCENARIO_KEY_PATTERN.test(key)) {
+      loaded.errors.push({ file, message: `Invalid scenario file name: ${file}` });
+      continue;
+    }
+    if (Object.hasOwn(loaded.scenarios, key)) {
+      loaded.errors.push({ file, message: `Duplicate scenario: ${key}` });
+      continue;
+    }
+
+    try {
+      loaded.scenarios[key] = parseScenarioFile(file, await readFile(join(dir, file), "utf8"));
+    } catch (error) {
+      loaded.errors.push({ file, message: (error as Error).message });
+    }
+  }
+  return loaded;
+}
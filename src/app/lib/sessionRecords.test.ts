@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import type { TranscriptItem } from "@/app/types";
+import { FileSessionStore } from "../api/sessions/sessionFileStore";
+import {
+  sessionMatchesQuery,
+  StoredSession,
+  StoredSessionSchema,
+  summarizeSession,
+  toStoredTranscriptItems,
+} from "./sessionRecords";
+
+function transcriptItem(overrides: Partial<TranscriptItem>): TranscriptItem {
+  return {
+    itemId: "item_1",
+    type: "MESSAGE",
+    ...(overrides.type === "BREADCRUMB" ? {} : { role: "user" as const }),
+    title: "",
+    expanded: false,
+    timestamp: "00:00:00.000",
+    createdAtMs: 0,
+    status: "DONE",
+    isHidden: false,
+    ...overrides,
+  };
+}
+
+function storedSession(overrides: Partial<StoredSession> = {}): StoredSession {
+  return {
+    id: "session_1",
+    scenario: "customerServiceRetail",
+    model: "gpt-realtime",
+    agents: ["authentication", "returns"],
+    handoffs: [{ fromAgent: "authentication", toAgent: "returns", at: 31_000 }],
+    transcriptItems: [
+      transcriptItem({ itemId: "hidden", title: "hi", isHidden: true }),
+      transcriptItem({ itemId: "item_1", title: "I want to return my snowboard" }),
+      transcriptItem({ itemId: "item_2", role: "assistant", title: "Sure, let me look that up" }),
+      transcriptItem({ itemId: "crumb", type: "BREADCRUMB", title: "Agent: returns" }),
+    ],
+    startedAt: 1_000,
+    endedAt: 61_000,
+    updatedAt: 61_000,
+    ...overrides,
+  };
+}
+
+describe("sessionRecords", () => {
+  it("summarizes visible messages and timing", () => {
+    assert.deepEqual(summarizeSession(storedSession()), {
+      id: "session_1",
+      scenario: "customerServiceRetail",
+      agents: ["authentication", "returns"],
+      startedAt: 1_000,
+      endedAt: 61_000,
+      durationMs: 60_000,
+      messageCount: 2,
+      preview: "I want to return my snowboard",
+    });
+    assert.equal(summarizeSession(storedSession({ endedAt: undefined })).durationMs, null);
+  });
+
+  it("matches queries against the scenario, agents and transcript", () => {
+    const session = storedSession();
+
+    assert.ok(sessionMatchesQuery(session, ""));
+    assert.ok(sessionMatchesQuery(session, "RETAIL"));
+    assert.ok(sessionMatchesQuery(session, "returns"));
+    assert.ok(sessionMatchesQuery(session, " snowboard "));
+    assert.ok(!sessionMatchesQuery(session, "refund"));
+  });
+
+  it("reduces breadcrumb data to plain JSON", () => {
+    const agent: any = { name: "returns", handoffs: [], tools: [{ invoke: () => "" }] };
+    agent.handoffs.push(agent);
+    const [item] = toStoredTranscriptItems([
+      transcriptItem({ type: "BREADCRUMB", title: "Agent: returns", data: agent }),
+    ]);
+
+    assert.deepEqual(item.data, { name: "returns", handoffs: ["[Circular]"], tools: [{}] });
+    assert.ok(StoredSessionSchema.safeParse(storedSession({ transcriptItems: [item] })).success);
+  });
+});
+
+describe("FileSessionStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    mock.method(console, "warn", () => {});
+    dir = await mkdtemp(join(tmpdir(), "sessions-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+    mock.restoreAll();
+  });
+
+  it("saves, lists newest first, searches and deletes", async () => {
+    const store = new FileSessionStore(join(dir, "nested"));
+    assert.deepEqual(await store.list(), []);
+
+    const older = storedSession({ id: "older" });
+    const newer = storedSession({ id: "newer", scenario: "simpleHandoff", startedAt: 5_000 });
+    await store.save(older);
+    await store.save(newer);
+
+    assert.deepEqual(await store.get("older"), older);
+    assert.equal(await store.get("missing"), null);
+    assert.deepEqual(
+      (await store.list()).map((summary) => summary.id),
+      ["newer", "older"]
+    );
+    assert.deepEqual(
+      (await store.list("simple")).map((summary) => summary.id),
+      ["newer"]
+    );
+
+    await store.delete("newer");
+    await store.delete("newer");
+    assert.deepEqual(
+      (await store.list()).map((summary) => summary.id),
+      ["older"]
+    );
+  });
+
+  it("skips files that aren't stored sessions", async () => {
+    const store = new FileSessionStore(dir);
+    await store.save(storedSession());
+    await writeFile(join(dir, "broken.json"), JSON.stringify({ id: "broken" }));
+
+    assert.deepEqual(
+      (await store.list()).map((summary) => summary.id),
+      ["session_1"]
+    );
+  });
+
+  it("rejects ids that could escape the directory", async () => {
+    const store = new FileSessionStore(dir);
+
+    await assert.rejects(() => store.get("../secrets"), /Invalid session id/);
+    await assert.rejects(() => store.delete("a/b"), /Invalid session id/);
+  });
+});
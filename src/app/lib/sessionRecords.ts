@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { ModerationCategoryZod, TranscriptItem } from "@/app/types";
+
+/**
+ * Stored Sessions
+ *
+ * A finished (or in-progress) conversation as it's kept in IndexedDB or the
+ * server-side store: the scenario, the agents and handoffs, the transcript
+ * (messages, breadcrumbs and guardrail results) and its timing. Shared by the
+ * browser stores (sessionStore.ts) and /api/sessions.
+ */
+
+export const SESSION_ID_PATTERN = /^[\w-]{1,64}$/;
+
+export const StoredGuardrailResultSchema = z.object({
+  status: z.enum(["IN_PROGRESS", "DONE"]),
+  testText: z.string().optional(),
+  category: ModerationCategoryZod.optional(),
+  rationale: z.string().optional(),
+});
+
+export const StoredTranscriptItemSchema = z.object({
+  itemId: z.string(),
+  type: z.enum(["MESSAGE", "BREADCRUMB"]),
+  role: z.enum(["user", "assistant"]).optional(),
+  title: z.string().optional(),
+  data: z.record(z.any()).optional(),
+  expanded: z.boolean(),
+  timestamp: z.string(),
+  createdAtMs: z.number(),
+  status: z.enum(["IN_PROGRESS", "DONE"]),
+  isHidden: z.boolean(),
+  guardrailResult: StoredGuardrailResultSchema.optional(),
+});
+
+export const StoredHandoffSchema = z.object({
+  fromAgent: z.string(),
+  toAgent: z.string(),
+  at: z.number(),
+});
+
+export const StoredSessionSchema = z.object({
+  id: z.string().regex(SESSION_ID_PATTERN),
+  scenario: z.string(),
+  model: z.string().optional(),
+  /** Root agent first, then every agent handed off to, in order. */
+  agents: z.array(z.string()),
+  handoffs: z.array(StoredHandoffSchema),
+  transcriptItems: z.array(StoredTranscriptItemSchema),
+  startedAt: z.number(),
+  /** Unset while the session is still running (or if the tab was closed). */
+  endedAt: z.number().optional(),
+  updatedAt: z.number(),
+});
+
+export type StoredHandoff = z.infer<typeof StoredHandoffSchema>;
+export type StoredSession = z.infer<typeof StoredSessionSchema>;
+
+export interface StoredSessionSummary {
+  id: string;
+  scenario: string;
+  agents: string[];
+  startedAt: number;
+  endedAt?: number;
+  durationMs: number | null;
+  messageCount: number;
+  /** First user message, for the list view. */
+  preview: string;
+}
+
+export function summarizeSession(session: StoredSession): StoredSessionSummary {
+  const messages = session.transcriptItems.filter(
+    (item) => item.type === "MESSAGE" && !item.isHidden
+  );
+  return {
+    id: session.id,
+    scenario: session.scenario,
+    agents: session.agents,
+    startedAt: session.startedAt,
+    endedAt: session.endedAt,
+    durationMs: session.endedAt ? session.endedAt - session.startedAt : null,
+    messageCount: messages.length,
+    preview: messages.find((item) => item.role === "user")?.title ?? "",
+  };
+}
+
+/**
+ * Case-insensitive match against the scenario, agent names and transcript text.
+ */
+export function sessionMatchesQuery(session: StoredSession, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [
+    session.scenario,
+    ...session.agents,
+    ...session.transcriptItems.map((item) => item.title ?? ""),
+  ].some((text) => text.toLowerCase().includes(needle));
+}
+
+/**
+ * Newest first.
+ */
+export function compareSessions(a: { startedAt: number }, b: { startedAt: number }): number {
+  return b.startedAt - a.startedAt;
+}
+
+/**
+ * Breadcrumb data can hold agents (with tools and handoff cycles) and other
+ * live objects; keep what survives JSON, with repeated references cut.
+ */
+function toPlainData(value: unknown): Record<string, any> | undefined {
+  if (value === undefined) return undefined;
+  const seen = new WeakSet<object>();
+  const json = JSON.stringify(value, (_key, nested) => {
+    if (typeof nested === "object" && nested !== null) {
+      if (seen.has(nested)) return "[Circular]";
+      seen.add(nested);
+    }
+    return nested;
+  });
+  const plain = json === undefined ? undefined : JSON.parse(json);
+  return plain && typeof plain === "object" && !Array.isArray(plain) ? plain : { value: plain };
+}
+
+export function toStoredTranscriptItems(items: TranscriptItem[]): TranscriptItem[] {
+  return items.map((item) => {
+    const { data, ...rest } = item;
+    return data === undefined ? { ...rest } : { ...rest, data: toPlainData(data) };
+  });
+}
@@ -0,0 +1,146 @@
+import {
+  compareSessions,
+  sessionMatchesQuery,
+  StoredSession,
+  StoredSessionSummary,
+  summarizeSession,
+} from "./sessionRecords";
+
+/**
+ * Session Stores (browser)
+ *
+ * Where the app keeps past conversations:
+ * - IndexedDB in this browser, by default
+ * - The server, through /api/sessions, when it has COMETAPI_SESSION_STORE_DIR
+ *   set (shared across browsers)
+ *
+ * `openSessionStore` asks /api/sessions once and picks one.
+ */
+
+export interface SessionStore {
+  readonly kind: "indexeddb" | "server";
+  list(query?: string): Promise<StoredSessionSummary[]>;
+  get(id: string): Promise<StoredSession | null>;
+  save(session: StoredSession): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+const DB_NAME = "cometapi-realtime-agents";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "sessions";
+const SESSIONS_API = "/api/sessions";
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDbSessionStore implements SessionStore {
+  readonly kind = "indexeddb";
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+      };
+      this.db = requestToPromise(request);
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(SESSIONS_STORE, mode).objectStore(SESSIONS_STORE);
+  }
+
+  async list(query = ""): Promise<StoredSessionSummary[]> {
+    const sessions: StoredSession[] = await requestToPromise((await this.store("readonly")).getAll());
+    return sessions
+      .filter((session) => sessionMatchesQuery(session, query))
+      .sort(compareSessions)
+      .map(summarizeSession);
+  }
+
+  async get(id: string): Promise<StoredSession | null> {
+    const session = await requestToPromise((await this.store("readonly")).get(id));
+    return session ?? null;
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    await requestToPromise((await this.store("readwrite")).put(session));
+  }
+
+  async delete(id: string): Promise<void> {
+    await requestToPromise((await this.store("readwrite")).delete(id));
+  }
+}
+
+async function readJson(response: Response) {
+  const rawText = await response.text();
+  if (!response.ok) {
+    let message = rawText || response.statusText;
+    try {
+      message = JSON.parse(rawText).message ?? message;
+    } catch {
+      // Not JSON: keep the raw text
+    }
+    throw new Error(message);
+  }
+  return rawText ? JSON.parse(rawText) : null;
+}
+
+export class RemoteSessionStore implements SessionStore {
+  readonly kind = "server";
+  private baseUrl: string;
+
+  constructor(baseUrl = SESSIONS_API) {
+    this.baseUrl = baseUrl;
+  }
+
+  async list(query = ""): Promise<StoredSessionSummary[]> {
+    const response = await fetch(`${this.baseUrl}?q=${encodeURIComponent(query)}`);
+    return (await readJson(response)).sessions;
+  }
+
+  async get(id: string): Promise<StoredSession | null> {
+    const response = await fetch(`${this.baseUrl}/${encodeURIComponent(id)}`);
+    if (response.status === 404) return null;
+    return (await readJson(response)).session;
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    await readJson(
+      await fetch(`${this.baseUrl}/${encodeURIComponent(session.id)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(session),
+      })
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    await readJson(
+      await fetch(`${this.baseUrl}/${encodeURIComponent(id)}`, { method: "DELETE" })
+    );
+  }
+}
+
+let sessionStore: Promise<SessionStore> | null = null;
+
+/**
+ * The server store when /api/sessions is enabled, IndexedDB otherwise.
+ */
+export function openSessionStore(): Promise<SessionStore> {
+  if (!sessionStore) {
+    sessionStore = fetch(SESSIONS_API, { method: "HEAD" })
+      .then((response): SessionStore =>
+        response.ok ? new RemoteSessionStore() : new IndexedDbSessionStore()
+      )
+      .catch(() => new IndexedDbSessionStore());
+  }
+  return sessionStore;
+}
@@ -0,0 +1,166 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+
+/**
+ * Realtime Session Tokens (server-only)
+ *
+ * Short-lived, single-use tokens handed to the browser instead of COMETAPI_KEY.
+ * A token is `base64url(payload).base64url(hmac)` where the payload binds it to
+ * a model, a scenario and an expiry. Whatever accepts browser connections
+ * verifies the token and then talks to CometAPI with the real key, so the key
+ * never leaves the server.
+ *
+ * Signed with COMETAPI_SESSION_SECRET. Without it a random per-process secret
+ * is used, which is fine for a single dev server but not for multiple instances.
+ */
+
+export const DEFAULT_SESSION_TOKEN_TTL_SECONDS = 60;
+
+export type SessionTokenClaims = {
+  /** Unique token id, used to enforce single use. */
+  jti: string;
+  model: string;
+  scenario: string;
+  /** Issued at / expires at, in seconds since epoch. */
+  iat: number;
+  exp: number;
+};
+
+export type SessionTokenVerification =
+  | { ok: true; claims: SessionTokenClaims }
+  | {
+      ok: false;
+      code: "malformed" | "bad_signature" | "expired" | "already_used" | "claim_mismatch";
+      message: string;
+    };
+
+type TokenStore = {
+  fallbackSecret: Buffer;
+  /** jti -> exp of tokens that were already redeemed. */
+  usedTokens: Map<string, number>;
+};
+
+// Route handlers and the relay may load separate copies of this module in the
+// same process; keep the fallback secret and replay cache shared between them.
+const globalStore = globalThis as typeof globalThis & {
+  __cometapiSessionTokens?: TokenStore;
+};
+
+function getStore(): TokenStore {
+  if (!globalStore.__cometapiSessionTokens) {
+    globalStore.__cometapiSessionTokens = {
+      fallbackSecret: randomBytes(32),
+      usedTokens: new Map(),
+    };
+  }
+  return globalStore.__cometapiSessionTokens;
+}
+
+let warnedAboutFallbackSecret = false;
+
+function getSigningSecret(): Buffer {
+  const secret = process.env.COMETAPI_SESSION_SECRET;
+  if (secret) return Buffer.from(secret, "utf8");
+
+  if (!warnedAboutFallbackSecret) {
+    warnedAboutFallbackSecret = true;
+    console.warn(
+      "[sessionTokens] COMETAPI_SESSION_SECRET is not set; using a random per-process secret"
+    );
+  }
+  return getStore().fallbackSecret;
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac("sha256", getSigningSecret()).update(encodedPayload).digest("base64url");
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function pruneUsedTokens(store: TokenStore, now: number): void {
+  store.usedTokens.forEach((exp, jti) => {
+    if (exp < now) store.usedTokens.delete(jti);
+  });
+}
+
+export function getSessionTokenTtlSeconds(): number {
+  const ttl = Number(process.env.COMETAPI_SESSION_TOKEN_TTL_SECONDS);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_SESSION_TOKEN_TTL_SECONDS;
+}
+
+export function issueSessionToken({
+  model,
+  scenario,
+  ttlSeconds = getSessionTokenTtlSeconds(),
+}: {
+  model: string;
+  scenario: string;
+  ttlSeconds?: number;
+}): { token: string; claims: SessionTokenClaims } {
+  const iat = nowSeconds();
+  const claims: SessionTokenClaims = {
+    jti: randomUUID(),
+    model,
+    scenario,
+    iat,
+    exp: iat + ttlSeconds,
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return { token: `${encodedPayload}.${sign(encodedPayload)}`, claims };
+}
+
+/**
+ * Check signature, expiry and (optionally) the expected model/scenario, then
+ * mark the token as used. A token verifies successfully at most once.
+ */
+export function verifySessionToken(
+  token: string,
+  expected: { model?: string; scenario?: string } = {}
+): SessionTokenVerification {
+  const [encodedPayload, signature, ...rest] = token.split(".");
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return { ok: false, code: "malformed", message: "Session token is malformed." };
+  }
+
+  const expectedSignature = Buffer.from(sign(encodedPayload));
+  const actualSignature = Buffer.from(signature);
+  if (
+    expectedSignature.length !== actualSignature.length ||
+    !timingSafeEqual(expectedSignature, actualSignature)
+  ) {
+    return { ok: false, code: "bad_signature", message: "Session token signature is invalid." };
+  }
+
+  let claims: SessionTokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+  } catch {
+    return { ok: false, code: "malformed", message: "Session token payload is malformed." };
+  }
+
+  const now = nowSeconds();
+  if (typeof claims.exp !== "number" || claims.exp < now) {
+    return { ok: false, code: "expired", message: "Session token has expired." };
+  }
+
+  if (
+    (expected.model && claims.model !== expected.model) ||
+    (expected.scenario !== undefined && claims.scenario !== expected.scenario)
+  ) {
+    return {
+      ok: false,
+      code: "claim_mismatch",
+      message: "Session token was issued for a different model or scenario.",
+    };
+  }
+
+  const store = getStore();
+  pruneUsedTokens(store, now);
+  if (store.usedTokens.has(claims.jti)) {
+    return { ok: false, code: "already_used", message: "Session token was already used." };
+  }
+  store.usedTokens.set(claims.jti, claims.exp);
+
+  return { ok: true, claims };
+}
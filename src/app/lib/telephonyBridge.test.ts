@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { RealtimeAgent } from "@openai/agents/realtime";
+import NodeWebSocket, { WebSocketServer } from "ws";
+import { startMockRealtimeServer } from "../api/realtime/mockServer";
+import { startTelephonyBridge, TELEPHONY_BRIDGE_PATH } from "../api/realtime/telephonyBridge";
+import { encodeG711 } from "./g711";
+import { getRuntimeConfig, REALTIME_RELAY_PATH } from "./realtimeServerConfig";
+import { closeServers, listen, waitUntil } from "./testServers";
+
+const agentSets = {
+  frontDesk: [new RealtimeAgent({ name: "frontDesk", instructions: "Greet the caller." })],
+};
+
+let sockets: NodeWebSocket[] = [];
+
+async function startBridge(realtimeUrl: string, secret = ""): Promise<number> {
+  const config = {
+    ...getRuntimeConfig(),
+    apiKey: "sk-test",
+    realtimeUrl,
+    proxyUrl: "",
+    telephonySecret: secret,
+  };
+  const bridge = startTelephonyBridge({ port: 0, getConfig: () => config, agentSets });
+  await listen(bridge);
+  return (bridge.address() as AddressInfo).port;
+}
+
+/**
+ * A phone provider: dials the bridge and collects what it gets back.
+ */
+async function dial(bridgePort: number, customParameters: Record<string, string>) {
+  const socket = new NodeWebSocket(`ws://127.0.0.1:${bridgePort}${TELEPHONY_BRIDGE_PATH}`);
+  sockets.push(socket);
+  const received: any[] = [];
+  socket.on("message", (data) => received.push(JSON.parse(data.toString())));
+  await once(socket, "open");
+
+  const send = (message: Record<string, unknown>) => socket.send(JSON.stringify(message));
+  send({ event: "connected", protocol: "Call", version: "1.0.0" });
+  send({
+    event: "start",
+    streamSid: "MZ1",
+    start: {
+      streamSid: "MZ1",
+      callSid: "CA1",
+      tracks: ["inbound"],
+      mediaFormat: { encoding: "audio/x-mulaw", sampleRate: 8000, channels: 1 },
+      customParameters,
+    },
+  });
+
+  const waitFor = async (predicate: (message: any) => boolean, description: string) => {
+    await waitUntil(() => received.some(predicate), description);
+    return received.find(predicate);
+  };
+  return { socket, received, send, waitFor };
+}
+
+beforeEach(() => {
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+});
+
+afterEach(async () => {
+  sockets.forEach((socket) => socket.terminate());
+  await closeServers();
+  sockets = [];
+  mock.restoreAll();
+});
+
+describe("telephony bridge", () => {
+  it("answers the call with μ-law audio followed by marks", async () => {
+    const realtimeUrl = await listen(
+      startMockRealtimeServer({ port: 0, protocol: "beta", realtime: false })
+    );
+    const call = await dial(await startBridge(realtimeUrl), { scenario: "frontDesk" });
+
+    const media = await call.waitFor((message) => message.event === "media", "media");
+    const mark = await call.waitFor((message) => message.event === "mark", "a mark");
+
+    assert.equal(media.streamSid, "MZ1");
+    // The mock answers in the session's format: 100 ms of μ-law is 800 bytes
+    assert.equal(Buffer.from(media.media.payload, "base64").length, 800);
+    assert.equal(call.received.indexOf(mark), call.received.indexOf(media) + 1);
+  });
+
+  it("forwards caller audio and clears unplayed audio on barge-in", async () => {
+    const upstreamEvents: any[] = [];
+    const chunk = Buffer.from(encodeG711(new Int16Array(800), "ulaw")).toString("base64");
+    const upstream = new WebSocketServer({
+      port: 0,
+      path: REALTIME_RELAY_PATH,
+      handleProtocols: () => "realtime",
+    });
+    upstream.on("connection", (socket) => {
+      const send = (event: Record<string, unknown>) => socket.send(JSON.stringify(event));
+      socket.on("message", (data) => {
+        const event = JSON.parse(data.toString());
+        upstreamEvents.push(event);
+        if (event.type === "response.create") {
+          for (let i = 0; i < 3; i++) {
+            send({
+              type: "response.output_audio.delta",
+              response_id: "resp_1",
+              item_id: "item_1",
+              output_index: 0,
+              content_index: 0,
+              delta: chunk,
+            });
+          }
+        }
+        if (event.type === "input_audio_buffer.append") {
+          send({ type: "input_audio_buffer.speech_started", item_id: "item_2", audio_start_ms: 0 });
+        }
+      });
+      send({ type: "session.created", session: { type: "realtime", output_modalities: ["audio"] } });
+    });
+    const call = await dial(await startBridge(await listen(upstream)), {
+      scenario: "frontDesk",
+    });
+
+    const marks = () => call.received.filter((message) => message.event === "mark");
+    await waitUntil(() => marks().length >= 3, "three marks");
+    // The caller has heard the first two chunks when they start talking
+    call.send({ event: "mark", streamSid: "MZ1", mark: { name: marks()[1].mark.name } });
+    call.send({ event: "media", streamSid: "MZ1", media: { track: "inbound", payload: "//8=" } });
+
+    await call.waitFor((message) => message.event === "clear", "clear");
+    await waitUntil(
+      () => upstreamEvents.some((event) => event.type === "conversation.item.truncate"),
+      "conversation.item.truncate"
+    );
+    const update = upstreamEvents.find((event) => event.type === "session.update");
+    assert.deepEqual(update.session.audio.input.format, { type: "audio/pcmu" });
+    assert.ok(update.session.instructions.startsWith("Greet the caller."));
+    assert.equal(
+      upstreamEvents.find((event) => event.type === "input_audio_buffer.append").audio,
+      "//8="
+    );
+    const truncate = upstreamEvents.find((event) => event.type === "conversation.item.truncate");
+    assert.deepEqual(truncate, {
+      type: "conversation.item.truncate",
+      event_id: truncate.event_id,
+      item_id: "item_1",
+      content_index: 0,
+      audio_end_ms: 200,
+    });
+  });
+
+  it("hangs up on an unknown scenario or a wrong secret", async () => {
+    const realtimeUrl = await listen(
+      startMockRealtimeServer({ port: 0, protocol: "ga", realtime: false })
+    );
+
+    const unknown = await dial(await startBridge(realtimeUrl), { scenario: "nope" });
+    const [code, reason] = await once(unknown.socket, "close");
+    assert.equal(code, 1008);
+    assert.match(reason.toString(), /Unknown scenario nope/);
+
+    const intruder = await dial(await startBridge(realtimeUrl, "s3cret"), {
+      scenario: "frontDesk",
+      secret: "guess",
+    });
+    assert.equal((await once(intruder.socket, "close"))[0], 1008);
+  });
+});
@@ -0,0 +1,96 @@
+import { z } from "zod";
+
+/**
+ * Telephony Media Streams
+ *
+ * The JSON framing phone providers use to stream a call over a WebSocket
+ * (Twilio Media Streams and compatible ones). The provider sends:
+ * - `connected`, then `start` with the stream id, the call id, the audio
+ *   format and the custom parameters of the call
+ * - `media` with 20 ms chunks of base64 μ-law at 8 kHz from the caller
+ * - `mark` when audio sent before a mark of ours has finished playing
+ * - `dtmf` for key presses and `stop` when the call ends
+ *
+ * and accepts `media` (audio for the caller), `mark` (tell me when playback
+ * gets here) and `clear` (drop the audio that hasn't played yet, barge-in).
+ */
+
+const streamSid = z.string();
+
+export const TelephonyStartMessageSchema = z
+  .object({
+    event: z.literal("start"),
+    streamSid: streamSid.optional(),
+    start: z
+      .object({
+        streamSid,
+        callSid: z.string().optional(),
+        mediaFormat: z
+          .object({
+            encoding: z.string(),
+            sampleRate: z.number(),
+            channels: z.number().optional(),
+          })
+          .passthrough()
+          .optional(),
+        customParameters: z.record(z.string()).optional(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+export const TelephonyInboundMessageSchema = z.discriminatedUnion("event", [
+  z.object({ event: z.literal("connected") }).passthrough(),
+  TelephonyStartMessageSchema,
+  z
+    .object({
+      event: z.literal("media"),
+      streamSid: streamSid.optional(),
+      media: z
+        .object({
+          track: z.string().optional(),
+          payload: z.string(),
+        })
+        .passthrough(),
+    })
+    .passthrough(),
+  z
+    .object({
+      event: z.literal("mark"),
+      streamSid: streamSid.optional(),
+      mark: z.object({ name: z.string() }).passthrough(),
+    })
+    .passthrough(),
+  z
+    .object({
+      event: z.literal("dtmf"),
+      streamSid: streamSid.optional(),
+      dtmf: z.object({ digit: z.string() }).passthrough(),
+    })
+    .passthrough(),
+  z.object({ event: z.literal("stop"), streamSid: streamSid.optional() }).passthrough(),
+]);
+
+export type TelephonyStartMessage = z.infer<typeof TelephonyStartMessageSchema>;
+export type TelephonyInboundMessage = z.infer<typeof TelephonyInboundMessageSchema>;
+
+export type TelephonyOutboundMessage =
+  | { event: "media"; streamSid: string; media: { payload: string } }
+  | { event: "mark"; streamSid: string; mark: { name: string } }
+  | { event: "clear"; streamSid: string };
+
+/** The only format the bridge speaks: G.711 μ-law, 8 kHz, mono. */
+export const TELEPHONY_AUDIO_ENCODING = "audio/x-mulaw";
+
+/**
+ * Parse a message from the provider; null for invalid JSON and messages we
+ * don't know.
+ */
+export function parseTelephonyMessage(data: string): TelephonyInboundMessage | null {
+  try {
+    const parsed = TelephonyInboundMessageSchema.safeParse(JSON.parse(data));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
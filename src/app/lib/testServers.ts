@@ -0,0 +1,68 @@
+import { once } from "node:events";
+import { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { WebSocketServer } from "ws";
+import { REALTIME_RELAY_PATH } from "./realtimeServerConfig";
+
+/**
+ * Test helpers shared by the suites that run against local servers: start and
+ * tear down servers on free ports, and poll for a condition with a deadline so
+ * a regression fails the test instead of hanging the run.
+ */
+
+const POLL_INTERVAL_MS = 5;
+const DEFAULT_WAIT_TIMEOUT_MS = 5000;
+
+let servers: (Server | WebSocketServer)[] = [];
+
+/**
+ * Start listening (HTTP servers on a free port; WebSocket servers are
+ * created with `port: 0`) and return the realtime URL on that port. The
+ * server is closed by `closeServers`.
+ */
+export async function listen(server: Server | WebSocketServer): Promise<string> {
+  servers.push(server);
+  if (server instanceof Server) {
+    server.listen(0, "127.0.0.1");
+  }
+  await once(server, "listening");
+  return getRealtimeUrl(server);
+}
+
+export function getRealtimeUrl(server: Server | WebSocketServer): string {
+  const { port } = server.address() as AddressInfo;
+  return `ws://127.0.0.1:${port}${REALTIME_RELAY_PATH}`;
+}
+
+/**
+ * Close every server started with `listen`, dropping their connections. Call from afterEach.
+ */
+export async function closeServers(): Promise<void> {
+  const closing = servers;
+  servers = [];
+  await Promise.all(
+    closing.map((server) => {
+      if (server instanceof WebSocketServer) {
+        server.clients.forEach((client) => client.terminate());
+      }
+      return new Promise((resolve) => server.close(resolve));
+    })
+  );
+}
+
+/**
+ * Poll until `predicate` holds; rejects after `timeoutMs` naming what it waited for.
+ */
+export async function waitUntil(
+  predicate: () => boolean,
+  description: string,
+  timeoutMs = DEFAULT_WAIT_TIMEOUT_MS
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out after ${timeoutMs} ms waiting for ${description}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { TranscriptItem } from "@/app/types";
+import { exportTranscript, toExportedTranscript } from "./transcriptExport";
+
+const START = Date.UTC(2025, 0, 1, 12, 0, 0);
+const exportedAt = new Date(START + 60_000);
+
+function item(offsetMs: number, overrides: Partial<TranscriptItem>): TranscriptItem {
+  return {
+    itemId: `item_${offsetMs}`,
+    type: "MESSAGE",
+    title: "",
+    expanded: false,
+    timestamp: "12:00:00.000",
+    createdAtMs: START + offsetMs,
+    status: "DONE",
+    isHidden: false,
+    ...overrides,
+  };
+}
+
+const agent: any = { name: "returns", handoffs: [] };
+agent.handoffs.push(agent);
+
+const items: TranscriptItem[] = [
+  item(4_000, { role: "assistant", title: "Let me check that order." }),
+  item(500, { type: "BREADCRUMB", title: "Agent: returns", data: agent }),
+  item(1_000, { role: "user", title: "I want to <return> my board" }),
+  item(1_200, { role: "user", title: "hidden", isHidden: true }),
+  item(2_000, { type: "BREADCRUMB", title: "function call: lookupOrders", data: { phone: "555" } }),
+  item(3_000, {
+    type: "BREADCRUMB",
+    title: "function call result: lookupOrders",
+    data: { orders: [{ id: "o1" }] },
+  }),
+  item(5_000, {
+    role: "assistant",
+    title: "That board is awful.",
+    guardrailResult: { status: "DONE", category: "OFF_BRAND", rationale: "Disparages products" },
+  }),
+  item(6_000, { role: "user", title: "[Transcribing...]", status: "IN_PROGRESS" }),
+];
+
+describe("transcriptExport", () => {
+  it("builds structured entries with agents, tools and guardrails", () => {
+    const transcript = toExportedTranscript(items, {
+      scenario: "customerServiceRetail",
+      startedAtMs: START,
+      exportedAt,
+    });
+
+    assert.equal(transcript.startedAt, "2025-01-01T12:00:00.000Z");
+    assert.deepEqual(
+      transcript.entries.map((entry) => [entry.type, entry.offsetMs]),
+      [
+        ["agent", 500],
+        ["message", 1_000],
+        ["tool_call", 2_000],
+        ["tool_result", 3_000],
+        ["message", 4_000],
+        ["message", 5_000],
+        ["message", 6_000],
+      ]
+    );
+    assert.deepEqual(transcript.entries[2], {
+      itemId: "item_2000",
+      timestamp: "12:00:00.000",
+      offsetMs: 2_000,
+      type: "tool_call",
+      agent: "returns",
+      name: "lookupOrders",
+      arguments: { phone: "555" },
+    });
+    assert.deepEqual(transcript.entries[5], {
+      itemId: "item_5000",
+      timestamp: "12:00:00.000",
+      offsetMs: 5_000,
+      type: "message",
+      role: "assistant",
+      agent: "returns",
+      text: "That board is awful.",
+      status: "DONE",
+      guardrail: { category: "OFF_BRAND", rationale: "Disparages products", testText: undefined },
+    });
+    // Circular agent data never makes it into the JSON
+    assert.doesNotThrow(() => exportTranscript("json", items, { exportedAt }));
+  });
+
+  it("writes SRT and WebVTT cues relative to the recording start", () => {
+    const srt = exportTranscript("srt", items, { startedAtMs: START - 1_000, exportedAt });
+    assert.equal(
+      srt.content,
+      [
+        "1\n00:00:02,000 --> 00:00:03,620\nUser: I want to <return> my board\n",
+        "2\n00:00:05,000 --> 00:00:06,000\nAssistant (returns): Let me check that order.\n",
+        "3\n00:00:06,000 --> 00:00:07,500\nAssistant (returns): That board is awful.\n",
+      ].join("\n")
+    );
+
+    const vtt = exportTranscript("vtt", items, { startedAtMs: START - 1_000, exportedAt });
+    assert.ok(vtt.content.startsWith("WEBVTT\n\n00:00:02.000 --> 00:00:03.620\n"));
+  });
+
+  it("keeps multi-paragraph messages inside a single cue", () => {
+    const paragraphs = [
+      item(1_000, { role: "assistant", title: "First paragraph.\n\n  Second paragraph.\r\n\r\nThird." }),
+      item(3_000, { role: "user", title: "Thanks" }),
+    ];
+
+    const srt = exportTranscript("srt", paragraphs, { startedAtMs: START, exportedAt });
+    assert.equal(
+      srt.content,
+      [
+        "1\n00:00:01,000 --> 00:00:03,000\nAssistant: First paragraph.\nSecond paragraph.\nThird.\n",
+        "2\n00:00:03,000 --> 00:00:04,500\nUser: Thanks\n",
+      ].join("\n")
+    );
+
+    const vtt = exportTranscript("vtt", paragraphs, { startedAtMs: START, exportedAt });
+    const cues = vtt.content.split("\n\n");
+    assert.equal(cues.length, 3);
+    assert.equal(cues[1], "00:00:01.000 --> 00:00:03.000\nAssistant: First paragraph.\nSecond paragraph.\nThird.");
+  });
+
+  it("writes Markdown and escaped HTML", () => {
+    const markdown = exportTranscript("markdown", items, {
+      scenario: "customerServiceRetail",
+      startedAtMs: START,
+      exportedAt,
+    }).content;
+    assert.ok(markdown.startsWith("# Transcript: customerServiceRetail\n"));
+    assert.ok(markdown.includes("**Assistant (returns)** `00:00:05.000`"));
+    assert.ok(markdown.includes("> Guardrail: OFF_BRAND - Disparages products"));
+    assert.ok(markdown.includes('```json\n{\n  "phone": "555"\n}\n```'));
+    assert.ok(!markdown.includes("hidden"));
+
+    const html = exportTranscript("html", items, { startedAtMs: START, exportedAt });
+    assert.equal(html.mimeType, "text/html");
+    assert.ok(html.content.includes("I want to &lt;return&gt; my board"));
+    assert.ok(html.content.includes('<div class="guardrail">Guardrail: OFF_BRAND - Disparages products</div>'));
+  });
+});
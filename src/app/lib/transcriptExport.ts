@@ -0,0 +1,370 @@
+import { GuardrailResultType, TranscriptItem } from "@/app/types";
+import { toStoredTranscriptItems } from "./sessionRecords";
+
+/**
+ * Transcript Export
+ *
+ * Turns the transcript into files people can attach elsewhere:
+ * - json: every message and breadcrumb, with agents, tool calls and guardrail verdicts
+ * - markdown: readable conversation for tickets
+ * - srt / vtt: captions timed against the audio recording
+ * - html: standalone report for bug reports
+ */
+
+export type TranscriptExportFormat = "json" | "markdown" | "srt" | "vtt" | "html";
+
+export const TRANSCRIPT_EXPORT_FORMATS: { format: TranscriptExportFormat; label: string }[] = [
+  { format: "json", label: "JSON" },
+  { format: "markdown", label: "Markdown" },
+  { format: "srt", label: "SRT captions" },
+  { format: "vtt", label: "WebVTT captions" },
+  { format: "html", label: "HTML report" },
+];
+
+export interface TranscriptExportOptions {
+  scenario?: string;
+  /**
+   * Time offsets (and caption cues) are measured from here. Pass when the
+   * audio recording started so captions line up with it; defaults to the
+   * first item.
+   */
+  startedAtMs?: number;
+  exportedAt?: Date;
+}
+
+export interface TranscriptExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+type ExportedGuardrail = Omit<GuardrailResultType, "status">;
+
+export type ExportedTranscriptEntry = {
+  itemId: string;
+  timestamp: string;
+  offsetMs: number;
+} & (
+  | {
+      type: "message";
+      role: "user" | "assistant";
+      /** Agent that was speaking, for assistant messages. */
+      agent?: string;
+      text: string;
+      status: "IN_PROGRESS" | "DONE";
+      guardrail?: ExportedGuardrail;
+    }
+  | { type: "agent"; agent: string }
+  | { type: "tool_call"; agent?: string; name: string; arguments?: Record<string, any> }
+  | { type: "tool_result"; agent?: string; name: string; result?: Record<string, any> }
+  | { type: "breadcrumb"; agent?: string; title: string; data?: Record<string, any> }
+);
+
+export interface ExportedTranscript {
+  scenario?: string;
+  startedAt: string;
+  exportedAt: string;
+  entries: ExportedTranscriptEntry[];
+}
+
+// Breadcrumb titles used by App.tsx and useHandleSessionHistory.ts
+const AGENT_PREFIX = "Agent: ";
+const TOOL_CALL_PREFIX = "function call: ";
+const TOOL_RESULT_PREFIX = "function call result: ";
+
+const MIN_CAPTION_MS = 1500;
+const MAX_CAPTION_MS = 7000;
+const CAPTION_MS_PER_CHAR = 60;
+
+function toEntry(
+  item: TranscriptItem,
+  offsetMs: number,
+  agent: string | undefined
+): ExportedTranscriptEntry {
+  const base = { itemId: item.itemId, timestamp: item.timestamp, offsetMs };
+  const title = item.title ?? "";
+
+  if (item.type === "MESSAGE") {
+    const { guardrailResult } = item;
+    return {
+      ...base,
+      type: "message",
+      role: item.role ?? "assistant",
+      ...(item.role === "assistant" && agent ? { agent } : {}),
+      text: title,
+      status: item.status,
+      ...(guardrailResult?.status === "DONE"
+        ? {
+            guardrail: {
+              category: guardrailResult.category,
+              rationale: guardrailResult.rationale,
+              testText: guardrailResult.testText,
+            },
+          }
+        : {}),
+    };
+  }
+  if (title.startsWith(AGENT_PREFIX)) {
+    return { ...base, type: "agent", agent: title.slice(AGENT_PREFIX.length) };
+  }
+  if (title.startsWith(TOOL_RESULT_PREFIX)) {
+    return {
+      ...base,
+      type: "tool_result",
+      agent,
+      name: title.slice(TOOL_RESULT_PREFIX.length),
+      result: item.data,
+    };
+  }
+  if (title.startsWith(TOOL_CALL_PREFIX)) {
+    return {
+      ...base,
+      type: "tool_call",
+      agent,
+      name: title.slice(TOOL_CALL_PREFIX.length),
+      arguments: item.data,
+    };
+  }
+  return { ...base, type: "breadcrumb", agent, title, data: item.data };
+}
+
+/**
+ * Visible items in time order, with the speaking agent worked out from the
+ * "Agent: ..." breadcrumbs.
+ */
+export function toExportedTranscript(
+  items: TranscriptItem[],
+  { scenario, startedAtMs, exportedAt = new Date() }: TranscriptExportOptions = {}
+): ExportedTranscript {
+  const visible = toStoredTranscriptItems(
+    items.filter((item) => !item.isHidden).sort((a, b) => a.createdAtMs - b.createdAtMs)
+  );
+  const origin = startedAtMs ?? visible[0]?.createdAtMs ?? exportedAt.getTime();
+
+  let agent: string | undefined;
+  const entries = visible.map((item) => {
+    const entry = toEntry(item, Math.max(0, item.createdAtMs - origin), agent);
+    if (entry.type === "agent") agent = entry.agent;
+    return entry;
+  });
+
+  return {
+    ...(scenario ? { scenario } : {}),
+    startedAt: new Date(origin).toISOString(),
+    exportedAt: exportedAt.toISOString(),
+    entries,
+  };
+}
+
+function formatOffset(offsetMs: number, millisecondSeparator: string): string {
+  const ms = Math.max(0, Math.round(offsetMs));
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor(ms / 60_000) % 60;
+  const seconds = Math.floor(ms / 1000) % 60;
+  return (
+    [hours, minutes, seconds].map((part) => part.toString().padStart(2, "0")).join(":") +
+    millisecondSeparator +
+    (ms % 1000).toString().padStart(3, "0")
+  );
+}
+
+type MessageEntry = Extract<ExportedTranscriptEntry, { type: "message" }>;
+
+function isSpokenMessage(entry: ExportedTranscriptEntry): entry is MessageEntry {
+  // Bracketed titles are placeholders such as "[Transcribing...]"
+  return entry.type === "message" && !!entry.text.trim() && !/^\[.*\]$/.test(entry.text);
+}
+
+function speakerLabel(entry: MessageEntry): string {
+  if (entry.role === "user") return "User";
+  return entry.agent ? `Assistant (${entry.agent})` : "Assistant";
+}
+
+/**
+ * A blank line ends an SRT/WebVTT cue, so paragraphs become single lines.
+ */
+function toCaptionText(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * One cue per message, shown until the next one starts (or for a time based
+ * on its length).
+ */
+function toCaptions(transcript: ExportedTranscript) {
+  const messages = transcript.entries.filter(isSpokenMessage);
+  return messages.map((entry, index) => {
+    const next = messages[index + 1];
+    const duration = Math.min(
+      MAX_CAPTION_MS,
+      Math.max(MIN_CAPTION_MS, entry.text.length * CAPTION_MS_PER_CHAR)
+    );
+    const end = next ? Math.min(entry.offsetMs + duration, next.offsetMs) : entry.offsetMs + duration;
+    return {
+      start: entry.offsetMs,
+      end: Math.max(end, entry.offsetMs + 1),
+      text: `${speakerLabel(entry)}: ${toCaptionText(entry.text)}`,
+    };
+  });
+}
+
+export function toSrt(transcript: ExportedTranscript): string {
+  return toCaptions(transcript)
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatOffset(cue.start, ",")} --> ${formatOffset(cue.end, ",")}\n${cue.text}\n`
+    )
+    .join("\n");
+}
+
+export function toWebVtt(transcript: ExportedTranscript): string {
+  const cues = toCaptions(transcript).map(
+    (cue) =>
+      // "-->" would end the cue timing line early
+      `${formatOffset(cue.start, ".")} --> ${formatOffset(cue.end, ".")}\n${cue.text.replace(/-->/g, "->")}\n`
+  );
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+function jsonBlock(data: Record<string, any> | undefined): string {
+  return data === undefined ? "" : `\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+}
+
+function guardrailText(guardrail: ExportedGuardrail): string {
+  const category = guardrail.category ?? "NONE";
+  return guardrail.rationale ? `${category} - ${guardrail.rationale}` : category;
+}
+
+export function toMarkdown(transcript: ExportedTranscript): string {
+  const lines = [
+    `# Transcript${transcript.scenario ? `: ${transcript.scenario}` : ""}`,
+    "",
+    `Started ${transcript.startedAt}, exported ${transcript.exportedAt}.`,
+  ];
+
+  for (const entry of transcript.entries) {
+    const time = `\`${formatOffset(entry.offsetMs, ".")}\``;
+    switch (entry.type) {
+      case "message":
+        if (!entry.text.trim()) break;
+        lines.push("", `**${speakerLabel(entry)}** ${time}`, "", entry.text.trim());
+        if (entry.guardrail && entry.guardrail.category !== "NONE") {
+          lines.push("", `> Guardrail: ${guardrailText(entry.guardrail)}`);
+        }
+        break;
+      case "agent":
+        lines.push("", `_${time} Agent: ${entry.agent}_`);
+        break;
+      case "tool_call":
+        lines.push("", `_${time} Tool call \`${entry.name}\`_${jsonBlock(entry.arguments)}`);
+        break;
+      case "tool_result":
+        lines.push("", `_${time} Tool result \`${entry.name}\`_${jsonBlock(entry.result)}`);
+        break;
+      case "breadcrumb":
+        lines.push("", `_${time} ${entry.title}_${jsonBlock(entry.data)}`);
+        break;
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function htmlDetails(summary: string, data: Record<string, any> | undefined): string {
+  if (data === undefined) return `<div class="crumb">${summary}</div>`;
+  return `<details class="crumb"><summary>${summary}</summary><pre>${escapeHtml(
+    JSON.stringify(data, null, 2)
+  )}</pre></details>`;
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; background: #f3f4f6; color: #1f2937; margin: 0; padding: 24px; }
+main { max-width: 800px; margin: 0 auto; display: flex; flex-direction: column; gap: 12px; }
+.meta { color: #6b7280; font-size: 14px; }
+.message { max-width: 80%; padding: 12px; border-radius: 12px; white-space: pre-wrap; }
+.user { align-self: flex-end; background: #111827; color: #f3f4f6; }
+.assistant { align-self: flex-start; background: #fff; }
+.speaker { font-size: 12px; opacity: 0.7; font-family: monospace; margin-bottom: 4px; }
+.guardrail { margin-top: 8px; font-size: 13px; padding: 4px 8px; border-radius: 6px; background: #fee2e2; color: #991b1b; }
+.crumb { font-family: monospace; font-size: 13px; color: #4b5563; }
+.crumb pre { white-space: pre-wrap; border-left: 2px solid #e5e7eb; padding-left: 8px; }
+`;
+
+export function toHtml(transcript: ExportedTranscript): string {
+  const title = `Transcript${transcript.scenario ? `: ${transcript.scenario}` : ""}`;
+  const body = transcript.entries.map((entry) => {
+    const time = formatOffset(entry.offsetMs, ".");
+    switch (entry.type) {
+      case "message": {
+        const guardrail =
+          entry.guardrail && entry.guardrail.category !== "NONE"
+            ? `<div class="guardrail">Guardrail: ${escapeHtml(guardrailText(entry.guardrail))}</div>`
+            : "";
+        return `<div class="message ${entry.role}"><div class="speaker">${escapeHtml(
+          speakerLabel(entry)
+        )} · ${time}</div>${escapeHtml(entry.text)}${guardrail}</div>`;
+      }
+      case "agent":
+        return `<div class="crumb">${time} Agent: ${escapeHtml(entry.agent)}</div>`;
+      case "tool_call":
+        return htmlDetails(`${time} Tool call ${escapeHtml(entry.name)}`, entry.arguments);
+      case "tool_result":
+        return htmlDetails(`${time} Tool result ${escapeHtml(entry.name)}`, entry.result);
+      case "breadcrumb":
+        return htmlDetails(`${time} ${escapeHtml(entry.title)}`, entry.data);
+    }
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">Started ${escapeHtml(transcript.startedAt)}, exported ${escapeHtml(transcript.exportedAt)}</div>
+${body.join("\n")}
+</main>
+</body>
+</html>
+`;
+}
+
+export function exportTranscript(
+  format: TranscriptExportFormat,
+  items: TranscriptItem[],
+  options?: TranscriptExportOptions
+): TranscriptExportFile {
+  const transcript = toExportedTranscript(items, options);
+  switch (format) {
+    case "json":
+      return {
+        content: JSON.stringify(transcript, null, 2),
+        mimeType: "application/json",
+        extension: "json",
+      };
+    case "markdown":
+      return { content: toMarkdown(transcript), mimeType: "text/markdown", extension: "md" };
+    case "srt":
+      return { content: toSrt(transcript), mimeType: "application/x-subrip", extension: "srt" };
+    case "vtt":
+      return { content: toWebVtt(transcript), mimeType: "text/vtt", extension: "vtt" };
+    case "html":
+      return { content: toHtml(transcript), mimeType: "text/html", extension: "html" };
+  }
+}
@@ -0,0 +1,10 @@
+import React, { Suspense } from "react";
+import SessionBrowser from "../components/SessionBrowser";
+
+export default function SessionsPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <SessionBrowser />
+    </Suspense>
+  );
+}
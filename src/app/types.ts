@@ -14,7 +14,12 @@ export type ModerationCategory = (typeof MODERATION_CATEGORIES)[number];
 // Create a Zod enum based on the same array
 export const ModerationCategoryZod = z.enum([...MODERATION_CATEGORIES]);
 
-export type SessionStatus = "DISCONNECTED" | "CONNECTING" | "CONNECTED";
+export type SessionStatus =
+  | "DISCONNECTED"
+  | "CONNECTING"
+  | "CONNECTED"
+  | "RECONNECTING"
+  | "REPLAYING";
 
 export interface ToolParameterProperty {
   type: string;
@@ -93,46 +98,6 @@ export interface Log {
   type: string;
 }
 
-export interface ServerEvent {
-  type: string;
-  event_id?: string;
-  item_id?: string;
-  transcript?: string;
-  delta?: string;
-  session?: {
-    id?: string;
-  };
-  item?: {
-    id?: string;
-    object?: string;
-    type?: string;
-    status?: string;
-    name?: string;
-    arguments?: string;
-    role?: "user" | "assistant";
-    content?: {
-      type?: string;
-      transcript?: string | null;
-      text?: string;
-    }[];
-  };
-  response?: {
-    output?: {
-      id: string;
-      type?: string;
-      name?: string;
-      arguments?: any;
-      call_id?: string;
-      role: string;
-      content?: any;
-    }[];
-    metadata: Record<string, any>;
-    status_details?: {
-      error?: any;
-    };
-  };
-}
-
 export interface LoggedEvent {
   id: number;
   direction: "client" | "server";
@@ -0,0 +1,290 @@
+/**
+ * realtime-agents CLI
+ *
+ * Runs a scenario's agents on a headless realtime session (see
+ * lib/headlessSession.ts), to iterate on prompts and tools without the browser:
+ *
+ *   npm run realtime-agents -- customerServiceRetail
+ *   npm run realtime-agents -- customerServiceRetail --script turns.txt --transcript-out run.json
+ *   npm run realtime-agents -- chatSupervisor --wav question.wav --audio-out answer.wav
+ *
+ * - With no --script or --wav, reads user turns from the terminal (a REPL)
+ * - Prints the conversation, tool calls, handoffs and guardrail verdicts as they happen
+ * - Connects with COMETAPI_KEY, or to an in-process mock server with --mock
+ * - Tools and guardrails that call the app's API routes (e.g. /api/responses)
+ *   need the app running; point --app-url at it
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { AddressInfo } from "net";
+import { dirname, extname, resolve } from "path";
+import { createInterface } from "readline";
+import { parseArgs } from "util";
+import { createModerationGuardrail } from "../app/agentConfigs/guardrails";
+import { loadMockRealtimeScript, startMockRealtimeServer } from "../app/api/realtime/mockServer";
+import { createNodeSocketFactory } from "../app/api/realtime/relay";
+import { PLAYBACK_SAMPLE_RATE } from "../app/lib/audioPlayback";
+import { decodeWAV, float32ToPCM16, resampleLinear } from "../app/lib/audioUtils";
+import { HeadlessRealtimeSession } from "../app/lib/headlessSession";
+import type { RealtimeEvent } from "../app/lib/realtimeEvents";
+import { getRuntimeConfig, REALTIME_RELAY_PATH } from "../app/lib/realtimeServerConfig";
+import { loadCliScenarios } from "./scenarios";
+
+const USAGE = `Usage: npm run realtime-agents -- <scenario> [options]
+
+Options:
+  --agent <name>            Agent to start with (default: the scenario's first)
+  --script <file>           User turns: .txt (one per line, # comments) or .json
+                            (["text", {"text": "..."}, {"audio": "turn.wav"}])
+  --wav <file>              Send a WAV file as a user turn (repeatable)
+  --audio-out <file>        Write the agents' audio to a WAV file
+  --transcript-out <file>   Write the transcript as JSON (the app's export format)
+  --no-guardrails           Don't run the moderation guardrail
+  --app-url <url>           Where relative API calls go (default http://localhost:3000)
+  --mock                    Use an in-process mock realtime server
+  --list                    List the scenarios and exit
+  --verbose                 Show the session's logs
+  -h, --help                Show this help`;
+
+type Turn = { text: string } | { audio: string };
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n`);
+  process.exit(1);
+}
+
+function print(line: string): void {
+  process.stdout.write(`${line}\n`);
+}
+
+function formatJson(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Turns from a script file. Audio paths are relative to the script.
+ */
+async function loadScript(path: string): Promise<Turn[]> {
+  const text = await readFile(path, "utf8");
+  if (extname(path) !== ".json") {
+    return text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith("#"))
+      .map((line) => ({ text: line }));
+  }
+
+  const turns = JSON.parse(text);
+  if (!Array.isArray(turns)) fail(`${path}: expected an array of turns`);
+  return turns.map((turn, index): Turn => {
+    if (typeof turn === "string") return { text: turn };
+    if (typeof turn?.text === "string") return { text: turn.text };
+    if (typeof turn?.audio === "string") return { audio: resolve(dirname(path), turn.audio) };
+    return fail(`${path}: turn ${index + 1} needs "text" or "audio"`);
+  });
+}
+
+/**
+ * A WAV file as PCM16 at 24 kHz mono, what the session expects.
+ */
+async function loadWavTurn(path: string): Promise<Int16Array> {
+  const file = await readFile(path);
+  const { samples, sampleRate } = decodeWAV(
+    file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer
+  );
+  return float32ToPCM16(resampleLinear(samples, sampleRate, PLAYBACK_SAMPLE_RATE));
+}
+
+/**
+ * Resolve relative URLs (the agents' `fetch("/api/responses")`) against the app.
+ */
+function routeRelativeFetches(appUrl: string): void {
+  const fetchFromNode = globalThis.fetch;
+  globalThis.fetch = (input, init) =>
+    fetchFromNode(typeof input === "string" && input.startsWith("/") ? new URL(input, appUrl) : input, init);
+}
+
+/**
+ * Print what happens in the session as it happens.
+ */
+function printEvents(session: HeadlessRealtimeSession): void {
+  const speaker = () => session.agentName ?? "assistant";
+  session.client.on("*", (event: RealtimeEvent) => {
+    switch (event.type) {
+      case "conversation.item.input_audio_transcription.completed":
+        print(`you: ${event.transcript.trim()}`);
+        break;
+      case "response.output_audio_transcript.done":
+        if (event.transcript) print(`${speaker()}: ${event.transcript}`);
+        break;
+      case "agent_tool_start":
+        print(`  → ${event.functionCall.name}(${event.functionCall.arguments})`);
+        break;
+      case "agent_tool_end":
+        print(`  ← ${event.functionCall.name}: ${event.result}`);
+        break;
+      case "agent_handoff":
+        print(`  ⇢ handoff ${event.fromAgent} → ${event.toAgent}`);
+        break;
+      case "guardrail_tripped":
+        print(`  ✗ guardrail ${event.guardrail.name} tripped, asking for a new response`);
+        break;
+      case "guardrail_result": {
+        const { status, category, rationale } = event.guardrailResult;
+        if (status !== "DONE") break;
+        print(`  ${category === "NONE" ? "✓" : "✗"} guardrail: ${category ?? "unknown"}${rationale ? ` (${rationale})` : ""}`);
+        break;
+      }
+      case "error":
+        process.stderr.write(`error: ${formatJson(event.error?.message ?? event.error)}\n`);
+        break;
+    }
+  });
+}
+
+async function runTurn(session: HeadlessRealtimeSession, turn: Turn): Promise<void> {
+  if ("text" in turn) {
+    print(`you: ${turn.text}`);
+    await session.sendText(turn.text);
+  } else {
+    print(`you: [${turn.audio}]`);
+    await session.sendAudio(await loadWavTurn(turn.audio));
+  }
+}
+
+async function runRepl(session: HeadlessRealtimeSession): Promise<void> {
+  const repl = createInterface({ input: process.stdin, output: process.stdout, prompt: "> " });
+  repl.prompt();
+  for await (const line of repl) {
+    const text = line.trim();
+    if (text === "/quit" || text === "/exit") break;
+    if (text) await session.sendText(text);
+    repl.prompt();
+  }
+  repl.close();
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      agent: { type: "string" },
+      script: { type: "string" },
+      wav: { type: "string", multiple: true },
+      "audio-out": { type: "string" },
+      "transcript-out": { type: "string" },
+      "no-guardrails": { type: "boolean" },
+      "app-url": { type: "string", default: "http://localhost:3000" },
+      mock: { type: "boolean" },
+      list: { type: "boolean" },
+      verbose: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    print(USAGE);
+    return;
+  }
+  if (!values.verbose) {
+    // The session and the agents log to the console; keep the conversation readable
+    console.log = () => {};
+    console.info = () => {};
+    console.warn = () => {};
+  }
+
+  const config = getRuntimeConfig();
+  const { scenarios, errors } = await loadCliScenarios(config.scenariosDir);
+  errors.forEach(({ file, message }) => process.stderr.write(`Skipping ${file}: ${message}\n`));
+  if (values.list) {
+    Object.entries(scenarios).forEach(([key, { agents }]) =>
+      print(`${key}: ${agents.map((agent) => agent.name).join(", ")}`)
+    );
+    return;
+  }
+
+  const scenarioKey = positionals[0];
+  if (!scenarioKey) fail(USAGE);
+  const scenario = Object.hasOwn(scenarios, scenarioKey) ? scenarios[scenarioKey] : null;
+  if (!scenario) fail(`Unknown scenario "${scenarioKey}". Available: ${Object.keys(scenarios).join(", ")}`);
+
+  // The starting agent goes first, as in the app's agent dropdown
+  const agents = [...scenario.agents];
+  if (values.agent) {
+    const index = agents.findIndex((agent) => agent.name === values.agent);
+    if (index < 0) fail(`No agent "${values.agent}" in ${scenarioKey}`);
+    agents.unshift(...agents.splice(index, 1));
+  }
+
+  const turns: Turn[] = [
+    ...(values.script ? await loadScript(values.script) : []),
+    ...(values.wav ?? []).map((audio) => ({ audio })),
+  ];
+
+  const appUrl = values["app-url"]!;
+  routeRelativeFetches(appUrl);
+  if (!values["no-guardrails"]) {
+    // The guardrail lets every message through when it can't reach /api/responses
+    await fetch(appUrl, { method: "HEAD" }).catch(() =>
+      process.stderr.write(
+        `The app isn't reachable at ${appUrl}: the guardrail and tools that call its API won't work. ` +
+          "Start it (npm run dev), pass --app-url or --no-guardrails.\n"
+      )
+    );
+  }
+
+  let url = config.realtimeUrl;
+  let apiKey = config.apiKey;
+  const mockServer = values.mock
+    ? startMockRealtimeServer({
+        port: 0,
+        protocol: config.mockRealtimeProtocol,
+        script: config.mockRealtimeScript ? loadMockRealtimeScript(config.mockRealtimeScript) : undefined,
+      })
+    : null;
+  if (mockServer) {
+    await new Promise((resolve) => mockServer.once("listening", resolve));
+    url = `ws://127.0.0.1:${(mockServer.address() as AddressInfo).port}${REALTIME_RELAY_PATH}`;
+    apiKey = "mock";
+  }
+  if (!apiKey) fail("COMETAPI_KEY is not set (in .env or the environment); use --mock to run offline");
+
+  const session = new HeadlessRealtimeSession({
+    apiKey,
+    model: config.model,
+    url,
+    createSocket: createNodeSocketFactory(config),
+    protocol: mockServer ? config.mockRealtimeProtocol : undefined,
+    verbose: values.verbose,
+    agents,
+    scenario: scenarioKey,
+    outputGuardrails: values["no-guardrails"] ? [] : [createModerationGuardrail(scenario.companyName)],
+    onBreadcrumb: (title, data) => print(`  · ${title}${data ? ` ${formatJson(data)}` : ""}`),
+  });
+  printEvents(session);
+
+  try {
+    await session.connect();
+    print(`Connected: ${scenarioKey}, talking to ${session.agentName}`);
+    if (turns.length > 0) {
+      for (const turn of turns) await runTurn(session, turn);
+    } else {
+      print("Type a message, /quit or Ctrl-D to exit.");
+      await runRepl(session);
+    }
+  } finally {
+    session.close();
+    mockServer?.close();
+  }
+
+  if (values["audio-out"]) {
+    await writeFile(values["audio-out"], Buffer.from(session.getAgentAudioWav()));
+    print(`Wrote the agents' audio to ${values["audio-out"]}`);
+  }
+  if (values["transcript-out"]) {
+    await writeFile(values["transcript-out"], `${JSON.stringify(session.getTranscript(), null, 2)}\n`);
+    print(`Wrote the transcript to ${values["transcript-out"]}`);
+  }
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)));
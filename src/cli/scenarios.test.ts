@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { createServer, Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { RunContext } from "@openai/agents";
+import { loadCliScenarios } from "./scenarios";
+
+let server: Server | null = null;
+let dir: string | null = null;
+
+afterEach(async () => {
+  if (server) {
+    await new Promise((resolve) => server!.close(resolve));
+    server = null;
+  }
+  if (dir) {
+    await rm(dir, { recursive: true, force: true });
+    dir = null;
+  }
+  delete process.env.CLI_TEST_TOKEN;
+});
+
+describe("loadCliScenarios", () => {
+  it("runs scenario file HTTP tools with secrets from the environment", async () => {
+    server = createServer((request, response) => {
+      response.setHeader("Content-Type", "application/json");
+      response.end(JSON.stringify({ auth: request.headers.authorization }));
+    });
+    server.listen(0, "127.0.0.1");
+    await once(server, "listening");
+    const { port } = server.address() as AddressInfo;
+
+    dir = await mkdtemp(join(tmpdir(), "cli-scenarios-"));
+    await writeFile(
+      join(dir, "shop.json"),
+      JSON.stringify({
+        agents: [
+          {
+            name: "support",
+            instructions: "Help.",
+            tools: [
+              {
+                name: "lookupOrder",
+                description: "Find an order",
+                behavior: {
+                  type: "http",
+                  url: `http://127.0.0.1:${port}/orders`,
+                  headers: { Authorization: "Bearer ${CLI_TEST_TOKEN}" },
+                },
+              },
+            ],
+          },
+        ],
+      })
+    );
+    process.env.CLI_TEST_TOKEN = "s3cret";
+
+    const { scenarios, errors } = await loadCliScenarios(dir);
+    const tool: any = (await scenarios.shop.agents[0].getAllTools()).find(
+      (candidate: any) => candidate.name === "lookupOrder"
+    );
+    const result = await tool.invoke(new RunContext({}), JSON.stringify({ id: "42" }));
+
+    assert.deepEqual(errors, []);
+    assert.ok(scenarios.customerServiceRetail);
+    assert.deepEqual(result, { auth: "Bearer s3cret" });
+  });
+});
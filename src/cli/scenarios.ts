@@ -0,0 +1,42 @@
+import type { RealtimeAgent } from "@openai/agents/realtime";
+import { allAgentSets } from "../app/agentConfigs";
+import { chatSupervisorCompanyName } from "../app/agentConfigs/chatSupervisor";
+import { customerServiceRetailCompanyName } from "../app/agentConfigs/customerServiceRetail";
+import { buildScenarioAgents } from "../app/agentConfigs/declarativeScenario";
+import type { ScenarioLoadError } from "../app/lib/scenarioDefinitions";
+import { loadScenarioDefinitions } from "../app/lib/scenarioLoader";
+
+/**
+ * The scenarios the realtime-agents CLI can run: the TypeScript ones in
+ * agentConfigs and the JSON/YAML files in the scenarios directory, with the
+ * company name their moderation guardrail checks against (as in App.tsx).
+ */
+
+export interface CliScenario {
+  agents: RealtimeAgent[];
+  companyName: string;
+}
+
+export async function loadCliScenarios(
+  scenariosDir: string
+): Promise<{ scenarios: Record<string, CliScenario>; errors: ScenarioLoadError[] }> {
+  const scenarios: Record<string, CliScenario> = {};
+  for (const [key, agents] of Object.entries(allAgentSets)) {
+    scenarios[key] = {
+      agents,
+      companyName:
+        key === "customerServiceRetail" ? customerServiceRetailCompanyName : chatSupervisorCompanyName,
+    };
+  }
+
+  const loaded = await loadScenarioDefinitions(scenariosDir);
+  for (const [key, definition] of Object.entries(loaded.scenarios)) {
+    scenarios[key] = {
+      // The file and its secrets are right here: tools call their endpoints
+      // directly, with `${NAME}` in headers read from this process's environment
+      agents: buildScenarioAgents(key, definition, "direct", process.env),
+      companyName: definition.companyName ?? chatSupervisorCompanyName,
+    };
+  }
+  return { scenarios, errors: loaded.errors };
+}
@@ -0,0 +1,47 @@
+/**
+ * Next.js instrumentation hook: runs once when the server starts.
+ * Starts the CometAPI realtime relay (see app/api/realtime/relay.ts) next to
+ * the Next.js server, since route handlers can't accept WebSocket upgrades,
+ * and, with COMETAPI_MOCK_REALTIME=true, the offline mock realtime server and,
+ * with COMETAPI_TELEPHONY_ENABLED=true, the telephony bridge.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { getRuntimeConfig } = await import("./app/lib/realtimeServerConfig");
+  const config = getRuntimeConfig();
+
+  // Dev reloads can re-run register(); keep a single server of each kind per process
+  const globalServers = globalThis as typeof globalThis & {
+    __cometapiRelayStarted?: boolean;
+    __cometapiMockRealtimeStarted?: boolean;
+    __cometapiTelephonyStarted?: boolean;
+  };
+
+  if (config.mockRealtimeEnabled && !globalServers.__cometapiMockRealtimeStarted) {
+    globalServers.__cometapiMockRealtimeStarted = true;
+    const { loadMockRealtimeScript, startMockRealtimeServer } = await import(
+      "./app/api/realtime/mockServer"
+    );
+    startMockRealtimeServer({
+      port: config.mockRealtimePort,
+      protocol: config.mockRealtimeProtocol,
+      script: config.mockRealtimeScript
+        ? loadMockRealtimeScript(config.mockRealtimeScript)
+        : undefined,
+    });
+  }
+
+  if (config.telephonyEnabled && !globalServers.__cometapiTelephonyStarted) {
+    globalServers.__cometapiTelephonyStarted = true;
+    const { startTelephonyBridge } = await import("./app/api/realtime/telephonyBridge");
+    startTelephonyBridge({ port: config.telephonyPort });
+  }
+
+  if (!config.relayEnabled || config.exposeKeyToBrowser) return;
+  if (globalServers.__cometapiRelayStarted) return;
+  globalServers.__cometapiRelayStarted = true;
+
+  const { startRealtimeRelay } = await import("./app/api/realtime/relay");
+  startRealtimeRelay({ port: config.relayPort });
+}